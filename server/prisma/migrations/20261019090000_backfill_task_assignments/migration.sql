@@ -0,0 +1,23 @@
+-- Remove duplicate assignments before enforcing uniqueness
+DELETE FROM "TaskAssignment" a
+USING "TaskAssignment" b
+WHERE a."taskId" = b."taskId"
+  AND a."userId" = b."userId"
+  AND a."id" > b."id";
+
+-- Seeded rows carry explicit ids, so move the sequence past them before inserting
+SELECT setval(pg_get_serial_sequence('"TaskAssignment"', 'id'), COALESCE(MAX("id"), 0) + 1, false)
+FROM "TaskAssignment";
+
+-- Backfill an assignment for every task's single assignee
+INSERT INTO "TaskAssignment" ("userId", "taskId")
+SELECT t."assignedUserId", t."id"
+FROM "Task" t
+WHERE t."assignedUserId" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "TaskAssignment" ta
+    WHERE ta."taskId" = t."id" AND ta."userId" = t."assignedUserId"
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskAssignment_taskId_userId_key" ON "TaskAssignment"("taskId", "userId");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "occurrence" INTEGER,
+ADD COLUMN     "seriesId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TaskSeries" (
+    "id" SERIAL NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "until" TIMESTAMP(3),
+    "count" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_seriesId_occurrence_key" ON "Task"("seriesId", "occurrence");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "TaskSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#dbeafe',
+    "projectId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskTag" (
+    "taskId" INTEGER NOT NULL,
+    "tagId" INTEGER NOT NULL,
+
+    CONSTRAINT "TaskTag_pkey" PRIMARY KEY ("taskId","tagId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_projectId_name_key" ON "Tag"("projectId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskTag" ADD CONSTRAINT "TaskTag_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskTag" ADD CONSTRAINT "TaskTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Split the comma separated strings into one tag per project, merging names that differ only in case.
+-- The spelling used by the oldest task wins.
+INSERT INTO "Tag" ("name", "projectId")
+SELECT DISTINCT ON (split."projectId", lower(split."name")) split."name", split."projectId"
+FROM (
+    SELECT t."id" AS "taskId", t."projectId", btrim(part) AS "name"
+    FROM "Task" t, unnest(string_to_array(t."tags", ',')) AS part
+    WHERE t."tags" IS NOT NULL
+) split
+WHERE split."name" <> ''
+ORDER BY split."projectId", lower(split."name"), split."taskId";
+
+INSERT INTO "TaskTag" ("taskId", "tagId")
+SELECT DISTINCT split."taskId", tag."id"
+FROM (
+    SELECT t."id" AS "taskId", t."projectId", btrim(part) AS "name"
+    FROM "Task" t, unnest(string_to_array(t."tags", ',')) AS part
+    WHERE t."tags" IS NOT NULL
+) split
+JOIN "Tag" tag ON tag."projectId" = split."projectId" AND lower(tag."name") = lower(split."name")
+WHERE split."name" <> '';
+
+-- AlterTable
+ALTER TABLE "Task" DROP COLUMN "tags";
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "rank" TEXT NOT NULL DEFAULT '';
+
+-- Existing tasks keep their id order within each column
+UPDATE "Task" SET "rank" = "ranked"."rank"
+FROM (
+  SELECT "id", LPAD(ROW_NUMBER() OVER (PARTITION BY "projectId", "status" ORDER BY "id")::TEXT, 6, '0') AS "rank"
+  FROM "Task"
+) AS "ranked"
+WHERE "Task"."id" = "ranked"."id";
+
+ALTER TABLE "Task" ALTER COLUMN "rank" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "Task_projectId_status_rank_idx" ON "Task"("projectId", "status", "rank");
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "ProjectStatus" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#2563EB',
+    "category" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectStatus_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StatusTransition" (
+    "id" SERIAL NOT NULL,
+    "fromStatusId" INTEGER NOT NULL,
+    "toStatusId" INTEGER NOT NULL,
+
+    CONSTRAINT "StatusTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectStatus_projectId_name_key" ON "ProjectStatus"("projectId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatusTransition_fromStatusId_toStatusId_key" ON "StatusTransition"("fromStatusId", "toStatusId");
+
+-- Every project starts with the four statuses that used to be built in
+INSERT INTO "ProjectStatus" ("projectId", "name", "color", "category", "position")
+SELECT "Project"."id", "defaults"."name", "defaults"."color", "defaults"."category", "defaults"."position"
+FROM "Project"
+CROSS JOIN (VALUES
+    ('To Do', '#2563EB', 'todo', 0),
+    ('Work In Progress', '#059669', 'inProgress', 1),
+    ('Under Review', '#D97706', 'inProgress', 2),
+    ('Completed', '#000000', 'done', 3)
+) AS "defaults"("name", "color", "category", "position");
+
+-- Any other status already typed into a task becomes an in-progress stage after those
+INSERT INTO "ProjectStatus" ("projectId", "name", "color", "category", "position")
+SELECT "used"."projectId", "used"."status", '#6B7280', 'inProgress',
+       3 + ROW_NUMBER() OVER (PARTITION BY "used"."projectId" ORDER BY "used"."status")
+FROM (
+    SELECT DISTINCT "projectId", "status" FROM "Task" WHERE "status" IS NOT NULL
+) AS "used"
+WHERE NOT EXISTS (
+    SELECT 1 FROM "ProjectStatus"
+    WHERE "ProjectStatus"."projectId" = "used"."projectId" AND "ProjectStatus"."name" = "used"."status"
+);
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_projectId_status_fkey" FOREIGN KEY ("projectId", "status") REFERENCES "ProjectStatus"("projectId", "name") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectStatus" ADD CONSTRAINT "ProjectStatus_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatusTransition" ADD CONSTRAINT "StatusTransition_fromStatusId_fkey" FOREIGN KEY ("fromStatusId") REFERENCES "ProjectStatus"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatusTransition" ADD CONSTRAINT "StatusTransition_toStatusId_fkey" FOREIGN KEY ("toStatusId") REFERENCES "ProjectStatus"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "wipEnforcement" TEXT NOT NULL DEFAULT 'warn';
+
+-- AlterTable
+ALTER TABLE "ProjectStatus" ADD COLUMN     "wipLimit" INTEGER;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "ProjectTemplate" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TemplateTask" (
+    "id" SERIAL NOT NULL,
+    "templateId" INTEGER NOT NULL,
+    "parentId" INTEGER,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" TEXT,
+    "points" INTEGER,
+    "tags" TEXT[],
+    "anchor" TEXT NOT NULL DEFAULT 'start',
+    "startOffsetDays" INTEGER,
+    "dueOffsetDays" INTEGER,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "TemplateTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TemplateTask_templateId_idx" ON "TemplateTask"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "ProjectTemplate" ADD CONSTRAINT "ProjectTemplate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("userId") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateTask" ADD CONSTRAINT "TemplateTask_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "ProjectTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateTask" ADD CONSTRAINT "TemplateTask_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "TemplateTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "sprintId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Sprint" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "goal" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "state" TEXT NOT NULL DEFAULT 'planned',
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Sprint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Sprint_projectId_idx" ON "Sprint"("projectId");
+
+-- CreateIndex
+CREATE INDEX "Task_sprintId_idx" ON "Task"("sprintId");
+
+-- One active sprint per project
+CREATE UNIQUE INDEX "Sprint_projectId_active_key" ON "Sprint"("projectId") WHERE "state" = 'active';
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_sprintId_fkey" FOREIGN KEY ("sprintId") REFERENCES "Sprint"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Sprint" ADD CONSTRAINT "Sprint_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
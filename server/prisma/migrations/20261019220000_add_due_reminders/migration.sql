@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "reminderChannels" TEXT[] DEFAULT ARRAY['inApp', 'email']::TEXT[],
+ADD COLUMN     "reminderDaysBefore" INTEGER[] DEFAULT ARRAY[7, 1]::INTEGER[],
+ADD COLUMN     "remindOverdue" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "Reminder" (
+    "id" SERIAL NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "channels" TEXT[],
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Reminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Reminder_userId_readAt_idx" ON "Reminder"("userId", "readAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Reminder_taskId_userId_kind_dueDate_key" ON "Reminder"("taskId", "userId", "kind", "dueDate");
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "TaskWatcher" (
+    "id" SERIAL NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskWatcher_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskWatcher_userId_idx" ON "TaskWatcher"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskWatcher_taskId_userId_key" ON "TaskWatcher"("taskId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "TaskWatcher" ADD CONSTRAINT "TaskWatcher_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskWatcher" ADD CONSTRAINT "TaskWatcher_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing authors, assignees and commenters watch the tasks they would have been auto-watching
+INSERT INTO "TaskWatcher" ("taskId", "userId")
+SELECT "id", "authorUserId" FROM "Task"
+UNION
+SELECT "taskId", "userId" FROM "TaskAssignment"
+UNION
+SELECT "taskId", "userId" FROM "Comment"
+ON CONFLICT DO NOTHING;
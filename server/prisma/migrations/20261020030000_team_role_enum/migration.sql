@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "TeamRole" AS ENUM ('member', 'viewer');
+
+-- AlterTable: anything other than viewer was already treated as member
+ALTER TABLE "User" ALTER COLUMN "teamRole" DROP DEFAULT,
+ALTER COLUMN "teamRole" TYPE "TeamRole" USING (CASE WHEN "teamRole" = 'viewer' THEN 'viewer' ELSE 'member' END)::"TeamRole",
+ALTER COLUMN "teamRole" SET DEFAULT 'member';
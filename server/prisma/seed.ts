@@ -1,6 +1,7 @@
 import { PrismaClient } from "@prisma/client";
 import fs from "fs";
 import path from "path";
+import { DEFAULT_PROJECT_STATUSES } from "../src/services/projectStatuses";
 const prisma = new PrismaClient();
 
 async function deleteAllData(orderedFileNames: string[]) {
@@ -20,6 +21,74 @@ async function deleteAllData(orderedFileNames: string[]) {
   }
 }
 
+// Seed tasks keep tags as a comma separated string; they are stored as per-project Tag rows.
+// Their board order follows their ids
+function toTaskData({ tags, ...task }: any) {
+  const names: string[] = tags
+    ? String(tags).split(",").map((name) => name.trim()).filter(Boolean)
+    : [];
+  return {
+    ...task,
+    rank: String(task.id).padStart(6, "0"),
+    taskTags: {
+      create: names.map((name) => ({
+        tag: {
+          connectOrCreate: {
+            where: { projectId_name: { projectId: task.projectId, name } },
+            create: { projectId: task.projectId, name },
+          },
+        },
+      })),
+    },
+  };
+}
+
+// The checklist every school application repeats; due dates count back from the project's end date
+const APPLICATION_TEMPLATE = {
+  name: "Law School Application",
+  description: "Personal statement, résumé, two LORs, CAS report, addenda and fee",
+  tasks: [
+    { title: "Personal Statement", priority: "High", tags: ["Essays"], dueOffsetDays: -21 },
+    { title: "Résumé", priority: "Medium", tags: ["Documents"], dueOffsetDays: -21 },
+    {
+      title: "Letters of Recommendation",
+      priority: "High",
+      tags: ["LOR"],
+      dueOffsetDays: -30,
+      subtasks: ["First LOR", "Second LOR"],
+    },
+    { title: "CAS Report", priority: "High", tags: ["LSAC"], dueOffsetDays: -14 },
+    { title: "Addenda", priority: "Low", tags: ["Essays"], dueOffsetDays: -14 },
+    { title: "Application Fee", priority: "Medium", tags: ["Fees"], dueOffsetDays: -7 },
+  ],
+};
+
+async function seedTemplates() {
+  await prisma.projectTemplate.deleteMany({});
+  const { tasks, ...template } = APPLICATION_TEMPLATE;
+  const created = await prisma.projectTemplate.create({ data: template });
+  for (const [position, { subtasks = [], ...task }] of tasks.entries()) {
+    await prisma.templateTask.create({
+      data: {
+        ...task,
+        templateId: created.id,
+        anchor: "end",
+        position,
+        subtasks: {
+          create: subtasks.map((title, index) => ({
+            templateId: created.id,
+            title,
+            anchor: "end",
+            dueOffsetDays: task.dueOffsetDays,
+            position: index,
+          })),
+        },
+      },
+    });
+  }
+  console.log(`Seeded template ${created.name}`);
+}
+
 async function main() {
   const dataDirectory = path.join(__dirname, "seedData");
 
@@ -44,13 +113,22 @@ async function main() {
 
     try {
       for (const data of jsonData) {
-        await model.create({ data });
+        await model.create({
+          data:
+            modelName === "task"
+              ? toTaskData(data)
+              : modelName === "project"
+                ? { ...data, statuses: { create: DEFAULT_PROJECT_STATUSES } }
+                : data,
+        });
       }
       console.log(`Seeded ${modelName} with data from ${fileName}`);
     } catch (error) {
       console.error(`Error seeding data for ${modelName}:`, error);
     }
   }
+
+  await seedTemplates();
 }
 
 main()
@@ -13,4 +13,7 @@ AWS.config.update({
 
 const s3 = new AWS.S3();
 
+// Reminder emails; the sender address is MP_SES_SENDER
+export const ses = new AWS.SES();
+
 export default s3;
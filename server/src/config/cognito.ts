@@ -1,6 +1,12 @@
 // src/config/cognito.ts
+import dotenv from 'dotenv';
+
+dotenv.config();
+
 export const cognitoConfig = {
     region: process.env.NEXT_PUBLIC_MP_REGION!,
     userPoolId: process.env.NEXT_PUBLIC_AWS_COGNITO_USER_POOL_ID!,
     clientId: process.env.NEXT_PUBLIC_AWS_COGNITO_CLIENT_ID!,
-  };
\ No newline at end of file
+    // Optional path to a JWKS file; when set, tokens are verified against it instead of fetching the user pool's keys
+    jwksPath: process.env.COGNITO_JWKS_PATH,
+  };
@@ -0,0 +1,108 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeTask, getProjectRole } from "../policies/accessPolicy";
+import { assignUser, unassignUser } from "../services/taskAssignments";
+import { recordActivity } from "../services/taskActivity";
+import { dispatchTaskEvent } from "../services/taskEvents";
+
+const prisma = new PrismaClient();
+
+const assignmentInclude = {
+  user: {
+    select: { userId: true, username: true, profilePictureUrl: true },
+  },
+};
+
+export const addAssignee = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  const { userId } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+
+    const user = await prisma.user.findUnique({
+      where: { userId: Number(userId) },
+    });
+    if (!user) {
+      res.status(400).json({ message: `User ${userId} does not exist` });
+      return;
+    }
+    // Only people on the project can see the task, so only they can be assigned to it
+    if ((await getProjectRole(user, task.projectId)) === null) {
+      res.status(400).json({
+        message: `User "${user.username}" is not a member of this project`,
+      });
+      return;
+    }
+
+    // Assigning someone again changes nothing, so nobody is told and no history is written
+    const existing = await prisma.taskAssignment.findUnique({
+      where: { taskId_userId: { taskId: task.id, userId: user.userId } },
+    });
+    if (!existing) {
+      await prisma.$transaction(async (tx) => {
+        await assignUser(tx, task.id, user.userId);
+        // The first assignee of an unassigned task becomes its primary assignee
+        if (task.assignedUserId === null) {
+          await tx.task.update({
+            where: { id: task.id },
+            data: { assignedUserId: user.userId },
+          });
+        }
+        await recordActivity(tx, task.id, req.user!.userId, "assignee_added", [
+          { field: "assignee", oldValue: null, newValue: user.username },
+        ]);
+        await dispatchTaskEvent(tx, {
+          type: "assigned",
+          task,
+          actor: req.user!,
+          userIds: [user.userId],
+        });
+      });
+    }
+
+    const assignments = await prisma.taskAssignment.findMany({
+      where: { taskId: task.id },
+      include: assignmentInclude,
+    });
+    res.status(existing ? 200 : 201).json(assignments);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error adding assignee: ${error.message}` });
+  }
+};
+
+export const removeAssignee = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId, userId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+
+    const user = await prisma.user.findUnique({
+      where: { userId: Number(userId) },
+    });
+    await prisma.$transaction(async (tx) => {
+      await unassignUser(tx, task, Number(userId));
+      await recordActivity(tx, task.id, req.user!.userId, "assignee_removed", [
+        { field: "assignee", oldValue: user?.username ?? userId, newValue: null },
+      ]);
+    });
+
+    const assignments = await prisma.taskAssignment.findMany({
+      where: { taskId: task.id },
+      include: assignmentInclude,
+    });
+    res.json(assignments);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error removing assignee: ${error.message}` });
+  }
+};
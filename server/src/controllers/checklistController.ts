@@ -0,0 +1,177 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeTask } from "../policies/accessPolicy";
+import { diffFields, recordActivity } from "../services/taskActivity";
+
+const prisma = new PrismaClient();
+
+const listItems = (taskId: number) =>
+  prisma.checklistItem.findMany({
+    where: { taskId },
+    orderBy: { position: "asc" },
+  });
+
+export const getChecklist = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    if (!(await authorizeTask(req, res, Number(taskId), "task:view"))) {
+      return;
+    }
+    res.json(await listItems(Number(taskId)));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving checklist: ${error.message}` });
+  }
+};
+
+export const createChecklistItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  const { text } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+
+    if (!text || !String(text).trim()) {
+      res.status(400).json({ message: "Checklist item text is required" });
+      return;
+    }
+
+    // New items go to the end of the list
+    const last = await prisma.checklistItem.findFirst({
+      where: { taskId: task.id },
+      orderBy: { position: "desc" },
+    });
+    const item = await prisma.checklistItem.create({
+      data: {
+        taskId: task.id,
+        text: String(text).trim(),
+        position: last ? last.position + 1 : 0,
+      },
+    });
+    await recordActivity(prisma, task.id, req.user!.userId, "checklist_added", [
+      { field: "checklist", oldValue: null, newValue: item.text },
+    ]);
+    res.status(201).json(item);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error creating checklist item: ${error.message}` });
+  }
+};
+
+export const updateChecklistItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId, itemId } = req.params;
+  const { text, isDone } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+
+    const item = await prisma.checklistItem.findUnique({
+      where: { id: Number(itemId) },
+    });
+    if (!item || item.taskId !== task.id) {
+      res.status(404).json({ message: `Checklist item ${itemId} not found` });
+      return;
+    }
+    if (text !== undefined && !String(text).trim()) {
+      res.status(400).json({ message: "Checklist item text cannot be empty" });
+      return;
+    }
+
+    const updatedItem = await prisma.checklistItem.update({
+      where: { id: item.id },
+      data: {
+        text: text !== undefined ? String(text).trim() : undefined,
+        isDone: isDone !== undefined ? Boolean(isDone) : undefined,
+      },
+    });
+    await recordActivity(
+      prisma,
+      task.id,
+      req.user!.userId,
+      "checklist_updated",
+      diffFields(item, updatedItem, ["text", "isDone"])
+    );
+    res.json(updatedItem);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating checklist item: ${error.message}` });
+  }
+};
+
+export const deleteChecklistItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId, itemId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+
+    const item = await prisma.checklistItem.findUnique({
+      where: { id: Number(itemId) },
+    });
+    if (!item || item.taskId !== task.id) {
+      res.status(404).json({ message: `Checklist item ${itemId} not found` });
+      return;
+    }
+    await prisma.checklistItem.delete({ where: { id: item.id } });
+    await recordActivity(prisma, task.id, req.user!.userId, "checklist_removed", [
+      { field: "checklist", oldValue: item.text, newValue: null },
+    ]);
+    res.json({ message: `Checklist item ${itemId} deleted` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting checklist item: ${error.message}` });
+  }
+};
+
+// Takes the task's full list of item ids in their new order and renumbers positions to match
+export const reorderChecklist = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  const { itemIds } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+
+    const items = await listItems(task.id);
+    const orderedIds: number[] = Array.isArray(itemIds) ? itemIds.map(Number) : [];
+    const isPermutation =
+      orderedIds.length === items.length &&
+      new Set(orderedIds).size === orderedIds.length &&
+      items.every((item) => orderedIds.includes(item.id));
+    if (!isPermutation) {
+      res.status(400).json({
+        message: "itemIds must list every checklist item of the task exactly once",
+      });
+      return;
+    }
+
+    await prisma.$transaction(
+      orderedIds.map((id, position) =>
+        prisma.checklistItem.update({ where: { id }, data: { position } })
+      )
+    );
+    await recordActivity(prisma, task.id, req.user!.userId, "checklist_reordered");
+    res.json(await listItems(task.id));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error reordering checklist: ${error.message}` });
+  }
+};
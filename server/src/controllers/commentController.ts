@@ -0,0 +1,240 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeTask, can, getProjectRole } from "../policies/accessPolicy";
+import { extractMentions } from "../utils/mentions";
+import { recordActivity } from "../services/taskActivity";
+import { dispatchTaskEvent } from "../services/taskEvents";
+
+const prisma = new PrismaClient();
+
+const commentInclude = {
+  user: {
+    select: { userId: true, username: true, profilePictureUrl: true },
+  },
+  mentions: {
+    include: {
+      user: { select: { userId: true, username: true } },
+    },
+  },
+};
+
+// Resolves "@username" references in the text to the ids of users with a role on the project.
+// Anyone else is left unmentioned, so the task never reaches people who cannot open it
+const resolveMentionedUserIds = async (
+  text: string,
+  projectId: number
+): Promise<number[]> => {
+  const usernames = extractMentions(text);
+  if (usernames.length === 0) return [];
+  const users = await prisma.user.findMany({
+    where: { username: { in: usernames } },
+  });
+  const members: number[] = [];
+  for (const user of users) {
+    if ((await getProjectRole(user, projectId)) !== null) {
+      members.push(user.userId);
+    }
+  }
+  return members;
+};
+
+export const getComments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    if (!(await authorizeTask(req, res, Number(taskId), "task:view"))) {
+      return;
+    }
+    // Returned flat and oldest first; replies point at their parent through parentId
+    const comments = await prisma.comment.findMany({
+      where: { taskId: Number(taskId) },
+      include: commentInclude,
+      orderBy: { createdAt: "asc" },
+    });
+    res.json(comments);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving comments: ${error.message}` });
+  }
+};
+
+export const createComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  const { text, parentId } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "comment:create");
+    if (!task) return;
+
+    if (text !== undefined && text !== null && typeof text !== "string") {
+      res.status(400).json({ message: "Comment text must be a string" });
+      return;
+    }
+    if (!text || !text.trim()) {
+      res.status(400).json({ message: "Comment text is required" });
+      return;
+    }
+
+    if (parentId !== undefined && parentId !== null) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: Number(parentId) },
+      });
+      if (!parent || parent.taskId !== task.id) {
+        res
+          .status(400)
+          .json({ message: "Replies must reference a comment on the same task" });
+        return;
+      }
+    }
+
+    const mentionedUserIds = await resolveMentionedUserIds(
+      text,
+      task.projectId
+    );
+    const newComment = await prisma.$transaction(async (tx) => {
+      const created = await tx.comment.create({
+        data: {
+          text,
+          taskId: task.id,
+          userId: req.user!.userId,
+          parentId: parentId ?? null,
+          mentions: {
+            create: mentionedUserIds.map((userId) => ({ userId })),
+          },
+        },
+        include: commentInclude,
+      });
+      await recordActivity(tx, task.id, req.user!.userId, "comment_added", [
+        { field: "comment", oldValue: null, newValue: text },
+      ]);
+      await dispatchTaskEvent(tx, {
+        type: "commented",
+        task,
+        actor: req.user!,
+        mentionedUserIds,
+      });
+      return created;
+    });
+    res.status(201).json(newComment);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error creating a comment: ${error.message}` });
+  }
+};
+
+export const updateComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId, commentId } = req.params;
+  const { text } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:view");
+    if (!task) return;
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: Number(commentId) },
+      include: { mentions: true },
+    });
+    if (!comment || comment.taskId !== task.id) {
+      res.status(404).json({ message: `Comment ${commentId} not found` });
+      return;
+    }
+    if (comment.userId !== req.user!.userId) {
+      res
+        .status(403)
+        .json({ message: "Forbidden: only the author can edit a comment" });
+      return;
+    }
+    if (text !== undefined && text !== null && typeof text !== "string") {
+      res.status(400).json({ message: "Comment text must be a string" });
+      return;
+    }
+    if (!text || !text.trim()) {
+      res.status(400).json({ message: "Comment text is required" });
+      return;
+    }
+
+    const mentionedUserIds = await resolveMentionedUserIds(
+      text,
+      task.projectId
+    );
+    const updatedComment = await prisma.$transaction(async (tx) => {
+      await tx.commentMention.deleteMany({ where: { commentId: comment.id } });
+      const updated = await tx.comment.update({
+        where: { id: comment.id },
+        data: {
+          text,
+          editedAt: new Date(),
+          mentions: {
+            create: mentionedUserIds.map((userId) => ({ userId })),
+          },
+        },
+        include: commentInclude,
+      });
+      // Only people the edit newly mentions are told
+      await dispatchTaskEvent(tx, {
+        type: "mentioned",
+        task,
+        actor: req.user!,
+        userIds: mentionedUserIds.filter(
+          (userId) =>
+            !comment.mentions.some((mention) => mention.userId === userId)
+        ),
+      });
+      return updated;
+    });
+    res.json(updatedComment);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating comment: ${error.message}` });
+  }
+};
+
+export const deleteComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId, commentId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:view");
+    if (!task) return;
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: Number(commentId) },
+    });
+    if (!comment || comment.taskId !== task.id) {
+      res.status(404).json({ message: `Comment ${commentId} not found` });
+      return;
+    }
+
+    // Authors remove their own comments; moderators can remove anyone's
+    const role = await getProjectRole(req.user!, task.projectId);
+    if (comment.userId !== req.user!.userId && !can(role, "comment:moderate")) {
+      res
+        .status(403)
+        .json({ message: "Forbidden: you are not allowed to comment:moderate" });
+      return;
+    }
+
+    // Replies and mentions cascade with the comment
+    await prisma.$transaction(async (tx) => {
+      await tx.comment.delete({ where: { id: comment.id } });
+      await recordActivity(tx, task.id, req.user!.userId, "comment_deleted", [
+        { field: "comment", oldValue: comment.text, newValue: null },
+      ]);
+    });
+    res.json({ message: `Comment ${comment.id} deleted` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting comment: ${error.message}` });
+  }
+};
@@ -0,0 +1,247 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeProject } from "../policies/accessPolicy";
+import {
+  CUSTOM_FIELD_TYPES,
+  CustomFieldType,
+  DEFAULT_CURRENCY,
+  getProjectCustomFields,
+  SELECT_FIELD_TYPES,
+} from "../services/customFields";
+
+const prisma = new PrismaClient();
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+// Choices are trimmed and deduplicated; select fields need at least one
+const parseOptions = (options: unknown): string[] | null => {
+  if (!Array.isArray(options)) return null;
+  return Array.from(
+    new Set(options.map((option) => String(option).trim()).filter(Boolean))
+  );
+};
+
+const findField = async (projectId: number, fieldId: number) => {
+  const field = await prisma.customField.findUnique({ where: { id: fieldId } });
+  return field && field.projectId === projectId ? field : null;
+};
+
+export const getCustomFields = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:view"))
+    ) {
+      return;
+    }
+    res.json(await getProjectCustomFields(Number(projectId)));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving custom fields: ${error.message}` });
+  }
+};
+
+export const createCustomField = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  const { name, type, options, currency } = req.body;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:update"))
+    ) {
+      return;
+    }
+    if (!name || !String(name).trim()) {
+      res.status(400).json({ message: "Custom field name is required" });
+      return;
+    }
+    if (!CUSTOM_FIELD_TYPES.includes(type)) {
+      res.status(400).json({
+        message: `Custom field type must be one of ${CUSTOM_FIELD_TYPES.join(", ")}`,
+      });
+      return;
+    }
+    const isSelect = SELECT_FIELD_TYPES.includes(type as CustomFieldType);
+    const choices = parseOptions(options) ?? [];
+    if (isSelect && choices.length === 0) {
+      res
+        .status(400)
+        .json({ message: "Select fields need at least one option" });
+      return;
+    }
+    if (
+      type === "currency" &&
+      currency !== undefined &&
+      !CURRENCY_PATTERN.test(currency)
+    ) {
+      res.status(400).json({ message: "Currency must be a code such as USD" });
+      return;
+    }
+    const existing = await prisma.customField.findUnique({
+      where: {
+        projectId_name: {
+          projectId: Number(projectId),
+          name: String(name).trim(),
+        },
+      },
+    });
+    if (existing) {
+      res
+        .status(400)
+        .json({ message: `Custom field "${name}" already exists` });
+      return;
+    }
+
+    const last = await prisma.customField.findFirst({
+      where: { projectId: Number(projectId) },
+      orderBy: { position: "desc" },
+    });
+    const field = await prisma.customField.create({
+      data: {
+        projectId: Number(projectId),
+        name: String(name).trim(),
+        type,
+        options: isSelect ? choices : [],
+        currency: type === "currency" ? (currency ?? DEFAULT_CURRENCY) : null,
+        position: last ? last.position + 1 : 0,
+      },
+    });
+    res.status(201).json(field);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error creating custom field: ${error.message}` });
+  }
+};
+
+// The type is fixed once created because existing values are stored by type.
+// Options still chosen on some task cannot be removed
+export const updateCustomField = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, fieldId } = req.params;
+  const { name, options, currency } = req.body;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:update"))
+    ) {
+      return;
+    }
+    const field = await findField(Number(projectId), Number(fieldId));
+    if (!field) {
+      res.status(404).json({ message: `Custom field ${fieldId} not found` });
+      return;
+    }
+    if (req.body.type !== undefined && req.body.type !== field.type) {
+      res.status(400).json({ message: "A custom field's type cannot change" });
+      return;
+    }
+    if (name !== undefined && !String(name).trim()) {
+      res.status(400).json({ message: "Custom field name cannot be empty" });
+      return;
+    }
+    if (name !== undefined && String(name).trim() !== field.name) {
+      const clash = await prisma.customField.findUnique({
+        where: {
+          projectId_name: {
+            projectId: field.projectId,
+            name: String(name).trim(),
+          },
+        },
+      });
+      if (clash) {
+        res
+          .status(400)
+          .json({ message: `Custom field "${name}" already exists` });
+        return;
+      }
+    }
+    if (
+      currency !== undefined &&
+      (field.type !== "currency" || !CURRENCY_PATTERN.test(currency))
+    ) {
+      res
+        .status(400)
+        .json({
+          message: "Only currency fields take a currency code such as USD",
+        });
+      return;
+    }
+
+    let choices: string[] | undefined;
+    if (options !== undefined) {
+      choices = parseOptions(options) ?? undefined;
+      if (
+        !SELECT_FIELD_TYPES.includes(field.type as CustomFieldType) ||
+        !choices?.length
+      ) {
+        res
+          .status(400)
+          .json({
+            message: "Only select fields take options, and at least one",
+          });
+        return;
+      }
+      for (const removed of field.options.filter(
+        (option) => !choices!.includes(option)
+      )) {
+        const used = await prisma.customFieldValue.count({
+          where: { fieldId: field.id, selected: { has: removed } },
+        });
+        if (used > 0) {
+          res.status(400).json({
+            message: `"${removed}" is still chosen on ${used} tasks`,
+          });
+          return;
+        }
+      }
+    }
+
+    const updatedField = await prisma.customField.update({
+      where: { id: field.id },
+      data: {
+        name: name !== undefined ? String(name).trim() : undefined,
+        options: choices,
+        currency,
+      },
+    });
+    res.json(updatedField);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating custom field: ${error.message}` });
+  }
+};
+
+// Removes the field together with every task's value for it
+export const deleteCustomField = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, fieldId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:update"))
+    ) {
+      return;
+    }
+    const field = await findField(Number(projectId), Number(fieldId));
+    if (!field) {
+      res.status(404).json({ message: `Custom field ${fieldId} not found` });
+      return;
+    }
+    await prisma.customField.delete({ where: { id: field.id } });
+    res.json({ message: `Custom field ${fieldId} deleted` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting custom field: ${error.message}` });
+  }
+};
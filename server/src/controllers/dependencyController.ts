@@ -0,0 +1,151 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeTask } from "../policies/accessPolicy";
+import {
+  dependenciesInclude,
+  wouldCreateCycle,
+} from "../services/taskDependencies";
+import { ActivityAction, recordActivity } from "../services/taskActivity";
+
+const prisma = new PrismaClient();
+
+// Both ends of a link get an entry: "blocked by" on the blocked task, "blocks" on the blocking one
+const recordLinkActivity = async (
+  actorUserId: number,
+  action: ActivityAction,
+  link: { blockingTaskId: number; blockedTaskId: number }
+) => {
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: [link.blockingTaskId, link.blockedTaskId] } },
+    select: { id: true, title: true },
+  });
+  const titleOf = (id: number) =>
+    tasks.find((task) => task.id === id)?.title ?? `#${id}`;
+  const added = action === "dependency_added";
+  await recordActivity(prisma, link.blockedTaskId, actorUserId, action, [
+    {
+      field: "blockedBy",
+      oldValue: added ? null : titleOf(link.blockingTaskId),
+      newValue: added ? titleOf(link.blockingTaskId) : null,
+    },
+  ]);
+  await recordActivity(prisma, link.blockingTaskId, actorUserId, action, [
+    {
+      field: "blocks",
+      oldValue: added ? null : titleOf(link.blockedTaskId),
+      newValue: added ? titleOf(link.blockedTaskId) : null,
+    },
+  ]);
+};
+
+const loadDependencies = async (taskId: number) => {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: dependenciesInclude,
+  });
+  return { blockedBy: task?.blockedBy ?? [], blocking: task?.blocking ?? [] };
+};
+
+export const getDependencies = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    if (!(await authorizeTask(req, res, Number(taskId), "task:view"))) {
+      return;
+    }
+    res.json(await loadDependencies(Number(taskId)));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving dependencies: ${error.message}` });
+  }
+};
+
+// Body names the other task as either blockingTaskId ("blocked by") or blockedTaskId ("blocks")
+export const addDependency = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  const { blockingTaskId, blockedTaskId } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+
+    if ((blockingTaskId === undefined) === (blockedTaskId === undefined)) {
+      res.status(400).json({
+        message: "Provide exactly one of blockingTaskId or blockedTaskId",
+      });
+      return;
+    }
+    const otherTaskId = Number(blockingTaskId ?? blockedTaskId);
+    const link =
+      blockingTaskId !== undefined
+        ? { blockingTaskId: otherTaskId, blockedTaskId: task.id }
+        : { blockingTaskId: task.id, blockedTaskId: otherTaskId };
+
+    const otherTask = await prisma.task.findUnique({
+      where: { id: otherTaskId },
+    });
+    if (!otherTask || otherTask.projectId !== task.projectId) {
+      res.status(400).json({
+        message: "Dependencies can only link tasks in the same project",
+      });
+      return;
+    }
+
+    const existing = await prisma.taskDependency.findUnique({
+      where: { blockingTaskId_blockedTaskId: link },
+    });
+    if (existing) {
+      res.status(400).json({ message: "These tasks are already linked" });
+      return;
+    }
+    if (await wouldCreateCycle(link.blockingTaskId, link.blockedTaskId)) {
+      res
+        .status(400)
+        .json({ message: "This dependency would create a cycle" });
+      return;
+    }
+
+    await prisma.taskDependency.create({ data: link });
+    await recordLinkActivity(req.user!.userId, "dependency_added", link);
+    res.status(201).json(await loadDependencies(task.id));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error adding dependency: ${error.message}` });
+  }
+};
+
+export const removeDependency = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId, dependencyId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+
+    const dependency = await prisma.taskDependency.findUnique({
+      where: { id: Number(dependencyId) },
+    });
+    if (
+      !dependency ||
+      (dependency.blockingTaskId !== task.id &&
+        dependency.blockedTaskId !== task.id)
+    ) {
+      res.status(404).json({ message: `Dependency ${dependencyId} not found` });
+      return;
+    }
+    await prisma.taskDependency.delete({ where: { id: dependency.id } });
+    await recordLinkActivity(req.user!.userId, "dependency_removed", dependency);
+    res.json(await loadDependencies(task.id));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error removing dependency: ${error.message}` });
+  }
+};
@@ -0,0 +1,129 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  NOTIFICATION_CATEGORIES,
+  notificationInclude,
+} from "../services/notifications";
+
+const prisma = new PrismaClient();
+
+const NOTIFICATION_PAGE_SIZE = 50;
+
+// The caller's latest notifications (only unread ones with ?unread=true) and their unread count
+export const getNotifications = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { unread } = req.query;
+  try {
+    const userId = req.user!.userId;
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId, readAt: unread === "true" ? null : undefined },
+        include: notificationInclude,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: NOTIFICATION_PAGE_SIZE,
+      }),
+      prisma.notification.count({ where: { userId, readAt: null } }),
+    ]);
+    res.json({ notifications, unreadCount });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving notifications: ${error.message}` });
+  }
+};
+
+export const markNotificationRead = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { notificationId } = req.params;
+  try {
+    const notification = await prisma.notification.findUnique({
+      where: { id: Number(notificationId) },
+    });
+    if (!notification || notification.userId !== req.user!.userId) {
+      res
+        .status(404)
+        .json({ message: `Notification ${notificationId} not found` });
+      return;
+    }
+    const updatedNotification = await prisma.notification.update({
+      where: { id: notification.id },
+      data: { readAt: notification.readAt ?? new Date() },
+      include: notificationInclude,
+    });
+    res.json(updatedNotification);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating notification: ${error.message}` });
+  }
+};
+
+export const markAllNotificationsRead = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: req.user!.userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    res.json({ count });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating notifications: ${error.message}` });
+  }
+};
+
+export const getNotificationPreferences = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { userId: req.user!.userId },
+      select: { mutedNotifications: true },
+    });
+    res.json({ muted: user?.mutedNotifications ?? [] });
+  } catch (error: any) {
+    res.status(500).json({
+      message: `Error retrieving notification preferences: ${error.message}`,
+    });
+  }
+};
+
+// muted replaces the list of categories the caller does not want notifications for
+export const updateNotificationPreferences = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { muted } = req.body;
+  try {
+    if (
+      !Array.isArray(muted) ||
+      muted.some(
+        (category) =>
+          !(NOTIFICATION_CATEGORIES as readonly string[]).includes(category)
+      )
+    ) {
+      res.status(400).json({
+        message: `muted takes any of ${NOTIFICATION_CATEGORIES.join(", ")}`,
+      });
+      return;
+    }
+    const user = await prisma.user.update({
+      where: { userId: req.user!.userId },
+      data: { mutedNotifications: Array.from(new Set<string>(muted)) },
+      select: { mutedNotifications: true },
+    });
+    res.json({ muted: user.mutedNotifications });
+  } catch (error: any) {
+    res.status(500).json({
+      message: `Error updating notification preferences: ${error.message}`,
+    });
+  }
+};
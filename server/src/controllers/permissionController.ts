@@ -0,0 +1,23 @@
+import { Request, Response } from "express";
+import {
+  getGlobalRole,
+  getProjectRole,
+  permissionsFor,
+} from "../policies/accessPolicy";
+
+export const getPermissions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.query;
+  try {
+    const role = projectId
+      ? await getProjectRole(req.user!, Number(projectId))
+      : await getGlobalRole(req.user!);
+    res.json({ role, permissions: permissionsFor(role) });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving permissions: ${error.message}` });
+  }
+};
@@ -1,14 +1,48 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
+import {
+  authorizeGlobal,
+  authorizeProject,
+  getAccessibleProjectIds,
+  getTeamsWithPermission,
+} from "../policies/accessPolicy";
+import {
+  DEFAULT_PROJECT_STATUSES,
+  WIP_ENFORCEMENT_MODES,
+} from "../services/projectStatuses";
+import { instantiateTemplate } from "../services/projectTemplates";
+import { activeProjectFilter } from "../services/trash";
+import {
+  claimProjectVersion,
+  etagOf,
+  isStale,
+  readIfMatch,
+  sendConflict,
+} from "../services/concurrency";
 
 const prisma = new PrismaClient();
 
+const findLiveProject = (projectId: number) =>
+  prisma.project.findFirst({ where: { id: projectId, deletedAt: null } });
+
+const CONFLICT_MESSAGE =
+  "The project was changed by someone else since you loaded it";
+
+// Archived projects are left out unless ?archived=true asks for them alone; trashed ones never show
 export const getProjects = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const projects = await prisma.project.findMany();
+    const projectIds = await getAccessibleProjectIds(req.user!);
+    const projects = await prisma.project.findMany({
+      where: {
+        id: projectIds ? { in: projectIds } : undefined,
+        ...(req.query.archived === "true"
+          ? { archivedAt: { not: null }, deletedAt: null }
+          : activeProjectFilter),
+      },
+    });
     res.json(projects);
   } catch (error: any) {
     res
@@ -21,15 +55,52 @@ export const createProject = async (
   req: Request,
   res: Response
 ): Promise<void> => {
-  const { name, description, startDate, endDate } = req.body;
+  const { name, description, startDate, endDate, teamId, templateId } = req.body;
   try {
-    const newProject = await prisma.project.create({
-      data: {
-        name,
-        description,
-        startDate,
-        endDate,
-      },
+    if (!(await authorizeGlobal(req, res, "project:create"))) return;
+    if (
+      templateId !== undefined &&
+      templateId !== null &&
+      !(await prisma.projectTemplate.findUnique({
+        where: { id: Number(templateId) },
+      }))
+    ) {
+      res.status(400).json({ message: `Template ${templateId} not found` });
+      return;
+    }
+
+    // The project is linked to a team so its members can see it; default to the caller's own team
+    const teams = await getTeamsWithPermission(req.user!, "project:create");
+    let linkedTeamId =
+      teams.find((team) => team.id === req.user!.teamId)?.id ?? teams[0]?.id;
+    if (teamId !== undefined) {
+      if (!req.user!.isAdmin && !teams.some((team) => team.id === Number(teamId))) {
+        res
+          .status(403)
+          .json({ message: `Forbidden: you cannot create projects for team ${teamId}` });
+        return;
+      }
+      linkedTeamId = Number(teamId);
+    }
+
+    // A template's tasks get their dates from the new project's start and end dates
+    const newProject = await prisma.$transaction(async (tx) => {
+      const project = await tx.project.create({
+        data: {
+          name,
+          description,
+          startDate,
+          endDate,
+          projectTeams: linkedTeamId
+            ? { create: { teamId: linkedTeamId } }
+            : undefined,
+          statuses: { create: DEFAULT_PROJECT_STATUSES },
+        },
+      });
+      if (templateId !== undefined && templateId !== null) {
+        await instantiateTemplate(tx, Number(templateId), project, req.user!.userId);
+      }
+      return project;
     });
     res.status(201).json(newProject);
   } catch (error: any) {
@@ -38,3 +109,155 @@ export const createProject = async (
       .json({ message: `Error creating a project: ${error.message}` });
   }
 };
+
+// Project settings; wipEnforcement decides whether a full column refuses tasks or only warns.
+// If-Match must carry the ETag of the version being edited, a newer one on the server is a 409
+export const updateProject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  const { name, description, startDate, endDate, wipEnforcement } = req.body;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+      return;
+    }
+    if (name !== undefined && !String(name).trim()) {
+      res.status(400).json({ message: "Project name cannot be empty" });
+      return;
+    }
+    if (
+      wipEnforcement !== undefined &&
+      !(WIP_ENFORCEMENT_MODES as readonly string[]).includes(wipEnforcement)
+    ) {
+      res.status(400).json({
+        message: `wipEnforcement must be one of ${WIP_ENFORCEMENT_MODES.join(", ")}`,
+      });
+      return;
+    }
+    const precondition = readIfMatch(req);
+    if ("status" in precondition) {
+      res.status(precondition.status).json({ message: precondition.message });
+      return;
+    }
+    const project = await findLiveProject(Number(projectId));
+    if (!project) {
+      res.status(404).json({ message: `Project ${projectId} not found` });
+      return;
+    }
+    if (isStale(project, precondition.expected)) {
+      sendConflict(res, CONFLICT_MESSAGE, project);
+      return;
+    }
+
+    const updatedProject = await prisma.$transaction(async (tx) => {
+      if (!(await claimProjectVersion(tx, project.id, precondition.expected))) {
+        return null;
+      }
+      return tx.project.update({
+        where: { id: project.id },
+        data: {
+          name: name !== undefined ? String(name).trim() : undefined,
+          description,
+          startDate,
+          endDate,
+          wipEnforcement,
+        },
+      });
+    });
+    if (!updatedProject) {
+      // Another update got in between the check above and this one
+      const current = await findLiveProject(project.id);
+      sendConflict(res, CONFLICT_MESSAGE, current ?? project);
+      return;
+    }
+    res.set("ETag", etagOf(updatedProject)).json(updatedProject);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating project: ${error.message}` });
+  }
+};
+
+// Archiving hides the project and its tasks from the lists; archiving again or unarchiving an
+// active project is a 400
+const setProjectArchived = async (
+  req: Request,
+  res: Response,
+  archived: boolean
+) => {
+  const { projectId } = req.params;
+  if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+    return;
+  }
+  const project = await findLiveProject(Number(projectId));
+  if (!project) {
+    res.status(404).json({ message: `Project ${projectId} not found` });
+    return;
+  }
+  if (Boolean(project.archivedAt) === archived) {
+    res.status(400).json({
+      message: `Project ${project.id} is ${archived ? "already" : "not"} archived`,
+    });
+    return;
+  }
+  const updatedProject = await prisma.project.update({
+    where: { id: project.id },
+    data: { archivedAt: archived ? new Date() : null },
+  });
+  res.json(updatedProject);
+};
+
+export const archiveProject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    await setProjectArchived(req, res, true);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error archiving project: ${error.message}` });
+  }
+};
+
+export const unarchiveProject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    await setProjectArchived(req, res, false);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error unarchiving project: ${error.message}` });
+  }
+};
+
+// Moves the project to the trash. Its tasks keep their own state, so restoring the project brings
+// them back as they were
+export const deleteProject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:delete"))) {
+      return;
+    }
+    const project = await findLiveProject(Number(projectId));
+    if (!project) {
+      res.status(404).json({ message: `Project ${projectId} not found` });
+      return;
+    }
+    await prisma.project.update({
+      where: { id: project.id },
+      data: { deletedAt: new Date() },
+    });
+    res.json({ message: `Project ${project.id} moved to the trash` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting project: ${error.message}` });
+  }
+};
@@ -0,0 +1,307 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeProject } from "../policies/accessPolicy";
+import {
+  getProjectStatuses,
+  STATUS_CATEGORIES,
+  StatusCategory,
+} from "../services/projectStatuses";
+import { recordActivity } from "../services/taskActivity";
+
+const prisma = new PrismaClient();
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+type StatusFields = {
+  name?: unknown;
+  color?: unknown;
+  category?: unknown;
+  wipLimit?: unknown;
+};
+
+// Returns an error message for an invalid name, color, category or WIP limit, or null
+const validateStatusFields = ({ name, color, category, wipLimit }: StatusFields) => {
+  if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+    return "Status name cannot be empty";
+  }
+  if (
+    color !== undefined &&
+    (typeof color !== "string" || !COLOR_PATTERN.test(color))
+  ) {
+    return "Status color must look like #aabbcc";
+  }
+  if (
+    category !== undefined &&
+    !STATUS_CATEGORIES.includes(category as StatusCategory)
+  ) {
+    return `Status category must be one of ${STATUS_CATEGORIES.join(", ")}`;
+  }
+  if (
+    wipLimit !== undefined &&
+    wipLimit !== null &&
+    !(typeof wipLimit === "number" && Number.isInteger(wipLimit) && wipLimit > 0)
+  ) {
+    return "WIP limit must be a positive whole number or null";
+  }
+  return null;
+};
+
+const findStatus = async (projectId: number, statusId: number) => {
+  const status = await prisma.projectStatus.findUnique({
+    where: { id: statusId },
+  });
+  return status && status.projectId === projectId ? status : null;
+};
+
+export const getStatuses = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:view"))) {
+      return;
+    }
+    res.json(await getProjectStatuses(Number(projectId)));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving statuses: ${error.message}` });
+  }
+};
+
+// New statuses are added after the existing ones
+export const createStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  const { name, color, category, wipLimit } = req.body;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+      return;
+    }
+    if (!name || category === undefined) {
+      res.status(400).json({ message: "Status name and category are required" });
+      return;
+    }
+    const fieldError = validateStatusFields(req.body);
+    if (fieldError) {
+      res.status(400).json({ message: fieldError });
+      return;
+    }
+    const existing = await prisma.projectStatus.findUnique({
+      where: {
+        projectId_name: { projectId: Number(projectId), name: String(name).trim() },
+      },
+    });
+    if (existing) {
+      res.status(400).json({ message: `Status "${name}" already exists` });
+      return;
+    }
+    const last = await prisma.projectStatus.findFirst({
+      where: { projectId: Number(projectId) },
+      orderBy: { position: "desc" },
+    });
+    await prisma.projectStatus.create({
+      data: {
+        projectId: Number(projectId),
+        name: String(name).trim(),
+        color,
+        category,
+        wipLimit,
+        position: last ? last.position + 1 : 0,
+      },
+    });
+    res.status(201).json(await getProjectStatuses(Number(projectId)));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error creating status: ${error.message}` });
+  }
+};
+
+// Renaming a status renames it on its tasks too. transitionsTo replaces the statuses
+// this one may move to; once any status lists transitions, unlisted moves are refused.
+// A null wipLimit lifts the limit; lowering it below the current count only affects new moves
+export const updateStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, statusId } = req.params;
+  const { name, color, category, wipLimit, transitionsTo } = req.body;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+      return;
+    }
+    const status = await findStatus(Number(projectId), Number(statusId));
+    if (!status) {
+      res.status(404).json({ message: `Status ${statusId} not found` });
+      return;
+    }
+    const fieldError = validateStatusFields(req.body);
+    if (fieldError) {
+      res.status(400).json({ message: fieldError });
+      return;
+    }
+    if (name !== undefined && String(name).trim() !== status.name) {
+      const clash = await prisma.projectStatus.findUnique({
+        where: {
+          projectId_name: { projectId: status.projectId, name: String(name).trim() },
+        },
+      });
+      if (clash) {
+        res.status(400).json({ message: `Status "${name}" already exists` });
+        return;
+      }
+    }
+    let targetIds: number[] | undefined;
+    if (transitionsTo !== undefined) {
+      targetIds = Array.isArray(transitionsTo)
+        ? Array.from(new Set(transitionsTo.map(Number)))
+        : [];
+      const targets = await prisma.projectStatus.count({
+        where: { id: { in: targetIds }, projectId: status.projectId },
+      });
+      if (!Array.isArray(transitionsTo) || targets !== targetIds.length) {
+        res.status(400).json({
+          message: "transitionsTo must list statuses of the same project",
+        });
+        return;
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.projectStatus.update({
+        where: { id: status.id },
+        data: {
+          name: name !== undefined ? String(name).trim() : undefined,
+          color,
+          category,
+          wipLimit,
+        },
+      });
+      if (targetIds !== undefined) {
+        await tx.statusTransition.deleteMany({
+          where: { fromStatusId: status.id },
+        });
+        await tx.statusTransition.createMany({
+          data: targetIds
+            .filter((toStatusId) => toStatusId !== status.id)
+            .map((toStatusId) => ({ fromStatusId: status.id, toStatusId })),
+        });
+      }
+    });
+    res.json(await getProjectStatuses(status.projectId));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating status: ${error.message}` });
+  }
+};
+
+// Takes the project's full list of status ids in their new order
+export const reorderStatuses = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  const { statusIds } = req.body;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+      return;
+    }
+    const statuses = await prisma.projectStatus.findMany({
+      where: { projectId: Number(projectId) },
+    });
+    const orderedIds: number[] = Array.isArray(statusIds)
+      ? statusIds.map(Number)
+      : [];
+    const isPermutation =
+      orderedIds.length === statuses.length &&
+      new Set(orderedIds).size === orderedIds.length &&
+      statuses.every((status) => orderedIds.includes(status.id));
+    if (!isPermutation) {
+      res.status(400).json({
+        message: "statusIds must list every status of the project exactly once",
+      });
+      return;
+    }
+    await prisma.$transaction(
+      orderedIds.map((id, position) =>
+        prisma.projectStatus.update({ where: { id }, data: { position } })
+      )
+    );
+    res.json(await getProjectStatuses(Number(projectId)));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error reordering statuses: ${error.message}` });
+  }
+};
+
+// Tasks still in the status must be moved first: ?moveTasksTo=<statusId> takes them along
+export const deleteStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, statusId } = req.params;
+  const { moveTasksTo } = req.query;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+      return;
+    }
+    const status = await findStatus(Number(projectId), Number(statusId));
+    if (!status) {
+      res.status(404).json({ message: `Status ${statusId} not found` });
+      return;
+    }
+    const statusCount = await prisma.projectStatus.count({
+      where: { projectId: status.projectId },
+    });
+    if (statusCount === 1) {
+      res
+        .status(400)
+        .json({ message: "A project needs at least one status" });
+      return;
+    }
+    const taskCount = await prisma.task.count({
+      where: { projectId: status.projectId, status: status.name },
+    });
+    const target =
+      moveTasksTo !== undefined
+        ? await findStatus(status.projectId, Number(moveTasksTo))
+        : null;
+    if (taskCount > 0 && (!target || target.id === status.id)) {
+      res.status(400).json({
+        message: `${taskCount} tasks are in "${status.name}"; choose a status to move them to`,
+      });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (target) {
+        const movedTasks = await tx.task.findMany({
+          where: { projectId: status.projectId, status: status.name },
+          select: { id: true },
+        });
+        await tx.task.updateMany({
+          where: { id: { in: movedTasks.map((task) => task.id) } },
+          data: { status: target.name },
+        });
+        // Recorded like any other status change, so burndowns replaying the history see the move
+        for (const task of movedTasks) {
+          await recordActivity(tx, task.id, req.user!.userId, "updated", [
+            { field: "status", oldValue: status.name, newValue: target.name },
+          ]);
+        }
+      }
+      await tx.projectStatus.delete({ where: { id: status.id } });
+    });
+    res.json(await getProjectStatuses(status.projectId));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting status: ${error.message}` });
+  }
+};
@@ -0,0 +1,91 @@
+import { Request, Response } from "express";
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  MAX_REMINDER_DAYS,
+  REMINDER_CHANNELS,
+} from "../services/reminderSchedule";
+
+const prisma = new PrismaClient();
+
+const preferencesSelect = {
+  reminderDaysBefore: true,
+  remindOverdue: true,
+  reminderChannels: true,
+} satisfies Prisma.UserSelect;
+
+export const getReminderPreferences = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const preferences = await prisma.user.findUnique({
+      where: { userId: req.user!.userId },
+      select: preferencesSelect,
+    });
+    res.json(preferences);
+  } catch (error: any) {
+    res.status(500).json({
+      message: `Error retrieving reminder preferences: ${error.message}`,
+    });
+  }
+};
+
+// reminderDaysBefore takes whole days up to MAX_REMINDER_DAYS; an empty list turns advance
+// reminders off, and an empty reminderChannels turns reminders off altogether
+export const updateReminderPreferences = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { reminderDaysBefore, remindOverdue, reminderChannels } = req.body;
+  try {
+    if (
+      reminderDaysBefore !== undefined &&
+      (!Array.isArray(reminderDaysBefore) ||
+        reminderDaysBefore.some(
+          (days) =>
+            !Number.isInteger(days) || days < 1 || days > MAX_REMINDER_DAYS
+        ))
+    ) {
+      res.status(400).json({
+        message: `reminderDaysBefore must list whole days from 1 to ${MAX_REMINDER_DAYS}`,
+      });
+      return;
+    }
+    if (
+      reminderChannels !== undefined &&
+      (!Array.isArray(reminderChannels) ||
+        reminderChannels.some(
+          (channel) =>
+            !(REMINDER_CHANNELS as readonly string[]).includes(channel)
+        ))
+    ) {
+      res.status(400).json({
+        message: `reminderChannels takes any of ${REMINDER_CHANNELS.join(", ")}`,
+      });
+      return;
+    }
+    const preferences = await prisma.user.update({
+      where: { userId: req.user!.userId },
+      data: {
+        reminderDaysBefore:
+          reminderDaysBefore !== undefined
+            ? Array.from(new Set<number>(reminderDaysBefore)).sort(
+                (a, b) => b - a
+              )
+            : undefined,
+        remindOverdue:
+          remindOverdue !== undefined ? Boolean(remindOverdue) : undefined,
+        reminderChannels:
+          reminderChannels !== undefined
+            ? Array.from(new Set<string>(reminderChannels))
+            : undefined,
+      },
+      select: preferencesSelect,
+    });
+    res.json(preferences);
+  } catch (error: any) {
+    res.status(500).json({
+      message: `Error updating reminder preferences: ${error.message}`,
+    });
+  }
+};
@@ -0,0 +1,196 @@
+import { Request, Response } from "express";
+import { Prisma, PrismaClient, SavedView } from "@prisma/client";
+import {
+  authorizeProject,
+  can,
+  getProjectRole,
+} from "../policies/accessPolicy";
+import { parseViewFilters, savedViewInclude } from "../services/savedViews";
+
+const prisma = new PrismaClient();
+
+const findView = async (projectId: number, viewId: number) => {
+  const view = await prisma.savedView.findUnique({ where: { id: viewId } });
+  return view && view.projectId === projectId ? view : null;
+};
+
+// Owners manage their views; people who can update the project also manage the shared ones
+const canManageView = async (req: Request, view: SavedView) =>
+  view.userId === req.user!.userId ||
+  (view.shared &&
+    can(await getProjectRole(req.user!, view.projectId), "project:update"));
+
+const isDuplicateName = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+// The caller's own views and the ones shared with the project, by name
+export const getSavedViews = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:view"))
+    ) {
+      return;
+    }
+    const views = await prisma.savedView.findMany({
+      where: {
+        projectId: Number(projectId),
+        OR: [{ userId: req.user!.userId }, { shared: true }],
+      },
+      include: savedViewInclude,
+      orderBy: [{ name: "asc" }, { id: "asc" }],
+    });
+    res.json(views);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving saved views: ${error.message}` });
+  }
+};
+
+// Sharing a view with the whole project takes project:update
+export const createSavedView = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  const { name, filters, shared } = req.body;
+  try {
+    if (
+      !(await authorizeProject(
+        req,
+        res,
+        Number(projectId),
+        shared ? "project:update" : "project:view"
+      ))
+    ) {
+      return;
+    }
+    if (!name || !String(name).trim()) {
+      res.status(400).json({ message: "View name is required" });
+      return;
+    }
+    const parsed = await parseViewFilters(filters ?? {});
+    if ("error" in parsed) {
+      res.status(400).json({ message: parsed.error });
+      return;
+    }
+    const view = await prisma.savedView.create({
+      data: {
+        projectId: Number(projectId),
+        userId: req.user!.userId,
+        name: String(name).trim(),
+        filters: parsed.filters,
+        shared: Boolean(shared),
+      },
+      include: savedViewInclude,
+    });
+    res.status(201).json(view);
+  } catch (error: any) {
+    if (isDuplicateName(error)) {
+      res.status(400).json({ message: `View "${name}" already exists` });
+      return;
+    }
+    res
+      .status(500)
+      .json({ message: `Error creating saved view: ${error.message}` });
+  }
+};
+
+export const updateSavedView = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, viewId } = req.params;
+  const { name, filters, shared } = req.body;
+  try {
+    if (
+      !(await authorizeProject(
+        req,
+        res,
+        Number(projectId),
+        shared ? "project:update" : "project:view"
+      ))
+    ) {
+      return;
+    }
+    const view = await findView(Number(projectId), Number(viewId));
+    if (!view) {
+      res.status(404).json({ message: `View ${viewId} not found` });
+      return;
+    }
+    if (!(await canManageView(req, view))) {
+      res
+        .status(403)
+        .json({ message: "Forbidden: only the owner can change this view" });
+      return;
+    }
+    const data: Prisma.SavedViewUpdateInput = {};
+    if (name !== undefined) {
+      if (!String(name).trim()) {
+        res.status(400).json({ message: "View name is required" });
+        return;
+      }
+      data.name = String(name).trim();
+    }
+    if (filters !== undefined) {
+      const parsed = await parseViewFilters(filters);
+      if ("error" in parsed) {
+        res.status(400).json({ message: parsed.error });
+        return;
+      }
+      data.filters = parsed.filters;
+    }
+    if (shared !== undefined) data.shared = Boolean(shared);
+
+    const updatedView = await prisma.savedView.update({
+      where: { id: view.id },
+      data,
+      include: savedViewInclude,
+    });
+    res.json(updatedView);
+  } catch (error: any) {
+    if (isDuplicateName(error)) {
+      res.status(400).json({ message: `View "${name}" already exists` });
+      return;
+    }
+    res
+      .status(500)
+      .json({ message: `Error updating saved view: ${error.message}` });
+  }
+};
+
+export const deleteSavedView = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, viewId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:view"))
+    ) {
+      return;
+    }
+    const view = await findView(Number(projectId), Number(viewId));
+    if (!view) {
+      res.status(404).json({ message: `View ${viewId} not found` });
+      return;
+    }
+    if (!(await canManageView(req, view))) {
+      res
+        .status(403)
+        .json({ message: "Forbidden: only the owner can delete this view" });
+      return;
+    }
+    await prisma.savedView.delete({ where: { id: view.id } });
+    res.json({ message: `View ${view.id} deleted` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting saved view: ${error.message}` });
+  }
+};
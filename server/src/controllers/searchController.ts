@@ -1,22 +1,34 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
+import {
+  getAccessibleProjectIds,
+  getVisibleUserIds,
+} from "../policies/accessPolicy";
+import { tagsInclude, withTags } from "../services/taskTags";
+import { activeProjectFilter, activeTaskFilter } from "../services/trash";
 
 const prisma = new PrismaClient();
 
 export const search = async (req: Request, res: Response): Promise<void> => {
   const { query } = req.query;
   try {
+    const projectIds = await getAccessibleProjectIds(req.user!);
     const tasks = await prisma.task.findMany({
       where: {
         OR: [
           { title: { contains: query as string } },
           { description: { contains: query as string } },
         ],
+        projectId: projectIds ? { in: projectIds } : undefined,
+        AND: [activeTaskFilter, { project: activeProjectFilter }],
       },
+      include: tagsInclude,
     });
 
     const projects = await prisma.project.findMany({
       where: {
+        id: projectIds ? { in: projectIds } : undefined,
+        ...activeProjectFilter,
         OR: [
           { name: { contains: query as string } },
           { description: { contains: query as string } },
@@ -24,12 +36,15 @@ export const search = async (req: Request, res: Response): Promise<void> => {
       },
     });
 
+    // Users are found among the ones the caller works with, as in the user list
+    const userIds = await getVisibleUserIds(req.user!);
     const users = await prisma.user.findMany({
       where: {
+        userId: userIds ? { in: userIds } : undefined,
         OR: [{ username: { contains: query as string } }],
       },
     });
-    res.json({ tasks, projects, users });
+    res.json({ tasks: tasks.map(withTags), projects, users });
   } catch (error: any) {
     res
       .status(500)
@@ -0,0 +1,343 @@
+import { Request, Response } from "express";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { authorizeProject } from "../policies/accessPolicy";
+import { isDone, statusCategorySelect } from "../services/projectStatuses";
+import { computeBurndown } from "../services/sprints";
+import { recordActivity } from "../services/taskActivity";
+
+const prisma = new PrismaClient();
+
+const sprintInclude = {
+  tasks: {
+    where: { deletedAt: null },
+    select: { points: true, ...statusCategorySelect },
+  },
+} satisfies Prisma.SprintInclude;
+
+type SprintWithTasks = Prisma.SprintGetPayload<{
+  include: typeof sprintInclude;
+}>;
+
+// Sprints are sent with the task count and points they hold, and how many of those are done
+const withTotals = ({ tasks, ...sprint }: SprintWithTasks) => ({
+  ...sprint,
+  taskCount: tasks.length,
+  points: tasks.reduce((total, task) => total + (task.points ?? 0), 0),
+  completedPoints: tasks
+    .filter(isDone)
+    .reduce((total, task) => total + (task.points ?? 0), 0),
+});
+
+const findSprint = async (projectId: number, sprintId: number) => {
+  const sprint = await prisma.sprint.findUnique({ where: { id: sprintId } });
+  return sprint && sprint.projectId === projectId ? sprint : null;
+};
+
+// Checks the dates of a new or edited sprint; returns an error message or the parsed dates
+const parseSprintDates = (
+  startDate: unknown,
+  endDate: unknown
+): { startDate: Date; endDate: Date } | { error: string } => {
+  const start = new Date(String(startDate));
+  const end = new Date(String(endDate));
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return { error: "A sprint needs a start and an end date" };
+  }
+  if (end < start) return { error: "A sprint cannot end before it starts" };
+  return { startDate: start, endDate: end };
+};
+
+export const getSprints = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:view"))
+    ) {
+      return;
+    }
+    const sprints = await prisma.sprint.findMany({
+      where: { projectId: Number(projectId) },
+      include: sprintInclude,
+      orderBy: [{ startDate: "asc" }, { id: "asc" }],
+    });
+    res.json(sprints.map(withTotals));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving sprints: ${error.message}` });
+  }
+};
+
+export const createSprint = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  const { name, goal, startDate, endDate } = req.body;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:update"))
+    ) {
+      return;
+    }
+    if (!name || !String(name).trim()) {
+      res.status(400).json({ message: "Sprint name is required" });
+      return;
+    }
+    const dates = parseSprintDates(startDate, endDate);
+    if ("error" in dates) {
+      res.status(400).json({ message: dates.error });
+      return;
+    }
+    const sprint = await prisma.sprint.create({
+      data: {
+        projectId: Number(projectId),
+        name: String(name).trim(),
+        goal: goal || null,
+        ...dates,
+      },
+      include: sprintInclude,
+    });
+    res.status(201).json(withTotals(sprint));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error creating sprint: ${error.message}` });
+  }
+};
+
+// Completed sprints are history and keep their name, goal and dates
+export const updateSprint = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, sprintId } = req.params;
+  const { name, goal, startDate, endDate } = req.body;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:update"))
+    ) {
+      return;
+    }
+    const sprint = await findSprint(Number(projectId), Number(sprintId));
+    if (!sprint) {
+      res.status(404).json({ message: `Sprint ${sprintId} not found` });
+      return;
+    }
+    if (sprint.state === "completed") {
+      res
+        .status(400)
+        .json({ message: "A completed sprint can no longer be edited" });
+      return;
+    }
+    if (name !== undefined && !String(name).trim()) {
+      res.status(400).json({ message: "Sprint name cannot be empty" });
+      return;
+    }
+    const dates = parseSprintDates(
+      startDate ?? sprint.startDate,
+      endDate ?? sprint.endDate
+    );
+    if ("error" in dates) {
+      res.status(400).json({ message: dates.error });
+      return;
+    }
+    const updatedSprint = await prisma.sprint.update({
+      where: { id: sprint.id },
+      data: {
+        name: name !== undefined ? String(name).trim() : undefined,
+        goal: goal !== undefined ? goal || null : undefined,
+        ...dates,
+      },
+      include: sprintInclude,
+    });
+    res.json(withTotals(updatedSprint));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating sprint: ${error.message}` });
+  }
+};
+
+// The sprint's tasks go back to the backlog
+export const deleteSprint = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, sprintId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:update"))
+    ) {
+      return;
+    }
+    const sprint = await findSprint(Number(projectId), Number(sprintId));
+    if (!sprint) {
+      res.status(404).json({ message: `Sprint ${sprintId} not found` });
+      return;
+    }
+    if (sprint.state === "completed") {
+      res.status(400).json({ message: "A completed sprint cannot be deleted" });
+      return;
+    }
+    await prisma.$transaction(async (tx) => {
+      const tasks = await tx.task.findMany({ where: { sprintId: sprint.id } });
+      for (const task of tasks) {
+        await recordActivity(tx, task.id, req.user!.userId, "updated", [
+          { field: "sprintId", oldValue: sprint.id, newValue: null },
+        ]);
+      }
+      await tx.sprint.delete({ where: { id: sprint.id } });
+    });
+    res.json({ message: `Sprint ${sprintId} deleted` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting sprint: ${error.message}` });
+  }
+};
+
+// A project runs one sprint at a time
+export const startSprint = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, sprintId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:update"))
+    ) {
+      return;
+    }
+    const sprint = await findSprint(Number(projectId), Number(sprintId));
+    if (!sprint) {
+      res.status(404).json({ message: `Sprint ${sprintId} not found` });
+      return;
+    }
+    if (sprint.state !== "planned") {
+      res
+        .status(400)
+        .json({
+          message: `Sprint "${sprint.name}" is already ${sprint.state}`,
+        });
+      return;
+    }
+    const active = await prisma.sprint.findFirst({
+      where: { projectId: sprint.projectId, state: "active" },
+    });
+    if (active) {
+      res.status(409).json({
+        message: `Complete "${active.name}" before starting another sprint`,
+      });
+      return;
+    }
+    const startedSprint = await prisma.sprint.update({
+      where: { id: sprint.id },
+      data: { state: "active", startedAt: new Date() },
+      include: sprintInclude,
+    });
+    res.json(withTotals(startedSprint));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error starting sprint: ${error.message}` });
+  }
+};
+
+// Closes the active sprint. Its unfinished tasks move to carryOverTo, another open sprint of the
+// project, or to the backlog when that is null or left out
+export const completeSprint = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, sprintId } = req.params;
+  const { carryOverTo } = req.body;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:update"))
+    ) {
+      return;
+    }
+    const sprint = await findSprint(Number(projectId), Number(sprintId));
+    if (!sprint) {
+      res.status(404).json({ message: `Sprint ${sprintId} not found` });
+      return;
+    }
+    if (sprint.state !== "active") {
+      res
+        .status(400)
+        .json({ message: "Only the active sprint can be completed" });
+      return;
+    }
+    let targetSprintId: number | null = null;
+    if (carryOverTo !== undefined && carryOverTo !== null) {
+      const target = await findSprint(sprint.projectId, Number(carryOverTo));
+      if (!target || target.id === sprint.id || target.state === "completed") {
+        res.status(400).json({
+          message: "Unfinished work can only carry over to another open sprint",
+        });
+        return;
+      }
+      targetSprintId = target.id;
+    }
+
+    const completedAt = new Date();
+    const result = await prisma.$transaction(async (tx) => {
+      const tasks = await tx.task.findMany({
+        where: { sprintId: sprint.id },
+        include: statusCategorySelect,
+      });
+      const unfinished = tasks.filter((task) => !isDone(task));
+      const completedSprint = await tx.sprint.update({
+        where: { id: sprint.id },
+        data: { state: "completed", completedAt },
+        include: sprintInclude,
+      });
+      await tx.task.updateMany({
+        where: { id: { in: unfinished.map((task) => task.id) } },
+        data: { sprintId: targetSprintId },
+      });
+      for (const task of unfinished) {
+        await recordActivity(tx, task.id, req.user!.userId, "updated", [
+          { field: "sprintId", oldValue: sprint.id, newValue: targetSprintId },
+        ]);
+      }
+      return {
+        sprint: withTotals(completedSprint),
+        carriedOver: unfinished.map((task) => task.id),
+      };
+    });
+    res.json(result);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error completing sprint: ${error.message}` });
+  }
+};
+
+export const getSprintBurndown = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, sprintId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:view"))
+    ) {
+      return;
+    }
+    const sprint = await findSprint(Number(projectId), Number(sprintId));
+    if (!sprint) {
+      res.status(404).json({ message: `Sprint ${sprintId} not found` });
+      return;
+    }
+    res.json(await computeBurndown(sprint));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving burndown: ${error.message}` });
+  }
+};
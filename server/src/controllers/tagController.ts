@@ -0,0 +1,125 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeProject } from "../policies/accessPolicy";
+import { findTagByName } from "../services/taskTags";
+
+const prisma = new PrismaClient();
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export const getTags = async (req: Request, res: Response): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:view"))) {
+      return;
+    }
+    const tags = await prisma.tag.findMany({
+      where: { projectId: Number(projectId) },
+      include: { _count: { select: { taskTags: true } } },
+      orderBy: { name: "asc" },
+    });
+    res.json(tags);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving tags: ${error.message}` });
+  }
+};
+
+export const createTag = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  const { name, color } = req.body;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+      return;
+    }
+    if (!name || !String(name).trim()) {
+      res.status(400).json({ message: "Tag name is required" });
+      return;
+    }
+    if (color !== undefined && !COLOR_PATTERN.test(color)) {
+      res.status(400).json({ message: "Tag color must look like #aabbcc" });
+      return;
+    }
+    if (await findTagByName(prisma, Number(projectId), name)) {
+      res.status(400).json({ message: `Tag "${name}" already exists` });
+      return;
+    }
+    const tag = await prisma.tag.create({
+      data: { projectId: Number(projectId), name: String(name).trim(), color },
+    });
+    res.status(201).json(tag);
+  } catch (error: any) {
+    res.status(500).json({ message: `Error creating tag: ${error.message}` });
+  }
+};
+
+// Renaming or recolouring a tag changes it on every task that carries it
+export const updateTag = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, tagId } = req.params;
+  const { name, color } = req.body;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+      return;
+    }
+    const tag = await prisma.tag.findUnique({ where: { id: Number(tagId) } });
+    if (!tag || tag.projectId !== Number(projectId)) {
+      res.status(404).json({ message: `Tag ${tagId} not found` });
+      return;
+    }
+    if (name !== undefined) {
+      if (!String(name).trim()) {
+        res.status(400).json({ message: "Tag name cannot be empty" });
+        return;
+      }
+      const clash = await findTagByName(prisma, tag.projectId, name);
+      if (clash && clash.id !== tag.id) {
+        res.status(400).json({ message: `Tag "${name}" already exists` });
+        return;
+      }
+    }
+    if (color !== undefined && !COLOR_PATTERN.test(color)) {
+      res.status(400).json({ message: "Tag color must look like #aabbcc" });
+      return;
+    }
+    const updatedTag = await prisma.tag.update({
+      where: { id: tag.id },
+      data: {
+        name: name !== undefined ? String(name).trim() : undefined,
+        color,
+      },
+    });
+    res.json(updatedTag);
+  } catch (error: any) {
+    res.status(500).json({ message: `Error updating tag: ${error.message}` });
+  }
+};
+
+export const deleteTag = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, tagId } = req.params;
+  try {
+    if (!(await authorizeProject(req, res, Number(projectId), "project:update"))) {
+      return;
+    }
+    // Task links cascade with the tag
+    const { count } = await prisma.tag.deleteMany({
+      where: { id: Number(tagId), projectId: Number(projectId) },
+    });
+    if (count === 0) {
+      res.status(404).json({ message: `Tag ${tagId} not found` });
+      return;
+    }
+    res.json({ message: `Tag ${tagId} deleted` });
+  } catch (error: any) {
+    res.status(500).json({ message: `Error deleting tag: ${error.message}` });
+  }
+};
@@ -1,23 +1,183 @@
 import { Request, Response } from "express";
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient, Task, User } from "@prisma/client";
+import {
+  Action,
+  authorizeProject,
+  authorizeTask,
+  can,
+  getAccessibleProjectIds,
+  getProjectRole,
+  Role,
+} from "../policies/accessPolicy";
+import {
+  checkAssignees,
+  replacePrimaryAssignee,
+  taskAssignmentsInclude,
+} from "../services/taskAssignments";
+import {
+  progressInclude,
+  validateParentTask,
+  withProgress,
+} from "../services/taskProgress";
+import {
+  dependenciesInclude,
+  getOpenBlockers,
+  withBlockedState,
+} from "../services/taskDependencies";
+import {
+  applyRecurrenceChange,
+  describeRecurrence,
+  generateNextOccurrence,
+  parseRecurrence,
+  RecurrenceRule,
+} from "../services/recurrence";
+import {
+  parseTagNames,
+  resolveTags,
+  setTaskTags,
+  tagsInclude,
+  withTags,
+} from "../services/taskTags";
+import {
+  diffFields,
+  FieldChange,
+  getTaskActivity as loadTaskActivity,
+  recordActivity,
+} from "../services/taskActivity";
+import { rankAfter, rankAtEnd } from "../services/taskRank";
+import {
+  customFieldsInclude,
+  dropOtherProjectValues,
+  parseCustomFieldFilters,
+  parseCustomFieldValues,
+  saveCustomFieldValues,
+  withCustomFields,
+} from "../services/customFields";
+import { parseTaskListQuery, shapeTask } from "../services/taskQuery";
+import { afterCursor, cursorSelect } from "../services/taskCursor";
+import {
+  checkTransition,
+  checkWipLimit,
+  DONE_CATEGORY,
+  findProjectStatus,
+  initialStatus,
+  isDoneStatus,
+  statusInProject,
+} from "../services/projectStatuses";
+import { timeEntriesInclude, withLoggedTime } from "../services/timeTracking";
+import { checkSprintAssignment } from "../services/sprints";
+import { dispatchTaskEvent } from "../services/taskEvents";
+import {
+  claimTaskVersion,
+  etagOf,
+  isStale,
+  readIfMatch,
+  readVersions,
+  sendConflict,
+  VersionConflictError,
+} from "../services/concurrency";
+import {
+  activeProjectFilter,
+  activeTaskFilter,
+  archiveTask as archiveTaskRows,
+  liveTaskFilter,
+  trashTask,
+  unarchiveTask as unarchiveTaskRows,
+} from "../services/trash";
 
 const prisma = new PrismaClient();
 
+const ESTIMATE_ERROR = "estimateMinutes must be a whole number of minutes";
+
+const isValidEstimate = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (Number.isInteger(value) && (value as number) >= 0);
+
+// Why tasks cannot go into the project, or null. Tasks in a trashed or archived project would drop
+// out of every live list, so only active projects take new or moved tasks
+const checkDestinationProject = async (
+  projectId: number
+): Promise<{ status: 400 | 404; message: string } | null> => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, deletedAt: null },
+  });
+  if (!project) {
+    return { status: 404, message: `Project ${projectId} not found` };
+  }
+  if (project.archivedAt) {
+    return {
+      status: 400,
+      message: `Project "${project.name}" is archived; unarchive it to add tasks`,
+    };
+  }
+  return null;
+};
+
+// Ids arrive as numbers, or as numeric strings from query-like bodies
+const isValidId = (value: unknown) =>
+  (typeof value === "number" || typeof value === "string") &&
+  Number.isInteger(Number(value)) &&
+  Number(value) > 0;
+
+// Filters (status, priority, assignee, involving, tag, sprint, dueFrom/dueTo, q), sort, fields and
+// limit/cursor are described in services/taskQuery. Without projectId the list spans every
+// project the caller can see. A full page sets X-Next-Cursor for fetching the next one
 export const getTasks = async (req: Request, res: Response): Promise<void> => {
   const { projectId } = req.query;
   try {
+    const query = parseTaskListQuery(req.query);
+    if ("error" in query) {
+      res.status(400).json({ message: query.error });
+      return;
+    }
+    const customFieldFilters = await parseCustomFieldFilters(req.query.cf);
+    if ("error" in customFieldFilters) {
+      res.status(400).json({ message: customFieldFilters.error });
+      return;
+    }
+    let projectFilter: Prisma.TaskWhereInput;
+    if (projectId !== undefined) {
+      if (!(await authorizeProject(req, res, Number(projectId), "task:view"))) {
+        return;
+      }
+      projectFilter = { projectId: Number(projectId) };
+    } else {
+      // Across projects, the tasks of archived projects stay out of the way
+      const projectIds = await getAccessibleProjectIds(req.user!);
+      projectFilter = {
+        ...(projectIds ? { projectId: { in: projectIds } } : {}),
+        project: { archivedAt: null },
+      };
+    }
+
+    const pageFilters: Prisma.TaskWhereInput[] = [];
+    if (query.cursor !== undefined) {
+      const cursorTask = await prisma.task.findUnique({
+        where: { id: query.cursor },
+        select: cursorSelect(query.sort),
+      });
+      if (!cursorTask) {
+        res.status(400).json({ message: "cursor must come from X-Next-Cursor" });
+        return;
+      }
+      pageFilters.push(afterCursor(query.sort, cursorTask));
+    }
+
+    // One row beyond the page tells whether another page follows
     const tasks = await prisma.task.findMany({
       where: {
-        projectId: Number(projectId),
-      },
-      include: {
-        author: true,
-        assignee: true,
-        comments: true,
-        attachments: true,
+        AND: [projectFilter, query.where, ...customFieldFilters, ...pageFilters],
       },
+      include: query.include,
+      orderBy: query.orderBy,
+      take: query.limit !== undefined ? query.limit + 1 : undefined,
     });
-    res.json(tasks);
+    const page = query.limit !== undefined ? tasks.slice(0, query.limit) : tasks;
+    if (page.length < tasks.length) {
+      res.set("X-Next-Cursor", String(page[page.length - 1].id));
+    }
+    res.json(page.map((task) => shapeTask(task, query.fields)));
   } catch (error: any) {
     res
       .status(500)
@@ -38,27 +198,157 @@ export const createTask = async (
     startDate,
     dueDate,
     points,
+    estimateMinutes,
     projectId,
-    authorUserId,
+    sprintId,
     assignedUserId,
+    assigneeIds = [],
+    parentTaskId,
+    recurrence,
+    customFields,
   } = req.body;
   try {
-    const newTask = await prisma.task.create({
-      data: {
-        title,
-        description,
-        status,
-        priority,
-        tags,
-        startDate,
-        dueDate,
-        points,
-        projectId,
-        authorUserId,
-        assignedUserId,
-      },
+    if (!(await authorizeProject(req, res, Number(projectId), "task:create"))) {
+      return;
+    }
+    const projectError = await checkDestinationProject(Number(projectId));
+    if (projectError) {
+      res.status(projectError.status).json({ message: projectError.message });
+      return;
+    }
+    if (!isValidEstimate(estimateMinutes)) {
+      res.status(400).json({ message: ESTIMATE_ERROR });
+      return;
+    }
+    if (sprintId !== undefined && sprintId !== null) {
+      const sprintError = await checkSprintAssignment(
+        prisma,
+        Number(sprintId),
+        Number(projectId)
+      );
+      if (sprintError) {
+        res.status(400).json({ message: sprintError });
+        return;
+      }
+    }
+    const fieldValues = await parseCustomFieldValues(
+      prisma,
+      Number(projectId),
+      customFields
+    );
+    if ("error" in fieldValues) {
+      res.status(400).json({ message: fieldValues.error });
+      return;
+    }
+    if (parentTaskId !== undefined && parentTaskId !== null) {
+      const parentError = await validateParentTask(
+        null,
+        Number(parentTaskId),
+        Number(projectId)
+      );
+      if (parentError) {
+        res.status(400).json({ message: parentError });
+        return;
+      }
+    }
+    let rule: RecurrenceRule | null = null;
+    if (recurrence !== undefined && recurrence !== null) {
+      const parsed = parseRecurrence(recurrence);
+      if ("error" in parsed) {
+        res.status(400).json({ message: parsed.error });
+        return;
+      }
+      rule = parsed.rule;
+    }
+    // Without a status the task starts in the project's first todo column
+    const taskStatus =
+      status !== undefined && status !== null
+        ? await findProjectStatus(prisma, Number(projectId), String(status))
+        : await initialStatus(prisma, Number(projectId));
+    if (!taskStatus && status !== undefined && status !== null) {
+      res
+        .status(400)
+        .json({ message: `"${status}" is not a status of this project` });
+      return;
+    }
+    if (
+      assignedUserId !== undefined &&
+      assignedUserId !== null &&
+      !isValidId(assignedUserId)
+    ) {
+      res.status(400).json({ message: "assignedUserId must be a user id or null" });
+      return;
+    }
+    if (!Array.isArray(assigneeIds) || !assigneeIds.every(isValidId)) {
+      res.status(400).json({ message: "assigneeIds must be a list of user ids" });
+      return;
+    }
+    // assignedUserId stays the primary assignee; without one the first extra assignee takes the role
+    const userIds: number[] = Array.from(
+      new Set(
+        [assignedUserId, ...assigneeIds]
+          .filter((id) => id !== undefined && id !== null)
+          .map(Number)
+      )
+    );
+    const assigneeError = await checkAssignees(prisma, userIds, Number(projectId));
+    if (assigneeError) {
+      res.status(400).json({ message: assigneeError });
+      return;
+    }
+    const newTask = await prisma.$transaction(async (tx) => {
+      const series = rule ? await tx.taskSeries.create({ data: rule }) : null;
+      const taskTags = await resolveTags(tx, Number(projectId), parseTagNames(tags));
+      const created = await tx.task.create({
+        data: {
+          title,
+          description,
+          status: taskStatus?.name ?? null,
+          priority,
+          startDate,
+          dueDate,
+          points,
+          estimateMinutes,
+          projectId,
+          sprintId: sprintId !== undefined && sprintId !== null ? Number(sprintId) : null,
+          authorUserId: req.user!.userId,
+          assignedUserId: userIds[0] ?? null,
+          parentTaskId: parentTaskId ?? null,
+          taskAssignments: {
+            create: userIds.map((userId) => ({ userId })),
+          },
+          taskTags: {
+            create: taskTags.map((tag) => ({ tagId: tag.id })),
+          },
+          customFieldValues: {
+            create: fieldValues.values.flatMap(({ field, columns }) =>
+              columns ? [{ fieldId: field.id, ...columns }] : []
+            ),
+          },
+          seriesId: series?.id ?? null,
+          occurrence: series ? 1 : null,
+          rank: await rankAtEnd(tx, Number(projectId), taskStatus?.name ?? null),
+        },
+        include: {
+          taskAssignments: taskAssignmentsInclude,
+          ...tagsInclude,
+          ...customFieldsInclude,
+          series: true,
+        },
+      });
+      await recordActivity(tx, created.id, req.user!.userId, "created");
+      await dispatchTaskEvent(tx, {
+        type: "created",
+        task: created,
+        actor: req.user!,
+        assigneeIds: userIds,
+      });
+      return created;
     });
-    res.status(201).json(newTask);
+    if (rule && taskStatus?.category === DONE_CATEGORY) {
+      await generateNextOccurrence(newTask.id);
+    }
+    res.status(201).json(withCustomFields(withTags(newTask)));
   } catch (error: any) {
     res
       .status(500)
@@ -66,6 +356,85 @@ export const createTask = async (
   }
 };
 
+const blockedMessage = (blockers: { title: string }[]) =>
+  `Task is blocked by ${blockers
+    .map((blocker) => `"${blocker.title}"`)
+    .join(", ")}`;
+
+type StatusCheck =
+  | { completes: boolean; warning?: string }
+  | { error: string; blockers?: Awaited<ReturnType<typeof getOpenBlockers>> };
+
+// Checks a move to status against the project's workflow, the column's WIP limit and, when it
+// completes the task, against its open blockers. A task entering another project only needs the
+// status to exist there. alsoEntering counts tasks joining the same column in the same request
+const checkStatusChange = async (
+  task: Task,
+  status: string,
+  projectId = task.projectId,
+  alsoEntering = 0
+): Promise<StatusCheck> => {
+  const transitionError = await checkTransition(
+    prisma,
+    projectId,
+    projectId === task.projectId ? task.status : null,
+    status
+  );
+  if (transitionError) return { error: transitionError };
+
+  let warning: string | undefined;
+  if (projectId !== task.projectId || status !== task.status) {
+    const overLimit = await checkWipLimit(
+      prisma,
+      projectId,
+      status,
+      alsoEntering + 1
+    );
+    if (overLimit?.enforced) return { error: overLimit.message };
+    warning = overLimit?.message;
+  }
+
+  const completes =
+    (await isDoneStatus(prisma, projectId, status)) &&
+    !(await isDoneStatus(prisma, task.projectId, task.status));
+  if (completes) {
+    const blockers = await getOpenBlockers(task.id);
+    if (blockers.length > 0) {
+      return { error: blockedMessage(blockers), blockers };
+    }
+  }
+  return { completes, warning };
+};
+
+// Subtasks follow their parent into another project, keeping their status where that project has it
+const moveSubtasks = async (
+  tx: Prisma.TransactionClient,
+  parentTaskId: number,
+  projectId: number
+) => {
+  const subtasks = await tx.task.findMany({ where: { parentTaskId } });
+  for (const subtask of subtasks) {
+    const status = await statusInProject(tx, projectId, subtask.status);
+    await tx.task.update({
+      where: { id: subtask.id },
+      data: {
+        projectId,
+        status,
+        rank: await rankAtEnd(tx, projectId, status),
+        sprintId: null,
+      },
+    });
+    await dropOtherProjectValues(tx, subtask.id, projectId);
+  }
+};
+
+const sendTaskConflict = async (res: Response, task: Task) =>
+  sendConflict(
+    res,
+    "The task was changed by someone else since you loaded it",
+    (await loadTaskDetails(task.id)) ?? task
+  );
+
 export const updateTaskStatus = async (
   req: Request,
   res: Response
@@ -73,42 +442,1009 @@ export const updateTaskStatus = async (
   const { taskId } = req.params;
   const { status } = req.body;
   try {
-    const updatedTask = await prisma.task.update({
-      where: {
-        id: Number(taskId),
-      },
-      data: {
-        status: status,
-      },
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+    const precondition = readIfMatch(req);
+    if ("status" in precondition) {
+      res.status(precondition.status).json({ message: precondition.message });
+      return;
+    }
+    if (isStale(task, precondition.expected)) {
+      await sendTaskConflict(res, task);
+      return;
+    }
+
+    if (typeof status !== "string" || !status) {
+      res.status(400).json({ message: "status is required" });
+      return;
+    }
+    const check = await checkStatusChange(task, status);
+    if ("error" in check) {
+      res.status(400).json({ message: check.error, blockers: check.blockers });
+      return;
+    }
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      if (!(await claimTaskVersion(tx, task.id, precondition.expected))) {
+        return null;
+      }
+      // A task changing columns joins the bottom of its new one
+      const updated = await tx.task.update({
+        where: {
+          id: Number(taskId),
+        },
+        data: {
+          status: status,
+          rank:
+            status !== task.status
+              ? await rankAtEnd(tx, task.projectId, status)
+              : undefined,
+        },
+      });
+      await recordActivity(
+        tx,
+        task.id,
+        req.user!.userId,
+        "updated",
+        diffFields(task, updated, ["status"])
+      );
+      await dispatchTaskEvent(tx, {
+        type: "status_changed",
+        task,
+        actor: req.user!,
+        oldStatus: task.status,
+        newStatus: updated.status,
+      });
+      return updated;
+    });
+    if (!updatedTask) {
+      await sendTaskConflict(res, task);
+      return;
+    }
+    // Completing an occurrence of a repeating task schedules the next one
+    if (check.completes) {
+      await generateNextOccurrence(task.id);
+    }
+    res
+      .set("ETag", etagOf(updatedTask))
+      .json(check.warning ? { ...updatedTask, warning: check.warning } : updatedTask);
+  } catch (error: any) {
+    res.status(500).json({ message: `Error updating task: ${error.message}` });
+  }
+};
+
+// Puts a task into a status column directly below afterTaskId, or at the top when it is null.
+// Status and position change together, and only the moved task is rewritten
+export const moveTask = async (req: Request, res: Response): Promise<void> => {
+  const { taskId } = req.params;
+  const { status, afterTaskId } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+    const precondition = readIfMatch(req);
+    if ("status" in precondition) {
+      res.status(precondition.status).json({ message: precondition.message });
+      return;
+    }
+    if (isStale(task, precondition.expected)) {
+      await sendTaskConflict(res, task);
+      return;
+    }
+
+    const targetStatus: string | null =
+      status !== undefined ? status : task.status;
+    let afterTask: Task | null = null;
+    if (afterTaskId !== undefined && afterTaskId !== null) {
+      afterTask = await prisma.task.findUnique({
+        where: { id: Number(afterTaskId) },
+      });
+      if (
+        !afterTask ||
+        afterTask.id === task.id ||
+        afterTask.projectId !== task.projectId ||
+        afterTask.status !== targetStatus
+      ) {
+        res.status(400).json({
+          message: `Task ${afterTaskId} is not in the "${targetStatus}" column`,
+        });
+        return;
+      }
+    }
+    const check =
+      targetStatus !== null
+        ? await checkStatusChange(task, targetStatus)
+        : { completes: false };
+    if ("error" in check) {
+      res.status(400).json({ message: check.error, blockers: check.blockers });
+      return;
+    }
+
+    const movedTask = await prisma.$transaction(async (tx) => {
+      if (!(await claimTaskVersion(tx, task.id, precondition.expected))) {
+        return null;
+      }
+      const updated = await tx.task.update({
+        where: { id: task.id },
+        data: {
+          status: targetStatus,
+          rank: await rankAfter(
+            tx,
+            task.id,
+            task.projectId,
+            targetStatus,
+            afterTask
+          ),
+        },
+      });
+      await recordActivity(
+        tx,
+        task.id,
+        req.user!.userId,
+        "updated",
+        diffFields(task, updated, ["status"])
+      );
+      await dispatchTaskEvent(tx, {
+        type: "status_changed",
+        task,
+        actor: req.user!,
+        oldStatus: task.status,
+        newStatus: updated.status,
+      });
+      return updated;
     });
-    res.json(updatedTask);
+    if (!movedTask) {
+      await sendTaskConflict(res, task);
+      return;
+    }
+    if (check.completes) {
+      await generateNextOccurrence(task.id);
+    }
+    res
+      .set("ETag", etagOf(movedTask))
+      .json(check.warning ? { ...movedTask, warning: check.warning } : movedTask);
+  } catch (error: any) {
+    res.status(500).json({ message: `Error moving task: ${error.message}` });
+  }
+};
+
+// The task with everything the details view shows, as GET /tasks/:taskId sends it
+const loadTaskDetails = async (taskId: number) => {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      author: true,
+      assignee: true,
+      taskAssignments: taskAssignmentsInclude,
+      comments: true,
+      attachments: true,
+      ...progressInclude,
+      ...dependenciesInclude,
+      ...tagsInclude,
+      ...customFieldsInclude,
+      ...timeEntriesInclude,
+      series: true,
+    },
+  });
+  return (
+    task &&
+    withLoggedTime(
+      withCustomFields(withTags(withBlockedState(withProgress(task))))
+    )
+  );
+};
+
+// The ETag sent with a task is what updates have to send back in If-Match
+export const getTask = async (req: Request, res: Response): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    if (!(await authorizeTask(req, res, Number(taskId), "task:view"))) {
+      return;
+    }
+    const task = await loadTaskDetails(Number(taskId));
+    if (task) res.set("ETag", etagOf(task));
+    res.json(task);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving task: ${error.message}` });
+  }
+};
+
+// Fields a general PATCH may change; status goes through updateTaskStatus and tags are
+// replaced separately because they are resolved against the project's tag list
+const EDITABLE_TASK_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "startDate",
+  "dueDate",
+  "points",
+  "estimateMinutes",
+  "assignedUserId",
+  "projectId",
+  "sprintId",
+  "parentTaskId",
+] as const;
+
+const TASK_TEXT_FIELDS = ["description", "priority"] as const;
+const TASK_DATE_FIELDS = ["startDate", "dueDate"] as const;
+const TASK_ID_FIELDS = ["assignedUserId", "sprintId", "parentTaskId"] as const;
+
+// Returns an error message for an edited field of the wrong type, or null; absent fields are fine
+const validateTaskFields = (fields: Record<string, unknown>) => {
+  const { title, points, estimateMinutes, projectId } = fields;
+  if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+    return "Task title cannot be empty";
+  }
+  for (const field of TASK_TEXT_FIELDS) {
+    const value = fields[field];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return `${field} must be text or null`;
+    }
+  }
+  for (const field of TASK_DATE_FIELDS) {
+    const value = fields[field];
+    if (
+      value !== undefined &&
+      value !== null &&
+      (typeof value !== "string" || Number.isNaN(new Date(value).getTime()))
+    ) {
+      return `${field} must be a date or null`;
+    }
+  }
+  if (
+    points !== undefined &&
+    points !== null &&
+    !(Number.isInteger(points) && (points as number) >= 0)
+  ) {
+    return "points must be a whole number or null";
+  }
+  if (!isValidEstimate(estimateMinutes)) return ESTIMATE_ERROR;
+  if (projectId !== undefined && !isValidId(projectId)) {
+    return "projectId must be a project id";
+  }
+  for (const field of TASK_ID_FIELDS) {
+    const value = fields[field];
+    if (value !== undefined && value !== null && !isValidId(value)) {
+      return `${field} must be an id or null`;
+    }
+  }
+  return null;
+};
+
+// Fields that ?scope=following copies onto the later occurrences of a repeating task, along with tags
+const SERIES_TASK_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "points",
+  "estimateMinutes",
+] as const;
+
+export const updateTask = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  const { scope } = req.query;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+    const precondition = readIfMatch(req);
+    if ("status" in precondition) {
+      res.status(precondition.status).json({ message: precondition.message });
+      return;
+    }
+    if (isStale(task, precondition.expected)) {
+      await sendTaskConflict(res, task);
+      return;
+    }
+
+    // recurrence: a rule starts or changes the repetition from this task on, null stops it
+    let rule: RecurrenceRule | null | undefined = undefined;
+    if (req.body.recurrence === null) {
+      rule = null;
+    } else if (req.body.recurrence !== undefined) {
+      const parsed = parseRecurrence(req.body.recurrence);
+      if ("error" in parsed) {
+        res.status(400).json({ message: parsed.error });
+        return;
+      }
+      rule = parsed.rule;
+    }
+
+    const fieldError = validateTaskFields(req.body);
+    if (fieldError) {
+      res.status(400).json({ message: fieldError });
+      return;
+    }
+    const data: Prisma.TaskUncheckedUpdateInput = {};
+    for (const field of EDITABLE_TASK_FIELDS) {
+      if (req.body[field] !== undefined) {
+        data[field] = req.body[field];
+      }
+    }
+    for (const field of TASK_DATE_FIELDS) {
+      if (typeof data[field] === "string") {
+        data[field] = new Date(data[field] as string);
+      }
+    }
+    // Moving a task needs the right to create tasks in the destination project
+    const isMoving =
+      data.projectId !== undefined && Number(data.projectId) !== task.projectId;
+    if (isMoving) {
+      data.projectId = Number(data.projectId);
+      if (!(await authorizeProject(req, res, data.projectId, "task:create"))) {
+        return;
+      }
+      const projectError = await checkDestinationProject(data.projectId);
+      if (projectError) {
+        res.status(projectError.status).json({ message: projectError.message });
+        return;
+      }
+    }
+
+    // A new assignee has to be on the project the task ends up in
+    if (data.assignedUserId !== undefined && data.assignedUserId !== null) {
+      data.assignedUserId = Number(data.assignedUserId);
+      const assigneeError = await checkAssignees(
+        prisma,
+        [data.assignedUserId],
+        isMoving ? Number(data.projectId) : task.projectId
+      );
+      if (assigneeError) {
+        res.status(400).json({ message: assigneeError });
+        return;
+      }
+    }
+
+    // Sprints are per project: a moved task drops out of its sprint unless given one of the new project's
+    if (data.sprintId !== undefined && data.sprintId !== null) {
+      data.sprintId = Number(data.sprintId);
+      if (isMoving || data.sprintId !== task.sprintId) {
+        const sprintError = await checkSprintAssignment(
+          prisma,
+          data.sprintId,
+          isMoving ? Number(data.projectId) : task.projectId
+        );
+        if (sprintError) {
+          res.status(400).json({ message: sprintError });
+          return;
+        }
+      }
+    } else if (isMoving) {
+      data.sprintId = null;
+    }
+
+    if (data.parentTaskId !== undefined && data.parentTaskId !== null) {
+      data.parentTaskId = Number(data.parentTaskId);
+    }
+    const parentTaskId =
+      data.parentTaskId !== undefined ? data.parentTaskId : task.parentTaskId;
+    // Custom field values are checked against the project the task ends up in
+    const fieldValues = await parseCustomFieldValues(
+      prisma,
+      isMoving ? Number(data.projectId) : task.projectId,
+      req.body.customFields
+    );
+    if ("error" in fieldValues) {
+      res.status(400).json({ message: fieldValues.error });
+      return;
+    }
+
+    if (parentTaskId !== null && (isMoving || parentTaskId !== task.parentTaskId)) {
+      const parentError = await validateParentTask(
+        task.id,
+        parentTaskId as number,
+        isMoving ? Number(data.projectId) : task.projectId
+      );
+      if (parentError) {
+        res.status(400).json({ message: parentError });
+        return;
+      }
+    }
+
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      if (!(await claimTaskVersion(tx, task.id, precondition.expected))) {
+        return null;
+      }
+      if (
+        data.assignedUserId !== undefined &&
+        data.assignedUserId !== task.assignedUserId
+      ) {
+        const newUserId =
+          data.assignedUserId === null ? null : Number(data.assignedUserId);
+        data.assignedUserId = newUserId;
+        const isNew = await replacePrimaryAssignee(tx, task, newUserId);
+        if (newUserId !== null && isNew) {
+          await dispatchTaskEvent(tx, {
+            type: "assigned",
+            task,
+            actor: req.user!,
+            userIds: [newUserId],
+          });
+        }
+      }
+      // A moved task joins the bottom of the matching column in the new project, with its subtasks
+      if (isMoving) {
+        const movedStatus = await statusInProject(
+          tx,
+          Number(data.projectId),
+          task.status
+        );
+        data.status = movedStatus;
+        data.rank = await rankAtEnd(tx, Number(data.projectId), movedStatus);
+        await moveSubtasks(tx, task.id, Number(data.projectId));
+        await dropOtherProjectValues(tx, task.id, Number(data.projectId));
+      }
+      const changes: FieldChange[] = await saveCustomFieldValues(
+        tx,
+        task.id,
+        fieldValues.values
+      );
+      if (rule !== undefined) {
+        const oldSeries = task.seriesId
+          ? await tx.taskSeries.findUnique({ where: { id: task.seriesId } })
+          : null;
+        await applyRecurrenceChange(tx, task, rule);
+        changes.push({
+          field: "recurrence",
+          oldValue: describeRecurrence(oldSeries),
+          newValue: describeRecurrence(rule),
+        });
+      }
+      // Tags are per project, so a moved task takes its tag names along into the destination
+      const targetProjectId = isMoving ? Number(data.projectId) : task.projectId;
+      const tagNames =
+        req.body.tags !== undefined ? parseTagNames(req.body.tags) : undefined;
+      if (tagNames !== undefined || isMoving) {
+        const oldTagNames = (
+          await tx.taskTag.findMany({
+            where: { taskId: task.id },
+            include: { tag: true },
+          })
+        ).map(({ tag }) => tag.name);
+        await setTaskTags(tx, task.id, targetProjectId, tagNames ?? oldTagNames);
+        if (tagNames !== undefined) {
+          changes.push({ field: "tags", oldValue: oldTagNames, newValue: tagNames });
+        }
+      }
+      const updated = await tx.task.update({
+        where: { id: task.id },
+        data,
+        include: {
+          author: true,
+          assignee: true,
+          taskAssignments: taskAssignmentsInclude,
+          ...progressInclude,
+          ...tagsInclude,
+          ...customFieldsInclude,
+          series: true,
+        },
+      });
+      changes.push(...diffFields(task, updated, EDITABLE_TASK_FIELDS));
+      await recordActivity(tx, task.id, req.user!.userId, "updated", changes);
+
+      if (
+        scope === "following" &&
+        updated.seriesId !== null &&
+        updated.occurrence !== null
+      ) {
+        const seriesData: Prisma.TaskUncheckedUpdateManyInput = {};
+        for (const field of SERIES_TASK_FIELDS) {
+          if (req.body[field] !== undefined) {
+            seriesData[field] = req.body[field];
+          }
+        }
+        const following = await tx.task.findMany({
+          where: {
+            seriesId: updated.seriesId,
+            occurrence: { gt: updated.occurrence },
+          },
+        });
+        await tx.task.updateMany({
+          where: { id: { in: following.map(({ id }) => id) } },
+          data: seriesData,
+        });
+        for (const occurrence of following) {
+          if (tagNames !== undefined) {
+            await setTaskTags(tx, occurrence.id, occurrence.projectId, tagNames);
+          }
+          await recordActivity(
+            tx,
+            occurrence.id,
+            req.user!.userId,
+            "updated",
+            diffFields(
+              occurrence,
+              { ...occurrence, ...seriesData },
+              SERIES_TASK_FIELDS
+            )
+          );
+        }
+      }
+      return updated;
+    });
+    if (!updatedTask) {
+      await sendTaskConflict(res, task);
+      return;
+    }
+    res
+      .set("ETag", etagOf(updatedTask))
+      .json(withCustomFields(withTags(withProgress(updatedTask))));
   } catch (error: any) {
     res.status(500).json({ message: `Error updating task: ${error.message}` });
   }
 };
 
+// Deleting moves the task and its subtasks to the trash; they are purged for good after the
+// retention window, or earlier from the trash
+export const deleteTask = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:delete");
+    if (!task) return;
+
+    await prisma.$transaction(async (tx) => {
+      await trashTask(tx, task, new Date());
+      await recordActivity(tx, task.id, req.user!.userId, "deleted");
+    });
+    res.json({ message: `Task ${task.id} moved to the trash` });
+  } catch (error: any) {
+    res.status(500).json({ message: `Error deleting task: ${error.message}` });
+  }
+};
+
+// Archived tasks drop out of the lists and schedulers but stay readable and editable
+export const archiveTask = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+    if (task.archivedAt) {
+      res.status(400).json({ message: `Task ${task.id} is already archived` });
+      return;
+    }
+
+    const archivedTask = await prisma.$transaction(async (tx) => {
+      await archiveTaskRows(tx, task, new Date());
+      await recordActivity(tx, task.id, req.user!.userId, "archived");
+      return tx.task.findUniqueOrThrow({ where: { id: task.id } });
+    });
+    res.json(archivedTask);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error archiving task: ${error.message}` });
+  }
+};
+
+export const unarchiveTask = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+    if (!task.archivedAt) {
+      res.status(400).json({ message: `Task ${task.id} is not archived` });
+      return;
+    }
+
+    const unarchivedTask = await prisma.$transaction(async (tx) => {
+      await unarchiveTaskRows(tx, task);
+      await recordActivity(tx, task.id, req.user!.userId, "unarchived");
+      return tx.task.findUniqueOrThrow({ where: { id: task.id } });
+    });
+    res.json(unarchivedTask);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error unarchiving task: ${error.message}` });
+  }
+};
+
 export const getUserTasks = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   const { userId } = req.params;
   try {
+    // Only tasks from projects the caller can see, whoever the tasks belong to
+    const projectIds = await getAccessibleProjectIds(req.user!);
     const tasks = await prisma.task.findMany({
       where: {
         OR: [
           { authorUserId: Number(userId) },
           { assignedUserId: Number(userId) },
+          { taskAssignments: { some: { userId: Number(userId) } } },
         ],
+        projectId: projectIds ? { in: projectIds } : undefined,
+        AND: [activeTaskFilter, { project: activeProjectFilter }],
       },
       include: {
         author: true,
         assignee: true,
+        taskAssignments: taskAssignmentsInclude,
+        ...tagsInclude,
       },
     });
-    res.json(tasks);
+    res.json(tasks.map(withTags));
   } catch (error: any) {
     res
       .status(500)
       .json({ message: `Error retrieving user's tasks: ${error.message}` });
   }
 };
+
+export const getTaskActivity = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    if (!(await authorizeTask(req, res, Number(taskId), "task:view"))) {
+      return;
+    }
+    res.json(await loadTaskActivity(Number(taskId)));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving task activity: ${error.message}` });
+  }
+};
+
+// Changes POST /tasks/bulk applies to every listed task; delete cannot be combined with the others
+type BulkTaskPatch = {
+  status?: string;
+  priority?: string | null;
+  assignedUserId?: number | null;
+  dueDateShiftDays?: number;
+  addTags?: string[];
+  removeTags?: string[];
+  projectId?: number;
+  sprintId?: number | null;
+  delete?: boolean;
+};
+
+type BulkTaskResult = {
+  id: number;
+  status: "updated" | "deleted" | "failed";
+  message?: string;
+};
+
+const BULK_TASK_FIELDS = [
+  "status",
+  "priority",
+  "dueDate",
+  "assignedUserId",
+  "projectId",
+  "sprintId",
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 409 with the tasks as they are now, so the caller can reload them and try again
+const sendBulkConflict = async (res: Response, taskIds: number[]) => {
+  const conflicts = await prisma.task.findMany({
+    where: { id: { in: taskIds } },
+    orderBy: { id: "asc" },
+  });
+  res.status(409).json({
+    message: `${taskIds.length} of the tasks were changed by someone else since you loaded them`,
+    conflicts,
+  });
+};
+
+// Returns an error message for a malformed patch, or null
+const validateBulkPatch = async (patch: BulkTaskPatch) => {
+  const { delete: isDelete, ...changes } = patch;
+  const changeCount = Object.values(changes).filter(
+    (value) => value !== undefined
+  ).length;
+  if (isDelete) {
+    return changeCount > 0 ? "delete cannot be combined with other changes" : null;
+  }
+  if (changeCount === 0) return "The patch does not change anything";
+  if (
+    patch.status !== undefined &&
+    (typeof patch.status !== "string" || !patch.status)
+  ) {
+    return "status cannot be empty";
+  }
+  // Priority takes what a single task edit does
+  const priorityError = validateTaskFields({ priority: patch.priority });
+  if (priorityError) return priorityError;
+  if (
+    patch.dueDateShiftDays !== undefined &&
+    !Number.isInteger(patch.dueDateShiftDays)
+  ) {
+    return "dueDateShiftDays must be a whole number of days";
+  }
+  if (patch.projectId !== undefined && !isValidId(patch.projectId)) {
+    return "projectId must be a project id";
+  }
+  for (const field of ["assignedUserId", "sprintId"] as const) {
+    const value = patch[field];
+    if (value !== undefined && value !== null && !isValidId(value)) {
+      return `${field} must be an id or null`;
+    }
+  }
+  if (patch.assignedUserId !== undefined && patch.assignedUserId !== null) {
+    const user = await prisma.user.findUnique({
+      where: { userId: Number(patch.assignedUserId) },
+    });
+    if (!user) return `User ${patch.assignedUserId} not found`;
+  }
+  if (patch.projectId !== undefined) {
+    const projectError = await checkDestinationProject(Number(patch.projectId));
+    if (projectError) return projectError.message;
+  }
+  if (patch.sprintId !== undefined && patch.sprintId !== null) {
+    const sprint = await prisma.sprint.findUnique({
+      where: { id: Number(patch.sprintId) },
+    });
+    if (!sprint) return `Sprint ${patch.sprintId} not found`;
+    if (sprint.state === "completed") {
+      return `Sprint "${sprint.name}" is already completed`;
+    }
+  }
+  return null;
+};
+
+const applyBulkPatch = async (
+  tx: Prisma.TransactionClient,
+  task: Task,
+  patch: BulkTaskPatch,
+  actor: User
+) => {
+  const data: Prisma.TaskUncheckedUpdateInput = {};
+  const changes: FieldChange[] = [];
+  const targetProjectId =
+    patch.projectId !== undefined ? Number(patch.projectId) : task.projectId;
+  const isMoving = targetProjectId !== task.projectId;
+  const targetStatus =
+    patch.status ??
+    (isMoving
+      ? await statusInProject(tx, targetProjectId, task.status)
+      : task.status);
+
+  if (patch.priority !== undefined) data.priority = patch.priority;
+  if (patch.dueDateShiftDays && task.dueDate) {
+    data.dueDate = new Date(
+      task.dueDate.getTime() + patch.dueDateShiftDays * DAY_MS
+    );
+  }
+  if (
+    patch.assignedUserId !== undefined &&
+    patch.assignedUserId !== task.assignedUserId
+  ) {
+    data.assignedUserId =
+      patch.assignedUserId === null ? null : Number(patch.assignedUserId);
+    const isNew = await replacePrimaryAssignee(tx, task, data.assignedUserId);
+    if (data.assignedUserId !== null && isNew) {
+      await dispatchTaskEvent(tx, {
+        type: "assigned",
+        task,
+        actor,
+        userIds: [data.assignedUserId],
+      });
+    }
+  }
+  if (patch.sprintId !== undefined) {
+    data.sprintId = patch.sprintId === null ? null : Number(patch.sprintId);
+  } else if (isMoving) {
+    data.sprintId = null;
+  }
+  if (isMoving) {
+    data.projectId = targetProjectId;
+    await moveSubtasks(tx, task.id, targetProjectId);
+    await dropOtherProjectValues(tx, task.id, targetProjectId);
+  }
+  if (isMoving || targetStatus !== task.status) {
+    data.status = targetStatus;
+    data.rank = await rankAtEnd(tx, targetProjectId, targetStatus);
+  }
+
+  // Tags are matched by name, so they survive the move into another project
+  if (patch.addTags || patch.removeTags || isMoving) {
+    const oldTagNames = (
+      await tx.taskTag.findMany({
+        where: { taskId: task.id },
+        include: { tag: true },
+      })
+    ).map(({ tag }) => tag.name);
+    const removed = parseTagNames(patch.removeTags).map((name) =>
+      name.toLowerCase()
+    );
+    const tagNames = parseTagNames([
+      ...oldTagNames.filter((name) => !removed.includes(name.toLowerCase())),
+      ...parseTagNames(patch.addTags),
+    ]);
+    await setTaskTags(tx, task.id, targetProjectId, tagNames);
+    if (tagNames.join(",") !== oldTagNames.join(",")) {
+      changes.push({ field: "tags", oldValue: oldTagNames, newValue: tagNames });
+    }
+  }
+
+  const updated = await tx.task.update({ where: { id: task.id }, data });
+  changes.push(...diffFields(task, updated, BULK_TASK_FIELDS));
+  await recordActivity(tx, task.id, actor.userId, "updated", changes);
+  await dispatchTaskEvent(tx, {
+    type: "status_changed",
+    task,
+    actor,
+    oldStatus: task.status,
+    newStatus: updated.status,
+  });
+};
+
+// Applies one patch to many tasks in a single transaction. Tasks that are missing, not permitted
+// or cannot take the change are reported as failed and left alone; the rest change together.
+// versions holds the updatedAt each task was loaded at, and when any has moved on none change (409)
+export const bulkUpdateTasks = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskIds } = req.body;
+  const patch: BulkTaskPatch = req.body.patch ?? {};
+  try {
+    const ids: number[] = Array.isArray(taskIds)
+      ? Array.from(new Set(taskIds.map(Number)))
+      : [];
+    if (ids.length === 0 || ids.some(Number.isNaN)) {
+      res
+        .status(400)
+        .json({ message: "taskIds must be a non-empty list of task ids" });
+      return;
+    }
+    const patchError = await validateBulkPatch(patch);
+    if (patchError) {
+      res.status(400).json({ message: patchError });
+      return;
+    }
+    const versions = readVersions(req.body.versions, ids);
+    if (!(versions instanceof Map)) {
+      res.status(versions.status).json({ message: versions.message });
+      return;
+    }
+    if (
+      patch.projectId !== undefined &&
+      !(await authorizeProject(req, res, Number(patch.projectId), "task:create"))
+    ) {
+      return;
+    }
+    const sprint =
+      patch.sprintId !== undefined && patch.sprintId !== null
+        ? await prisma.sprint.findUnique({ where: { id: Number(patch.sprintId) } })
+        : null;
+
+    const action: Action = patch.delete ? "task:delete" : "task:update";
+    const roles = new Map<number, Role | null>();
+    const roleFor = async (projectId: number) => {
+      if (!roles.has(projectId)) {
+        roles.set(projectId, await getProjectRole(req.user!, projectId));
+      }
+      return roles.get(projectId)!;
+    };
+    const completing = new Set<number>();
+    const warnings = new Map<number, string>();
+    // Tasks already accepted into each column, so the WIP limit sees the whole batch
+    const entering = new Map<string, number>();
+
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: ids }, ...liveTaskFilter },
+    });
+    const destinationOf = (task: Task) =>
+      patch.projectId !== undefined ? Number(patch.projectId) : task.projectId;
+    // The assignee has to be on the project each task ends up in
+    const assigneeErrors = new Map<number, string | null>();
+    if (patch.assignedUserId !== undefined && patch.assignedUserId !== null) {
+      for (const projectId of new Set(tasks.map(destinationOf))) {
+        assigneeErrors.set(
+          projectId,
+          await checkAssignees(prisma, [Number(patch.assignedUserId)], projectId)
+        );
+      }
+    }
+    const results = new Map<number, BulkTaskResult>();
+    const accepted: Task[] = [];
+    for (const id of ids) {
+      const task = tasks.find((candidate) => candidate.id === id);
+      let message: string | null = null;
+      if (!task) {
+        message = `Task ${id} not found`;
+      } else if (!can(await roleFor(task.projectId), action)) {
+        message = `Forbidden: you are not allowed to ${action}`;
+      } else if (
+        patch.projectId !== undefined &&
+        task.parentTaskId !== null &&
+        Number(patch.projectId) !== task.projectId &&
+        !ids.includes(task.parentTaskId)
+      ) {
+        message = "Subtasks can only move together with their parent task";
+      } else if (sprint && sprint.projectId !== destinationOf(task)) {
+        message = `Sprint "${sprint.name}" belongs to another project`;
+      } else if (assigneeErrors.get(destinationOf(task))) {
+        message = assigneeErrors.get(destinationOf(task))!;
+      } else if (patch.status !== undefined) {
+        const projectId = destinationOf(task);
+        const column = `${projectId}:${patch.status}`;
+        const check = await checkStatusChange(
+          task,
+          patch.status,
+          projectId,
+          entering.get(column) ?? 0
+        );
+        if ("error" in check) {
+          message = check.error;
+        } else {
+          if (check.completes) completing.add(task.id);
+          if (check.warning) warnings.set(task.id, check.warning);
+          if (projectId !== task.projectId || patch.status !== task.status) {
+            entering.set(column, (entering.get(column) ?? 0) + 1);
+          }
+        }
+      }
+      if (message || !task) {
+        results.set(id, { id, status: "failed", message: message ?? undefined });
+      } else {
+        accepted.push(task);
+      }
+    }
+
+    // Nothing is changed while any of the tasks has moved on since it was loaded
+    const staleIds = accepted
+      .filter((task) => isStale(task, versions.get(task.id)!))
+      .map((task) => task.id);
+    if (staleIds.length > 0) {
+      await sendBulkConflict(res, staleIds);
+      return;
+    }
+
+    // One timestamp for the batch, so a parent and subtasks deleted together are restored together
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      const lostIds: number[] = [];
+      for (const task of accepted) {
+        if (!(await claimTaskVersion(tx, task.id, versions.get(task.id)!))) {
+          lostIds.push(task.id);
+        }
+      }
+      if (lostIds.length > 0) throw new VersionConflictError(lostIds);
+      for (const task of accepted) {
+        if (patch.delete) {
+          await trashTask(tx, task, now);
+          await recordActivity(tx, task.id, req.user!.userId, "deleted");
+        } else {
+          await applyBulkPatch(tx, task, patch, req.user!);
+        }
+      }
+    });
+    for (const task of accepted) {
+      results.set(task.id, {
+        id: task.id,
+        status: patch.delete ? "deleted" : "updated",
+        message: warnings.get(task.id),
+      });
+      if (completing.has(task.id)) {
+        await generateNextOccurrence(task.id);
+      }
+    }
+    res.json({ results: ids.map((id) => results.get(id)!) });
+  } catch (error: any) {
+    if (error instanceof VersionConflictError) {
+      await sendBulkConflict(res, error.taskIds);
+      return;
+    }
+    res
+      .status(500)
+      .json({ message: `Error updating tasks: ${error.message}` });
+  }
+};
@@ -1,11 +1,15 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
+import { getAccessibleTeamIds } from "../policies/accessPolicy";
 
 const prisma = new PrismaClient();
 
 export const getTeams = async (req: Request, res: Response): Promise<void> => {
   try {
-    const teams = await prisma.team.findMany();
+    const teamIds = await getAccessibleTeamIds(req.user!);
+    const teams = await prisma.team.findMany({
+      where: teamIds ? { id: { in: teamIds } } : undefined,
+    });
 
     const teamsWithUsernames = await Promise.all(
       teams.map(async (team: any) => {
@@ -0,0 +1,89 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeGlobal, authorizeProject } from "../policies/accessPolicy";
+import {
+  saveProjectAsTemplate,
+  templateTasksInclude,
+} from "../services/projectTemplates";
+
+const prisma = new PrismaClient();
+
+// Templates are shared by everyone who can create projects, so they list them all
+export const getTemplates = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!(await authorizeGlobal(req, res, "project:create"))) return;
+    const templates = await prisma.projectTemplate.findMany({
+      include: templateTasksInclude,
+      orderBy: { name: "asc" },
+    });
+    res.json(templates);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving templates: ${error.message}` });
+  }
+};
+
+// Saves an existing project's tasks as a new template
+export const createTemplate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId, name, description } = req.body;
+  try {
+    if (!(await authorizeGlobal(req, res, "project:create"))) return;
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:view"))
+    ) {
+      return;
+    }
+    if (!name || !String(name).trim()) {
+      res.status(400).json({ message: "Template name is required" });
+      return;
+    }
+    const template = await prisma.$transaction((tx) =>
+      saveProjectAsTemplate(tx, Number(projectId), {
+        name: String(name).trim(),
+        description: description ?? null,
+        createdById: req.user!.userId,
+      })
+    );
+    res.status(201).json(template);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error creating template: ${error.message}` });
+  }
+};
+
+// Only the template's author or an admin may remove it; projects created from it keep their tasks
+export const deleteTemplate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { templateId } = req.params;
+  try {
+    const template = await prisma.projectTemplate.findUnique({
+      where: { id: Number(templateId) },
+    });
+    if (!template) {
+      res.status(404).json({ message: `Template ${templateId} not found` });
+      return;
+    }
+    if (!req.user!.isAdmin && template.createdById !== req.user!.userId) {
+      res
+        .status(403)
+        .json({ message: "Forbidden: only its author can delete a template" });
+      return;
+    }
+    await prisma.projectTemplate.delete({ where: { id: template.id } });
+    res.json({ message: `Template ${templateId} deleted` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting template: ${error.message}` });
+  }
+};
@@ -0,0 +1,353 @@
+import { Request, Response } from "express";
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  authorizeProject,
+  authorizeTask,
+  can,
+  getProjectRole,
+} from "../policies/accessPolicy";
+import {
+  getRunningTimer,
+  getTimeTotals,
+  minutesBetween,
+  stopRunningTimer,
+  timeEntryInclude,
+} from "../services/timeTracking";
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+
+const parseDate = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return null;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+// A finished entry needs a start and either its end or its length in minutes; with both, the
+// minutes are what counts (breaks can make them shorter than the span). current fills in what an
+// update leaves out
+const parseEntryTimes = (
+  body: { startedAt?: unknown; endedAt?: unknown; minutes?: unknown },
+  current?: { startedAt: Date; endedAt: Date | null; minutes: number | null }
+): { startedAt: Date; endedAt: Date; minutes: number } | { error: string } => {
+  const startedAt =
+    body.startedAt !== undefined
+      ? parseDate(body.startedAt)
+      : current?.startedAt;
+  if (!startedAt) return { error: "startedAt must be a date" };
+  const endedAt = body.endedAt !== undefined ? parseDate(body.endedAt) : null;
+  if (endedAt === undefined) return { error: "endedAt must be a date" };
+
+  if (body.minutes !== undefined) {
+    const minutes = Number(body.minutes);
+    if (!Number.isInteger(minutes) || minutes <= 0) {
+      return { error: "minutes must be a positive whole number" };
+    }
+    return {
+      startedAt,
+      endedAt: endedAt ?? new Date(startedAt.getTime() + minutes * MINUTE_MS),
+      minutes,
+    };
+  }
+  if (
+    current?.endedAt &&
+    current.minutes !== null &&
+    body.startedAt === undefined &&
+    body.endedAt === undefined
+  ) {
+    return { startedAt, endedAt: current.endedAt, minutes: current.minutes };
+  }
+  const end = endedAt ?? current?.endedAt;
+  if (!end) return { error: "Give either endedAt or minutes" };
+  if (end < startedAt) return { error: "endedAt cannot be before startedAt" };
+  return { startedAt, endedAt: end, minutes: minutesBetween(startedAt, end) };
+};
+
+const findEntry = async (taskId: number, entryId: number) => {
+  const entry = await prisma.timeEntry.findUnique({ where: { id: entryId } });
+  return entry && entry.taskId === taskId ? entry : null;
+};
+
+export const getTimeEntries = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    if (!(await authorizeTask(req, res, Number(taskId), "task:view"))) {
+      return;
+    }
+    const entries = await prisma.timeEntry.findMany({
+      where: { taskId: Number(taskId) },
+      include: timeEntryInclude,
+      orderBy: { startedAt: "desc" },
+    });
+    res.json(entries);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving time entries: ${error.message}` });
+  }
+};
+
+// Logs time after the fact, for the caller
+export const createTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+    const times = parseEntryTimes(req.body);
+    if ("error" in times) {
+      res.status(400).json({ message: times.error });
+      return;
+    }
+    const entry = await prisma.timeEntry.create({
+      data: {
+        taskId: task.id,
+        userId: req.user!.userId,
+        ...times,
+        note: req.body.note || null,
+      },
+      include: timeEntryInclude,
+    });
+    res.status(201).json(entry);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error creating time entry: ${error.message}` });
+  }
+};
+
+// Only the person who logged the time can change it; a running timer only takes a new note or start
+export const updateTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId, entryId } = req.params;
+  const { note } = req.body;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:view");
+    if (!task) return;
+    const entry = await findEntry(task.id, Number(entryId));
+    if (!entry) {
+      res.status(404).json({ message: `Time entry ${entryId} not found` });
+      return;
+    }
+    if (entry.userId !== req.user!.userId) {
+      res.status(403).json({
+        message: "Forbidden: only the person who logged it can edit an entry",
+      });
+      return;
+    }
+
+    let data: Prisma.TimeEntryUncheckedUpdateInput;
+    if (entry.endedAt === null) {
+      if (req.body.endedAt !== undefined || req.body.minutes !== undefined) {
+        res.status(400).json({ message: "Stop the timer to set its end" });
+        return;
+      }
+      const startedAt =
+        req.body.startedAt !== undefined
+          ? parseDate(req.body.startedAt)
+          : entry.startedAt;
+      if (!startedAt || startedAt > new Date()) {
+        res
+          .status(400)
+          .json({ message: "startedAt must be a date in the past" });
+        return;
+      }
+      data = { startedAt };
+    } else {
+      const times = parseEntryTimes(req.body, entry);
+      if ("error" in times) {
+        res.status(400).json({ message: times.error });
+        return;
+      }
+      data = times;
+    }
+    const updatedEntry = await prisma.timeEntry.update({
+      where: { id: entry.id },
+      data: { ...data, note: note !== undefined ? note || null : undefined },
+      include: timeEntryInclude,
+    });
+    res.json(updatedEntry);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error updating time entry: ${error.message}` });
+  }
+};
+
+// The person who logged it, or whoever manages the project, can remove an entry
+export const deleteTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId, entryId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:view");
+    if (!task) return;
+    const entry = await findEntry(task.id, Number(entryId));
+    if (!entry) {
+      res.status(404).json({ message: `Time entry ${entryId} not found` });
+      return;
+    }
+    const role = await getProjectRole(req.user!, task.projectId);
+    if (entry.userId !== req.user!.userId && !can(role, "project:update")) {
+      res
+        .status(403)
+        .json({ message: "Forbidden: you cannot delete this time entry" });
+      return;
+    }
+    await prisma.timeEntry.delete({ where: { id: entry.id } });
+    res.json({ message: `Time entry ${entryId} deleted` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error deleting time entry: ${error.message}` });
+  }
+};
+
+// Starting a timer stops the one the caller already has running, on whichever task it is
+export const startTimer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:update");
+    if (!task) return;
+    const result = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const stopped = await stopRunningTimer(tx, req.user!.userId, now);
+      const timer = await tx.timeEntry.create({
+        data: {
+          taskId: task.id,
+          userId: req.user!.userId,
+          startedAt: now,
+          note: req.body.note || null,
+        },
+        include: timeEntryInclude,
+      });
+      return { timer, stopped };
+    });
+    res.status(201).json(result);
+  } catch (error: any) {
+    // Two starts at once: the partial unique index keeps one running timer per user
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      res.status(409).json({ message: "A timer is already running" });
+      return;
+    }
+    res.status(500).json({ message: `Error starting timer: ${error.message}` });
+  }
+};
+
+export const stopTimer = async (req: Request, res: Response): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:view");
+    if (!task) return;
+    const running = await getRunningTimer(req.user!.userId);
+    if (!running || running.taskId !== task.id) {
+      res
+        .status(404)
+        .json({ message: "You have no timer running on this task" });
+      return;
+    }
+    const stopped = await prisma.$transaction(async (tx) => {
+      if (req.body.note !== undefined) {
+        await tx.timeEntry.update({
+          where: { id: running.id },
+          data: { note: req.body.note || null },
+        });
+      }
+      return stopRunningTimer(tx, req.user!.userId);
+    });
+    res.json(stopped);
+  } catch (error: any) {
+    res.status(500).json({ message: `Error stopping timer: ${error.message}` });
+  }
+};
+
+// The caller's running timer, or null
+export const getCurrentTimer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    res.json(await getRunningTimer(req.user!.userId));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving timer: ${error.message}` });
+  }
+};
+
+// Entries started between ?from and ?to (a week from ?from by default), for the caller or,
+// for admins, for ?userId
+export const getTimesheet = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { from, to, userId } = req.query;
+  try {
+    const start = parseDate(from);
+    const end = parseDate(to);
+    if (start === undefined || end === undefined) {
+      res.status(400).json({ message: "from and to must be dates" });
+      return;
+    }
+    const rangeStart = start ?? new Date(Date.now() - WEEK_MS);
+    const rangeEnd = end ?? new Date(rangeStart.getTime() + WEEK_MS);
+    const targetUserId =
+      userId !== undefined ? Number(userId) : req.user!.userId;
+    if (targetUserId !== req.user!.userId && !req.user!.isAdmin) {
+      res.status(403).json({
+        message: "Forbidden: you can only see your own timesheet",
+      });
+      return;
+    }
+    const entries = await prisma.timeEntry.findMany({
+      where: {
+        userId: targetUserId,
+        startedAt: { gte: rangeStart, lt: rangeEnd },
+      },
+      include: timeEntryInclude,
+      orderBy: { startedAt: "asc" },
+    });
+    res.json(entries);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving timesheet: ${error.message}` });
+  }
+};
+
+export const getProjectTime = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    if (
+      !(await authorizeProject(req, res, Number(projectId), "project:view"))
+    ) {
+      return;
+    }
+    res.json(
+      await getTimeTotals({ projectId: Number(projectId), deletedAt: null })
+    );
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving project time: ${error.message}` });
+  }
+};
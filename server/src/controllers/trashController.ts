@@ -0,0 +1,187 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  authorizeProject,
+  getAccessibleProjectIds,
+} from "../policies/accessPolicy";
+import { recordActivity } from "../services/taskActivity";
+import {
+  purgeDateOf,
+  purgeProject,
+  purgeTask,
+  restoreTask,
+} from "../services/trash";
+
+const prisma = new PrismaClient();
+
+const findTrashedTask = (taskId: number) =>
+  prisma.task.findFirst({
+    where: { id: taskId, deletedAt: { not: null } },
+    include: { project: true, parentTask: true },
+  });
+
+const findTrashedProject = (projectId: number) =>
+  prisma.project.findFirst({
+    where: { id: projectId, deletedAt: { not: null } },
+  });
+
+// Deleted projects and tasks the caller can see, newest first, with the date each one is purged.
+// Subtasks deleted with their parent come and go with it, so they are not listed on their own
+export const getTrash = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const projectIds = await getAccessibleProjectIds(req.user!);
+    const projects = await prisma.project.findMany({
+      where: {
+        id: projectIds ? { in: projectIds } : undefined,
+        deletedAt: { not: null },
+      },
+      orderBy: { deletedAt: "desc" },
+    });
+    const tasks = await prisma.task.findMany({
+      where: {
+        projectId: projectIds ? { in: projectIds } : undefined,
+        deletedAt: { not: null },
+        project: { deletedAt: null },
+      },
+      include: {
+        project: { select: { id: true, name: true } },
+        parentTask: { select: { deletedAt: true } },
+      },
+      orderBy: { deletedAt: "desc" },
+    });
+    res.json({
+      projects: projects.map((project) => ({
+        ...project,
+        purgeAt: purgeDateOf(project.deletedAt!),
+      })),
+      tasks: tasks
+        .filter(
+          ({ deletedAt, parentTask }) =>
+            parentTask?.deletedAt?.getTime() !== deletedAt!.getTime()
+        )
+        .map(({ parentTask, ...task }) => ({
+          ...task,
+          purgeAt: purgeDateOf(task.deletedAt!),
+        })),
+    });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving the trash: ${error.message}` });
+  }
+};
+
+// Brings the task back with the subtasks deleted together with it
+export const restoreTrashedTask = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await findTrashedTask(Number(taskId));
+    if (!task) {
+      res.status(404).json({ message: `Task ${taskId} is not in the trash` });
+      return;
+    }
+    if (!(await authorizeProject(req, res, task.projectId, "task:delete"))) {
+      return;
+    }
+    if (task.project.deletedAt) {
+      res.status(400).json({
+        message: `Project "${task.project.name}" is in the trash; restore it first`,
+      });
+      return;
+    }
+    if (task.parentTask?.deletedAt) {
+      res.status(400).json({
+        message: `Parent task "${task.parentTask.title}" is in the trash; restore it first`,
+      });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await restoreTask(tx, task);
+      await recordActivity(tx, task.id, req.user!.userId, "restored");
+    });
+    res.json({ message: `Task ${task.id} restored` });
+  } catch (error: any) {
+    res.status(500).json({ message: `Error restoring task: ${error.message}` });
+  }
+};
+
+export const purgeTrashedTask = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await findTrashedTask(Number(taskId));
+    if (!task) {
+      res.status(404).json({ message: `Task ${taskId} is not in the trash` });
+      return;
+    }
+    if (!(await authorizeProject(req, res, task.projectId, "task:delete"))) {
+      return;
+    }
+
+    await prisma.$transaction((tx) => purgeTask(tx, task));
+    res.json({ message: `Task ${task.id} permanently deleted` });
+  } catch (error: any) {
+    res.status(500).json({ message: `Error purging task: ${error.message}` });
+  }
+};
+
+export const restoreTrashedProject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    const project = await findTrashedProject(Number(projectId));
+    if (!project) {
+      res
+        .status(404)
+        .json({ message: `Project ${projectId} is not in the trash` });
+      return;
+    }
+    if (!(await authorizeProject(req, res, project.id, "project:delete"))) {
+      return;
+    }
+
+    const restoredProject = await prisma.project.update({
+      where: { id: project.id },
+      data: { deletedAt: null },
+    });
+    res.json(restoredProject);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error restoring project: ${error.message}` });
+  }
+};
+
+export const purgeTrashedProject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { projectId } = req.params;
+  try {
+    const project = await findTrashedProject(Number(projectId));
+    if (!project) {
+      res
+        .status(404)
+        .json({ message: `Project ${projectId} is not in the trash` });
+      return;
+    }
+    if (!(await authorizeProject(req, res, project.id, "project:delete"))) {
+      return;
+    }
+
+    await prisma.$transaction((tx) => purgeProject(tx, project.id));
+    res.json({ message: `Project ${project.id} permanently deleted` });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error purging project: ${error.message}` });
+  }
+};
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import Stripe from "stripe";
+import { getVisibleUserIds } from "../policies/accessPolicy";
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -111,9 +112,13 @@ export const checkSubscriptionStatus = async (req: Request, res: Response) => {
   }
 };
 
+// Only the users the caller works with, see getVisibleUserIds
 export const getUsers = async (req: Request, res: Response): Promise<void> => {
   try {
-    const users = await prisma.user.findMany();
+    const userIds = await getVisibleUserIds(req.user!);
+    const users = await prisma.user.findMany({
+      where: userIds ? { userId: { in: userIds } } : undefined,
+    });
     res.json(users);
   } catch (error: any) {
     res
@@ -125,6 +130,10 @@ export const getUsers = async (req: Request, res: Response): Promise<void> => {
 export const getUser = async (req: Request, res: Response): Promise<void> => {
   const { cognitoId } = req.params;
   try {
+    if (!req.user!.isAdmin && req.user!.cognitoId !== cognitoId) {
+      res.status(403).json({ message: "Forbidden: you can only view your own profile" });
+      return;
+    }
     const user = await prisma.user.findUnique({
       where: {
         cognitoId: cognitoId,
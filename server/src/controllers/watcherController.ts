@@ -0,0 +1,67 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { authorizeTask } from "../policies/accessPolicy";
+import { watchTask } from "../services/taskEvents";
+
+const prisma = new PrismaClient();
+
+const watcherInclude = {
+  user: {
+    select: { userId: true, username: true, profilePictureUrl: true },
+  },
+};
+
+const findWatchers = (taskId: number) =>
+  prisma.taskWatcher.findMany({
+    where: { taskId },
+    include: watcherInclude,
+    orderBy: { createdAt: "asc" },
+  });
+
+export const getWatchers = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:view");
+    if (!task) return;
+
+    res.json(await findWatchers(task.id));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error retrieving watchers: ${error.message}` });
+  }
+};
+
+// Anyone who can see a task can follow it; watching twice is not an error
+export const watch = async (req: Request, res: Response): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:view");
+    if (!task) return;
+
+    await watchTask(prisma, task.id, [req.user!.userId]);
+    res.status(201).json(await findWatchers(task.id));
+  } catch (error: any) {
+    res.status(500).json({ message: `Error watching task: ${error.message}` });
+  }
+};
+
+export const unwatch = async (req: Request, res: Response): Promise<void> => {
+  const { taskId } = req.params;
+  try {
+    const task = await authorizeTask(req, res, Number(taskId), "task:view");
+    if (!task) return;
+
+    await prisma.taskWatcher.deleteMany({
+      where: { taskId: task.id, userId: req.user!.userId },
+    });
+    res.json(await findWatchers(task.id));
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error unwatching task: ${error.message}` });
+  }
+};
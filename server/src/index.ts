@@ -13,8 +13,18 @@ import searchRoutes from "./routes/searchRoutes";
 import userRoutes from "./routes/userRoutes";
 import teamRoutes from "./routes/teamRoutes";
 import subscriptionRoutes from "./routes/subscriptionRoutes";
+import permissionRoutes from "./routes/permissionRoutes";
+import templateRoutes from "./routes/templateRoutes";
+import timeRoutes from "./routes/timeRoutes";
+import reminderRoutes from "./routes/reminderRoutes";
+import notificationRoutes from "./routes/notificationRoutes";
+import trashRoutes from "./routes/trashRoutes";
 // import uploadRoutes from "./routes/uploadRoutes"; // Import the upload routes
 import { updateUserAfterPayment } from "./controllers/userController";
+import { authenticate } from "./middleware/authMiddleware";
+import { startBackgroundJobs } from "./services/backgroundJobs";
+import { subscribeToTaskEvents } from "./services/taskEvents";
+import { notifyTaskEvent } from "./services/notifications";
 import path from 'path';
 
 
@@ -25,6 +35,9 @@ import path from 'path';
 dotenv.config();
 const app = express();
 
+// Task events feed the notification center; email and other features subscribe the same way
+subscribeToTaskEvents(notifyTaskEvent);
+
 
 // Middleware
 app.use(helmet());
@@ -34,7 +47,8 @@ app.use(bodyParser.json());
 app.use(bodyParser.urlencoded({ extended: false }));
 app.use(cors({
     origin: process.env.CLIENT_URL, 
-    methods: ['GET', 'POST'],
+    methods: ['GET', 'POST', 'PATCH', 'DELETE'],
+    exposedHeaders: ['X-Next-Cursor', 'ETag'],
     credentials: true,
   }));
 
@@ -45,11 +59,17 @@ app.get('/', (req: Request, res: Response) => {
   res.send('Hello, World!');
 });
 
-app.use("/projects", projectRoutes);
-app.use("/tasks", taskRoutes);
-app.use("/search", searchRoutes);
-app.use("/users", userRoutes);
-app.use("/teams", teamRoutes);
+app.use("/projects", authenticate, projectRoutes);
+app.use("/tasks", authenticate, taskRoutes);
+app.use("/search", authenticate, searchRoutes);
+app.use("/users", userRoutes); // authenticated per route; the Stripe/payment routes run before a session exists
+app.use("/teams", authenticate, teamRoutes);
+app.use("/permissions", authenticate, permissionRoutes);
+app.use("/templates", authenticate, templateRoutes);
+app.use("/time", authenticate, timeRoutes);
+app.use("/reminders", authenticate, reminderRoutes);
+app.use("/notifications", authenticate, notificationRoutes);
+app.use("/trash", authenticate, trashRoutes);
 app.use('/subscriptions', subscriptionRoutes);
 app.post('/users/update-after-payment', updateUserAfterPayment); 
 // app.use("/upload", uploadRoutes); // Mount the upload routes
@@ -66,4 +86,5 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 const port = Number(process.env.PORT) || 3000;
 app.listen(port, "0.0.0.0", () => {
     console.log(`Server running on port ${port}`);
+    startBackgroundJobs();
 });
@@ -0,0 +1,77 @@
+// src/middleware/authMiddleware.ts
+
+import fs from "fs";
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { CognitoJwtVerifier } from "aws-jwt-verify";
+import { cognitoConfig } from "../config/cognito";
+
+const prisma = new PrismaClient();
+
+const createVerifier = () => {
+  const cognitoVerifier = CognitoJwtVerifier.create({
+    userPoolId: cognitoConfig.userPoolId,
+    tokenUse: "access",
+    clientId: cognitoConfig.clientId,
+  });
+
+  // Preloading the key set means the user pool's JWKS endpoint is never contacted
+  if (cognitoConfig.jwksPath) {
+    const jwks = JSON.parse(fs.readFileSync(cognitoConfig.jwksPath, "utf-8"));
+    cognitoVerifier.cacheJwks(jwks);
+  }
+
+  return cognitoVerifier;
+};
+
+let verifier: ReturnType<typeof createVerifier> | null = null;
+
+const getVerifier = () => {
+  if (!verifier) {
+    verifier = createVerifier();
+  }
+  return verifier;
+};
+
+const unauthorized = (res: Response, message: string) => {
+  res.setHeader("WWW-Authenticate", "Bearer");
+  res.status(401).json({ message: `Unauthorized: ${message}` });
+};
+
+// Verifies the Cognito access token and attaches the matching User to req.user
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return unauthorized(res, "missing bearer token");
+  }
+
+  const token = authHeader.slice("Bearer ".length).trim();
+
+  let cognitoId: string;
+  try {
+    const payload = await getVerifier().verify(token);
+    cognitoId = payload.sub;
+  } catch (error: any) {
+    return unauthorized(res, "invalid or expired token");
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { cognitoId },
+    });
+    if (!user) {
+      return unauthorized(res, "no user is registered for this token");
+    }
+
+    req.user = user;
+    next();
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ message: `Error authenticating user: ${error.message}` });
+  }
+};
@@ -0,0 +1,244 @@
+// src/policies/accessPolicy.ts
+
+import { Request, Response } from "express";
+import { Prisma, PrismaClient, Task, Team, User } from "@prisma/client";
+import { liveTaskFilter } from "../services/trash";
+
+const prisma = new PrismaClient();
+
+export type Role = "admin" | "owner" | "projectManager" | "member" | "viewer";
+
+export type Action =
+  | "project:view"
+  | "project:create"
+  | "project:update"
+  | "project:delete"
+  | "task:view"
+  | "task:create"
+  | "task:update"
+  | "task:delete"
+  | "comment:create"
+  | "comment:moderate"
+  | "team:view";
+
+// Strongest role first; when a user reaches a project through several teams the first match wins
+const ROLE_ORDER: Role[] = ["admin", "owner", "projectManager", "member", "viewer"];
+
+const ROLE_PERMISSIONS: Record<Role, Action[]> = {
+  admin: [
+    "project:view",
+    "project:create",
+    "project:update",
+    "project:delete",
+    "task:view",
+    "task:create",
+    "task:update",
+    "task:delete",
+    "comment:create",
+    "comment:moderate",
+    "team:view",
+  ],
+  owner: [
+    "project:view",
+    "project:create",
+    "project:update",
+    "project:delete",
+    "task:view",
+    "task:create",
+    "task:update",
+    "task:delete",
+    "comment:create",
+    "comment:moderate",
+    "team:view",
+  ],
+  projectManager: [
+    "project:view",
+    "project:create",
+    "project:update",
+    "task:view",
+    "task:create",
+    "task:update",
+    "task:delete",
+    "comment:create",
+    "comment:moderate",
+    "team:view",
+  ],
+  member: [
+    "project:view",
+    "task:view",
+    "task:create",
+    "task:update",
+    "comment:create",
+    "team:view",
+  ],
+  viewer: ["project:view", "task:view", "team:view"],
+};
+
+const strongestRole = (roles: (Role | null)[]): Role | null => {
+  for (const role of ROLE_ORDER) {
+    if (roles.includes(role)) return role;
+  }
+  return null;
+};
+
+// A team's product owner and project manager outrank its regular members
+export const getTeamRole = (user: User, team: Team): Role | null => {
+  if (team.productOwnerUserId === user.userId) return "owner";
+  if (team.projectManagerUserId === user.userId) return "projectManager";
+  if (user.teamId === team.id) return user.teamRole;
+  return null;
+};
+
+const getUserTeams = async (user: User): Promise<Team[]> => {
+  const conditions: Prisma.TeamWhereInput[] = [
+    { productOwnerUserId: user.userId },
+    { projectManagerUserId: user.userId },
+  ];
+  if (user.teamId !== null) {
+    conditions.push({ id: user.teamId });
+  }
+  return prisma.team.findMany({ where: { OR: conditions } });
+};
+
+// Role used for actions that are not tied to a project, such as creating one
+export const getGlobalRole = async (user: User): Promise<Role | null> => {
+  if (user.isAdmin) return "admin";
+  const teams = await getUserTeams(user);
+  return strongestRole(teams.map((team) => getTeamRole(user, team)));
+};
+
+export const getProjectRole = async (
+  user: User,
+  projectId: number
+): Promise<Role | null> => {
+  if (user.isAdmin) return "admin";
+  const projectTeams = await prisma.projectTeam.findMany({
+    where: { projectId },
+    include: { team: true },
+  });
+  return strongestRole(
+    projectTeams.map((projectTeam) => getTeamRole(user, projectTeam.team))
+  );
+};
+
+export const permissionsFor = (role: Role | null): Action[] =>
+  role ? ROLE_PERMISSIONS[role] : [];
+
+export const can = (role: Role | null, action: Action): boolean =>
+  permissionsFor(role).includes(action);
+
+// Teams on which the user holds a role that allows the action
+export const getTeamsWithPermission = async (
+  user: User,
+  action: Action
+): Promise<Team[]> => {
+  const teams = await getUserTeams(user);
+  return teams.filter((team) => can(getTeamRole(user, team), action));
+};
+
+// Project ids the user can see through their teams; null means every project (admins)
+export const getAccessibleProjectIds = async (
+  user: User
+): Promise<number[] | null> => {
+  if (user.isAdmin) return null;
+  const teams = await getUserTeams(user);
+  const projectTeams = await prisma.projectTeam.findMany({
+    where: { teamId: { in: teams.map((team) => team.id) } },
+    select: { projectId: true },
+  });
+  return Array.from(new Set(projectTeams.map((pt) => pt.projectId)));
+};
+
+// Teams the user may view; null means every team (admins)
+export const getAccessibleTeamIds = async (
+  user: User
+): Promise<number[] | null> => {
+  if (user.isAdmin) return null;
+  const teams = await getUserTeams(user);
+  return teams.map((team) => team.id);
+};
+
+// Users the caller can see: everyone on their own teams and on the teams of the projects they can
+// see, so assignee pickers and mentions cover whoever works with them; null means everyone (admins)
+export const getVisibleUserIds = async (
+  user: User
+): Promise<number[] | null> => {
+  if (user.isAdmin) return null;
+  const projectIds = (await getAccessibleProjectIds(user)) ?? [];
+  const projectTeams = await prisma.projectTeam.findMany({
+    where: { projectId: { in: projectIds } },
+    include: { team: true },
+  });
+  const teams = [
+    ...(await getUserTeams(user)),
+    ...projectTeams.map((projectTeam) => projectTeam.team),
+  ];
+  const members = await prisma.user.findMany({
+    where: { teamId: { in: teams.map((team) => team.id) } },
+    select: { userId: true },
+  });
+  const userIds = [
+    user.userId,
+    ...members.map((member) => member.userId),
+    ...teams.flatMap((team) => [
+      team.productOwnerUserId,
+      team.projectManagerUserId,
+    ]),
+  ];
+  return Array.from(
+    new Set(userIds.filter((userId): userId is number => userId !== null))
+  );
+};
+
+const forbidden = (res: Response, action: Action) => {
+  res.status(403).json({ message: `Forbidden: you are not allowed to ${action}` });
+};
+
+// Sends 403 and returns false when the caller lacks the action on the project
+export const authorizeProject = async (
+  req: Request,
+  res: Response,
+  projectId: number,
+  action: Action
+): Promise<boolean> => {
+  const role = await getProjectRole(req.user!, projectId);
+  if (!can(role, action)) {
+    forbidden(res, action);
+    return false;
+  }
+  return true;
+};
+
+export const authorizeGlobal = async (
+  req: Request,
+  res: Response,
+  action: Action
+): Promise<boolean> => {
+  const role = await getGlobalRole(req.user!);
+  if (!can(role, action)) {
+    forbidden(res, action);
+    return false;
+  }
+  return true;
+};
+
+// Loads the task and checks the action against its project; sends 404/403 and returns null otherwise.
+// Tasks in the trash count as missing, the trash endpoints look them up on their own
+export const authorizeTask = async (
+  req: Request,
+  res: Response,
+  taskId: number,
+  action: Action
+): Promise<Task | null> => {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...liveTaskFilter },
+  });
+  if (!task) {
+    res.status(404).json({ message: `Task ${taskId} not found` });
+    return null;
+  }
+  if (!(await authorizeProject(req, res, task.projectId, action))) {
+    return null;
+  }
+  return task;
+};
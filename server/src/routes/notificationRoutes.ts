@@ -0,0 +1,18 @@
+import { Router } from "express";
+import {
+  getNotificationPreferences,
+  getNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  updateNotificationPreferences,
+} from "../controllers/notificationController";
+
+const router = Router();
+
+router.get("/", getNotifications);
+router.post("/read-all", markAllNotificationsRead);
+router.get("/preferences", getNotificationPreferences);
+router.patch("/preferences", updateNotificationPreferences);
+router.patch("/:notificationId/read", markNotificationRead);
+
+export default router;
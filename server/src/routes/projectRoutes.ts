@@ -1,9 +1,80 @@
 import { Router } from "express";
-import { createProject, getProjects } from "../controllers/projectController";
+import {
+  archiveProject,
+  createProject,
+  deleteProject,
+  getProjects,
+  unarchiveProject,
+  updateProject,
+} from "../controllers/projectController";
+import {
+  createTag,
+  deleteTag,
+  getTags,
+  updateTag,
+} from "../controllers/tagController";
+import {
+  createStatus,
+  deleteStatus,
+  getStatuses,
+  reorderStatuses,
+  updateStatus,
+} from "../controllers/projectStatusController";
+import {
+  createCustomField,
+  deleteCustomField,
+  getCustomFields,
+  updateCustomField,
+} from "../controllers/customFieldController";
+import { getProjectTime } from "../controllers/timeEntryController";
+import {
+  completeSprint,
+  createSprint,
+  deleteSprint,
+  getSprintBurndown,
+  getSprints,
+  startSprint,
+  updateSprint,
+} from "../controllers/sprintController";
+import {
+  createSavedView,
+  deleteSavedView,
+  getSavedViews,
+  updateSavedView,
+} from "../controllers/savedViewController";
 
 const router = Router();
 
 router.get("/", getProjects);
 router.post("/", createProject);
+router.patch("/:projectId", updateProject);
+router.delete("/:projectId", deleteProject);
+router.post("/:projectId/archive", archiveProject);
+router.post("/:projectId/unarchive", unarchiveProject);
+router.get("/:projectId/tags", getTags);
+router.post("/:projectId/tags", createTag);
+router.patch("/:projectId/tags/:tagId", updateTag);
+router.delete("/:projectId/tags/:tagId", deleteTag);
+router.get("/:projectId/statuses", getStatuses);
+router.post("/:projectId/statuses", createStatus);
+router.patch("/:projectId/statuses/order", reorderStatuses);
+router.patch("/:projectId/statuses/:statusId", updateStatus);
+router.delete("/:projectId/statuses/:statusId", deleteStatus);
+router.get("/:projectId/fields", getCustomFields);
+router.post("/:projectId/fields", createCustomField);
+router.patch("/:projectId/fields/:fieldId", updateCustomField);
+router.delete("/:projectId/fields/:fieldId", deleteCustomField);
+router.get("/:projectId/time", getProjectTime);
+router.get("/:projectId/sprints", getSprints);
+router.post("/:projectId/sprints", createSprint);
+router.patch("/:projectId/sprints/:sprintId", updateSprint);
+router.delete("/:projectId/sprints/:sprintId", deleteSprint);
+router.post("/:projectId/sprints/:sprintId/start", startSprint);
+router.post("/:projectId/sprints/:sprintId/complete", completeSprint);
+router.get("/:projectId/sprints/:sprintId/burndown", getSprintBurndown);
+router.get("/:projectId/views", getSavedViews);
+router.post("/:projectId/views", createSavedView);
+router.patch("/:projectId/views/:viewId", updateSavedView);
+router.delete("/:projectId/views/:viewId", deleteSavedView);
 
 export default router;
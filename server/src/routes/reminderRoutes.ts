@@ -0,0 +1,12 @@
+import { Router } from "express";
+import {
+  getReminderPreferences,
+  updateReminderPreferences,
+} from "../controllers/reminderController";
+
+const router = Router();
+
+router.get("/preferences", getReminderPreferences);
+router.patch("/preferences", updateReminderPreferences);
+
+export default router;
@@ -1,16 +1,90 @@
 import { Router } from "express";
 import {
+  archiveTask,
+  bulkUpdateTasks,
   createTask,
+  deleteTask,
+  getTask,
+  getTaskActivity,
   getTasks,
   getUserTasks,
+  moveTask,
+  unarchiveTask,
+  updateTask,
   updateTaskStatus,
 } from "../controllers/taskController";
+import {
+  createComment,
+  deleteComment,
+  getComments,
+  updateComment,
+} from "../controllers/commentController";
+import {
+  addAssignee,
+  removeAssignee,
+} from "../controllers/assignmentController";
+import {
+  createChecklistItem,
+  deleteChecklistItem,
+  getChecklist,
+  reorderChecklist,
+  updateChecklistItem,
+} from "../controllers/checklistController";
+import {
+  addDependency,
+  getDependencies,
+  removeDependency,
+} from "../controllers/dependencyController";
+import {
+  createTimeEntry,
+  deleteTimeEntry,
+  getTimeEntries,
+  startTimer,
+  stopTimer,
+  updateTimeEntry,
+} from "../controllers/timeEntryController";
+import {
+  getWatchers,
+  unwatch,
+  watch,
+} from "../controllers/watcherController";
 
 const router = Router();
 
 router.get("/", getTasks);
 router.post("/", createTask);
+router.post("/bulk", bulkUpdateTasks);
 router.patch("/:taskId/status", updateTaskStatus);
+router.patch("/:taskId/move", moveTask);
 router.get("/user/:userId", getUserTasks);
+router.get("/:taskId", getTask);
+router.patch("/:taskId", updateTask);
+router.delete("/:taskId", deleteTask);
+router.post("/:taskId/archive", archiveTask);
+router.post("/:taskId/unarchive", unarchiveTask);
+router.get("/:taskId/activity", getTaskActivity);
+router.get("/:taskId/comments", getComments);
+router.post("/:taskId/comments", createComment);
+router.patch("/:taskId/comments/:commentId", updateComment);
+router.delete("/:taskId/comments/:commentId", deleteComment);
+router.post("/:taskId/assignees", addAssignee);
+router.delete("/:taskId/assignees/:userId", removeAssignee);
+router.get("/:taskId/watchers", getWatchers);
+router.post("/:taskId/watch", watch);
+router.delete("/:taskId/watch", unwatch);
+router.get("/:taskId/checklist", getChecklist);
+router.post("/:taskId/checklist", createChecklistItem);
+router.patch("/:taskId/checklist/order", reorderChecklist);
+router.patch("/:taskId/checklist/:itemId", updateChecklistItem);
+router.delete("/:taskId/checklist/:itemId", deleteChecklistItem);
+router.get("/:taskId/dependencies", getDependencies);
+router.post("/:taskId/dependencies", addDependency);
+router.delete("/:taskId/dependencies/:dependencyId", removeDependency);
+router.get("/:taskId/time", getTimeEntries);
+router.post("/:taskId/time", createTimeEntry);
+router.patch("/:taskId/time/:entryId", updateTimeEntry);
+router.delete("/:taskId/time/:entryId", deleteTimeEntry);
+router.post("/:taskId/timer/start", startTimer);
+router.post("/:taskId/timer/stop", stopTimer);
 
 export default router;
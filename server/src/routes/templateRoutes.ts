@@ -0,0 +1,14 @@
+import { Router } from "express";
+import {
+  createTemplate,
+  deleteTemplate,
+  getTemplates,
+} from "../controllers/templateController";
+
+const router = Router();
+
+router.get("/", getTemplates);
+router.post("/", createTemplate);
+router.delete("/:templateId", deleteTemplate);
+
+export default router;
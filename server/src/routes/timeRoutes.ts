@@ -0,0 +1,12 @@
+import { Router } from "express";
+import {
+  getCurrentTimer,
+  getTimesheet,
+} from "../controllers/timeEntryController";
+
+const router = Router();
+
+router.get("/timer", getCurrentTimer);
+router.get("/entries", getTimesheet);
+
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import {
+  getTrash,
+  purgeTrashedProject,
+  purgeTrashedTask,
+  restoreTrashedProject,
+  restoreTrashedTask,
+} from "../controllers/trashController";
+
+const router = Router();
+
+router.get("/", getTrash);
+router.post("/tasks/:taskId/restore", restoreTrashedTask);
+router.delete("/tasks/:taskId", purgeTrashedTask);
+router.post("/projects/:projectId/restore", restoreTrashedProject);
+router.delete("/projects/:projectId", purgeTrashedProject);
+
+export default router;
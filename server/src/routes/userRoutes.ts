@@ -13,6 +13,7 @@ import {
   checkUserStatus
 } from "../controllers/userController";
 import { body, validationResult } from 'express-validator'; // Use named imports
+import { authenticate } from "../middleware/authMiddleware";
 
 const router = Router();
 
@@ -25,11 +26,11 @@ const validateUpdateAfterPayment = [
 ];
 
 // Route Definitions
-router.get("/", getUsers);
-router.get("/:cognitoId", getUser);
+router.get("/", authenticate, getUsers);
+router.get("/fetch-session", fetchSessionData);
+router.get("/:cognitoId", authenticate, getUser);
 router.post("/check-subscription", checkSubscriptionStatus);
 router.post("/webhook", handleStripeWebhook);
-router.get("/fetch-session", fetchSessionData);
 router.post('/update-user-status', updateUserStatus);
 router.post('/update-after-payment', updateUserAfterPayment);
 router.post('/check-status', checkUserStatus);
@@ -0,0 +1,39 @@
+// src/scripts/sendReminders.ts
+//
+// Runs the due-date reminder job once, outside the server:
+//   npm run reminders -- [--at=2026-11-02T09:00:00Z] [--in-app-only]
+// --at replays the run as if it were that moment; --in-app-only skips email
+
+import dotenv from "dotenv";
+import { createFakeClock, systemClock } from "../services/scheduler";
+import {
+  describeReminder,
+  inAppChannel,
+  sendDueReminders,
+} from "../services/dueReminders";
+
+dotenv.config();
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const at = args.find((arg) => arg.startsWith("--at="))?.slice("--at=".length);
+  const clock = at ? createFakeClock(new Date(at)) : systemClock;
+  if (Number.isNaN(clock.now().getTime())) {
+    throw new Error(`--at must be a date, got "${at}"`);
+  }
+  const sent = await sendDueReminders(
+    clock.now(),
+    args.includes("--in-app-only") ? [inAppChannel] : undefined
+  );
+  for (const reminder of sent) {
+    console.log(`${reminder.user.username}: ${describeReminder(reminder)}`);
+  }
+  console.log(`Sent ${sent.length} reminders at ${clock.now().toISOString()}`);
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
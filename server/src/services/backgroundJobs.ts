@@ -0,0 +1,37 @@
+// src/services/backgroundJobs.ts
+
+import { generateDueOccurrences } from "./recurrence";
+import { ReminderChannel, sendDueReminders } from "./dueReminders";
+import { purgeExpiredTrash } from "./trash";
+import { Clock, createScheduler, ScheduledJob, systemClock } from "./scheduler";
+
+const MINUTE_MS = 60 * 1000;
+
+// Everything the server does on a schedule
+export const createBackgroundJobs = (
+  channels?: ReminderChannel[]
+): ScheduledJob[] => [
+  {
+    // Series whose next occurrence window has opened
+    name: "recurring-tasks",
+    intervalMs: 60 * MINUTE_MS,
+    run: (now) => generateDueOccurrences(now),
+  },
+  {
+    name: "due-reminders",
+    intervalMs: 15 * MINUTE_MS,
+    run: (now) => sendDueReminders(now, channels),
+  },
+  {
+    // Tasks and projects that have been in the trash past the retention window
+    name: "trash-purge",
+    intervalMs: 60 * MINUTE_MS,
+    run: (now) => purgeExpiredTrash(now),
+  },
+];
+
+export const startBackgroundJobs = (clock: Clock = systemClock) => {
+  const scheduler = createScheduler(createBackgroundJobs(), clock);
+  scheduler.start();
+  return scheduler;
+};
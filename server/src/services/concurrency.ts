@@ -0,0 +1,114 @@
+// src/services/concurrency.ts
+
+import { Request, Response } from "express";
+import { Prisma, PrismaClient } from "@prisma/client";
+
+type VersionClient = Prisma.TransactionClient | PrismaClient;
+
+type Versioned = { updatedAt: Date };
+
+// Tasks and projects are versioned by updatedAt, which Prisma moves on every write to the row.
+// The ETag is that timestamp as it appears in the JSON, so a client can send back either one
+export const etagOf = (record: Versioned) =>
+  `"${record.updatedAt.toISOString()}"`;
+
+export type Precondition =
+  { expected: Date | null } | { status: 400 | 428; message: string };
+
+// Updates must say which version they were made against with If-Match; "*" skips the check
+export const readIfMatch = (req: Request): Precondition => {
+  const header = req.get("If-Match")?.trim();
+  if (!header) {
+    return {
+      status: 428,
+      message: "If-Match is required; send the ETag of the version you edited",
+    };
+  }
+  if (header === "*") return { expected: null };
+  const match = header.match(/^"([^"]+)"$/);
+  const expected = match ? new Date(match[1]) : null;
+  if (!expected || Number.isNaN(expected.getTime())) {
+    return { status: 400, message: `If-Match ${header} is not a valid ETag` };
+  }
+  return { expected };
+};
+
+export const isStale = (record: Versioned, expected: Date | null) =>
+  expected !== null && record.updatedAt.getTime() !== expected.getTime();
+
+// Claims the row for a write when it is still at the expected version. Moving updatedAt locks the
+// row until the transaction ends, so a concurrent write waits and then finds it has moved on.
+// Run it first in the transaction: on false nothing has been written and the caller answers 409
+export const claimTaskVersion = async (
+  client: VersionClient,
+  taskId: number,
+  expected: Date | null
+) => {
+  if (expected === null) return true;
+  const { count } = await client.task.updateMany({
+    where: { id: taskId, updatedAt: expected },
+    data: { updatedAt: new Date() },
+  });
+  return count === 1;
+};
+
+export const claimProjectVersion = async (
+  client: VersionClient,
+  projectId: number,
+  expected: Date | null
+) => {
+  if (expected === null) return true;
+  const { count } = await client.project.updateMany({
+    where: { id: projectId, updatedAt: expected },
+    data: { updatedAt: new Date() },
+  });
+  return count === 1;
+};
+
+// 409 with the version on the server, so the client can merge or reload without another request
+export const sendConflict = (
+  res: Response,
+  message: string,
+  current: Versioned
+) => {
+  res.status(409).set("ETag", etagOf(current)).json({ message, current });
+};
+
+// Bulk edits carry the version of every task they touch as { [taskId]: updatedAt } in the body,
+// since one If-Match cannot hold several; "*" skips the check for that task
+export const readVersions = (
+  value: unknown,
+  ids: number[]
+): Map<number, Date | null> | { status: 400 | 428; message: string } => {
+  const versions = new Map<number, Date | null>();
+  const given =
+    typeof value === "object" && value !== null
+      ? (value as Record<string, unknown>)
+      : {};
+  for (const id of ids) {
+    const version = given[id];
+    if (version === undefined) {
+      return {
+        status: 428,
+        message: `versions must hold the updatedAt of every task; task ${id} has none`,
+      };
+    }
+    if (version === "*") {
+      versions.set(id, null);
+      continue;
+    }
+    const expected = typeof version === "string" ? new Date(version) : null;
+    if (!expected || Number.isNaN(expected.getTime())) {
+      return { status: 400, message: `versions of task ${id} is not a date` };
+    }
+    versions.set(id, expected);
+  }
+  return versions;
+};
+
+// Rolls back a transaction that claimed some tasks before finding another one stale
+export class VersionConflictError extends Error {
+  constructor(readonly taskIds: number[]) {
+    super(`Tasks ${taskIds.join(", ")} changed since they were loaded`);
+  }
+}
@@ -0,0 +1,351 @@
+// src/services/customFields.ts
+
+import {
+  CustomField,
+  CustomFieldValue,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import { FieldChange, formatActivityValue } from "./taskActivity";
+
+const prisma = new PrismaClient();
+
+export const CUSTOM_FIELD_TYPES = [
+  "text",
+  "number",
+  "currency",
+  "date",
+  "select",
+  "multiSelect",
+  "url",
+  "checkbox",
+] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export const SELECT_FIELD_TYPES: CustomFieldType[] = ["select", "multiSelect"];
+
+export const DEFAULT_CURRENCY = "USD";
+
+type FieldClient = Prisma.TransactionClient | PrismaClient;
+
+// The typed columns of a value row; a field only ever uses the one matching its type
+type ValueColumns = Pick<
+  CustomFieldValue,
+  "text" | "number" | "date" | "checked" | "selected"
+>;
+
+const EMPTY_COLUMNS: ValueColumns = {
+  text: null,
+  number: null,
+  date: null,
+  checked: null,
+  selected: [],
+};
+
+export type CustomFieldInputValue = string | number | boolean | string[];
+
+// Include that loads a task's values; withCustomFields turns them into { [fieldId]: value }
+export const customFieldsInclude = {
+  customFieldValues: { include: { field: { select: { type: true } } } },
+} satisfies Prisma.TaskInclude;
+
+type TaskWithCustomFields = {
+  customFieldValues: (CustomFieldValue & { field: { type: string } })[];
+};
+
+const valueOf = (
+  type: string,
+  row: ValueColumns
+): CustomFieldInputValue | null => {
+  switch (type as CustomFieldType) {
+    case "number":
+    case "currency":
+      return row.number;
+    case "date":
+      return row.date && row.date.toISOString();
+    case "checkbox":
+      return row.checked;
+    case "select":
+      return row.selected[0] ?? null;
+    case "multiSelect":
+      return row.selected;
+    default:
+      return row.text;
+  }
+};
+
+export const withCustomFields = <T extends TaskWithCustomFields>({
+  customFieldValues,
+  ...task
+}: T) => ({
+  ...task,
+  customFields: Object.fromEntries(
+    customFieldValues.map((row) => [row.fieldId, valueOf(row.field.type, row)])
+  ),
+});
+
+export const getProjectCustomFields = (projectId: number) =>
+  prisma.customField.findMany({
+    where: { projectId },
+    orderBy: [{ position: "asc" }, { id: "asc" }],
+  });
+
+const isBlank = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+// Converts one submitted value to the field's column, or explains why it does not fit.
+// Blank values clear the field
+const parseValue = (
+  field: CustomField,
+  value: unknown
+): { columns: ValueColumns | null } | { error: string } => {
+  if (isBlank(value)) return { columns: null };
+  const invalid = (expected: string) => ({
+    error: `${field.name} must be ${expected}`,
+  });
+
+  switch (field.type as CustomFieldType) {
+    case "text":
+      return { columns: { ...EMPTY_COLUMNS, text: String(value) } };
+    case "url": {
+      try {
+        const url = new URL(String(value));
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          return invalid("an http or https URL");
+        }
+      } catch {
+        return invalid("a URL");
+      }
+      return { columns: { ...EMPTY_COLUMNS, text: String(value) } };
+    }
+    case "number":
+    case "currency": {
+      const number = Number(value);
+      if (typeof value === "boolean" || !Number.isFinite(number)) {
+        return invalid("a number");
+      }
+      return {
+        columns: {
+          ...EMPTY_COLUMNS,
+          // Amounts are kept to the cent
+          number:
+            field.type === "currency" ? Math.round(number * 100) / 100 : number,
+        },
+      };
+    }
+    case "date": {
+      const date = new Date(String(value));
+      if (Number.isNaN(date.getTime())) return invalid("a date");
+      return { columns: { ...EMPTY_COLUMNS, date } };
+    }
+    case "checkbox":
+      if (typeof value !== "boolean") return invalid("true or false");
+      return { columns: { ...EMPTY_COLUMNS, checked: value } };
+    case "select":
+      if (typeof value !== "string" || !field.options.includes(value)) {
+        return invalid(`one of ${field.options.join(", ")}`);
+      }
+      return { columns: { ...EMPTY_COLUMNS, selected: [value] } };
+    case "multiSelect": {
+      const choices = Array.isArray(value)
+        ? value.map(String)
+        : [String(value)];
+      const unknown = choices.find((choice) => !field.options.includes(choice));
+      if (unknown !== undefined) {
+        return invalid(`chosen from ${field.options.join(", ")}`);
+      }
+      return {
+        columns: { ...EMPTY_COLUMNS, selected: Array.from(new Set(choices)) },
+      };
+    }
+    default:
+      return { error: `${field.name} has an unknown type ${field.type}` };
+  }
+};
+
+export type ParsedCustomFieldValue = {
+  field: CustomField;
+  columns: ValueColumns | null;
+};
+
+// Validates a task's { [fieldId]: value } input against the fields of its project
+export const parseCustomFieldValues = async (
+  client: FieldClient,
+  projectId: number,
+  input: unknown
+): Promise<{ values: ParsedCustomFieldValue[] } | { error: string }> => {
+  if (input === undefined || input === null) return { values: [] };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "customFields must map field ids to values" };
+  }
+  const fields = await client.customField.findMany({ where: { projectId } });
+  const values: ParsedCustomFieldValue[] = [];
+  for (const [fieldId, value] of Object.entries(input)) {
+    const field = fields.find((candidate) => candidate.id === Number(fieldId));
+    if (!field) {
+      return {
+        error: `Custom field ${fieldId} does not belong to this project`,
+      };
+    }
+    const parsed = parseValue(field, value);
+    if ("error" in parsed) return parsed;
+    values.push({ field, columns: parsed.columns });
+  }
+  return { values };
+};
+
+// Writes parsed values onto a task and returns the changes for its activity history
+export const saveCustomFieldValues = async (
+  tx: Prisma.TransactionClient,
+  taskId: number,
+  values: ParsedCustomFieldValue[]
+): Promise<FieldChange[]> => {
+  const changes: FieldChange[] = [];
+  for (const { field, columns } of values) {
+    const existing = await tx.customFieldValue.findUnique({
+      where: { taskId_fieldId: { taskId, fieldId: field.id } },
+    });
+    const oldValue = existing && valueOf(field.type, existing);
+    const newValue = columns && valueOf(field.type, columns);
+    if (formatActivityValue(oldValue) === formatActivityValue(newValue)) {
+      continue;
+    }
+
+    if (columns === null) {
+      await tx.customFieldValue.delete({ where: { id: existing!.id } });
+    } else {
+      await tx.customFieldValue.upsert({
+        where: { taskId_fieldId: { taskId, fieldId: field.id } },
+        create: { taskId, fieldId: field.id, ...columns },
+        update: columns,
+      });
+    }
+    changes.push({ field: field.name, oldValue, newValue });
+  }
+  return changes;
+};
+
+// Values only make sense for the fields of the task's own project
+export const dropOtherProjectValues = (
+  tx: Prisma.TransactionClient,
+  taskId: number,
+  projectId: number
+) =>
+  tx.customFieldValue.deleteMany({
+    where: { taskId, field: { projectId: { not: projectId } } },
+  });
+
+const valueFilter = (
+  fieldId: number,
+  where: Prisma.CustomFieldValueWhereInput
+): Prisma.TaskWhereInput => ({
+  customFieldValues: { some: { fieldId, ...where } },
+});
+
+// ?cf[12]=value filters on custom field 12: text and URLs by substring, selects by any of a
+// comma separated list, multi selects by all of it, checkboxes by true/false. Numbers, amounts
+// and dates match exactly, or by range with ?cf[12][from]=..&cf[12][to]=..
+export const parseCustomFieldFilters = async (
+  input: unknown
+): Promise<Prisma.TaskWhereInput[] | { error: string }> => {
+  if (input === undefined) return [];
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: "Custom field filters look like cf[<fieldId>]=<value>" };
+  }
+  const entries = Object.entries(input as Record<string, unknown>);
+  const fields = await prisma.customField.findMany({
+    where: {
+      id: {
+        in: entries
+          .map(([fieldId]) => Number(fieldId))
+          .filter(Number.isInteger),
+      },
+    },
+  });
+
+  const filters: Prisma.TaskWhereInput[] = [];
+  for (const [fieldId, raw] of entries) {
+    const field = fields.find((candidate) => candidate.id === Number(fieldId));
+    if (!field) return { error: `Unknown custom field ${fieldId}` };
+    const type = field.type as CustomFieldType;
+
+    const isRange =
+      typeof raw === "object" && raw !== null && !Array.isArray(raw);
+    if (isRange) {
+      if (!["number", "currency", "date"].includes(type)) {
+        return { error: `${field.name} cannot be filtered by range` };
+      }
+      const { from, to } = raw as Record<string, unknown>;
+      const bound = (value: unknown) => {
+        if (value === undefined || value === "") return undefined;
+        return type === "date" ? new Date(String(value)) : Number(value);
+      };
+      const [gte, lte] = [bound(from), bound(to)];
+      if (
+        [gte, lte].some(
+          (value) => value !== undefined && Number.isNaN(Number(value))
+        )
+      ) {
+        return {
+          error: `${field.name} range bounds must be ${type === "date" ? "dates" : "numbers"}`,
+        };
+      }
+      filters.push(
+        valueFilter(field.id, {
+          [type === "date" ? "date" : "number"]: { gte, lte },
+        })
+      );
+      continue;
+    }
+
+    const value = String(raw).trim();
+    if (!value) continue;
+    const choices = value.split(",").map((choice) => choice.trim());
+    switch (type) {
+      case "text":
+      case "url":
+        filters.push(
+          valueFilter(field.id, {
+            text: { contains: value, mode: "insensitive" },
+          })
+        );
+        break;
+      case "select":
+        filters.push(valueFilter(field.id, { selected: { hasSome: choices } }));
+        break;
+      case "multiSelect":
+        filters.push(
+          valueFilter(field.id, { selected: { hasEvery: choices } })
+        );
+        break;
+      case "checkbox":
+        if (value !== "true" && value !== "false") {
+          return { error: `${field.name} filters take true or false` };
+        }
+        // Unticked includes tasks that never had the box set
+        filters.push(
+          value === "true"
+            ? valueFilter(field.id, { checked: true })
+            : { NOT: valueFilter(field.id, { checked: true }) }
+        );
+        break;
+      default: {
+        const parsed = parseValue(field, value);
+        if ("error" in parsed) return parsed;
+        filters.push(
+          valueFilter(
+            field.id,
+            type === "date"
+              ? { date: parsed.columns!.date }
+              : { number: parsed.columns!.number }
+          )
+        );
+      }
+    }
+  }
+  return filters;
+};
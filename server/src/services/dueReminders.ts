@@ -0,0 +1,226 @@
+// src/services/dueReminders.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { ses } from "../config/awsConfig";
+import { openTaskFilter } from "./projectStatuses";
+import { notify } from "./notifications";
+import {
+  DAY_MS,
+  MAX_REMINDER_DAYS,
+  OVERDUE_WINDOW_DAYS,
+  ReminderChannelName,
+  reminderKindAt,
+} from "./reminderSchedule";
+import { activeTaskFilter } from "./trash";
+
+const prisma = new PrismaClient();
+
+const recipientSelect = {
+  userId: true,
+  username: true,
+  email: true,
+  reminderDaysBefore: true,
+  remindOverdue: true,
+  reminderChannels: true,
+} satisfies Prisma.UserSelect;
+
+const reminderTaskInclude = {
+  project: { select: { name: true } },
+  author: { select: recipientSelect },
+  taskAssignments: {
+    include: {
+      user: { select: recipientSelect },
+    },
+  },
+} satisfies Prisma.TaskInclude;
+
+type ReminderTask = Prisma.TaskGetPayload<{
+  include: typeof reminderTaskInclude;
+}>;
+
+type Recipient = ReminderTask["author"];
+
+// What a channel is handed for one user and one task
+export type DueReminder = {
+  kind: string;
+  dueDate: Date;
+  task: { id: number; title: string; projectId: number; projectName: string };
+  user: { userId: number; username: string; email: string };
+};
+
+// A way of getting reminders to people. deliver throws when the reminder could not be sent
+export type ReminderChannel = {
+  name: ReminderChannelName;
+  deliver: (reminder: DueReminder) => Promise<void>;
+};
+
+// In-app reminders land in the notification center as "due" notifications
+export const inAppChannel: ReminderChannel = {
+  name: "inApp",
+  deliver: async (reminder) => {
+    await notify(prisma, {
+      userIds: [reminder.user.userId],
+      category: "due",
+      message: describeReminder(reminder),
+      taskId: reminder.task.id,
+    });
+  },
+};
+
+export const describeReminder = ({ kind, task }: DueReminder) => {
+  if (kind === "overdue") return `"${task.title}" is overdue`;
+  const days = Number(kind.split(":")[1]);
+  return days === 1
+    ? `"${task.title}" is due within a day`
+    : `"${task.title}" is due within ${days} days`;
+};
+
+type SendEmail = (to: string, subject: string, text: string) => Promise<void>;
+
+const sendSesEmail: SendEmail = async (to, subject, text) => {
+  const sender = process.env.MP_SES_SENDER;
+  if (!sender) throw new Error("MP_SES_SENDER is not set");
+  await ses
+    .sendEmail({
+      Source: sender,
+      Destination: { ToAddresses: [to] },
+      Message: {
+        Subject: { Data: subject },
+        Body: { Text: { Data: text } },
+      },
+    })
+    .promise();
+};
+
+// Emails through SES by default; tests and scripts can hand in their own sender
+export const createEmailChannel = (
+  sendEmail: SendEmail = sendSesEmail
+): ReminderChannel => ({
+  name: "email",
+  deliver: async (reminder) => {
+    const subject = describeReminder(reminder);
+    const link = `${process.env.CLIENT_URL ?? ""}/projects/${reminder.task.projectId}`;
+    await sendEmail(
+      reminder.user.email,
+      subject,
+      `Hi ${reminder.user.username},\n\n${subject} (${reminder.task.projectName}, due ${reminder.dueDate.toDateString()}).\n\n${link}\n`
+    );
+  },
+});
+
+export const defaultReminderChannels = () => [
+  inAppChannel,
+  createEmailChannel(),
+];
+
+// Assignees are reminded; a task nobody is assigned to reminds its author
+const recipientsOf = (task: ReminderTask): Recipient[] => {
+  const assignees = task.taskAssignments.map(({ user }) => user);
+  return assignees.length > 0 ? assignees : [task.author];
+};
+
+// The reminder's row, created the first time any run gets to it
+const reminderRow = async (reminder: DueReminder, now: Date) => {
+  const key = {
+    taskId: reminder.task.id,
+    userId: reminder.user.userId,
+    kind: reminder.kind,
+    dueDate: reminder.dueDate,
+  };
+  try {
+    return await prisma.reminder.create({
+      data: { ...key, channels: [], createdAt: now },
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return prisma.reminder.findUniqueOrThrow({
+        where: { taskId_userId_kind_dueDate: key },
+      });
+    }
+    throw error;
+  }
+};
+
+// Adds the channel to the row unless a run already sent the reminder there; false in that case
+const claimChannel = async (
+  reminderId: number,
+  channel: ReminderChannelName
+) => {
+  const { count } = await prisma.reminder.updateMany({
+    where: { id: reminderId, NOT: { channels: { has: channel } } },
+    data: { channels: { push: channel } },
+  });
+  return count === 1;
+};
+
+// Sends every reminder that is due at now and has not been sent yet on the given channels. Each
+// channel is claimed on the Reminder row before delivery, so two runs at once (or a rerun) cannot
+// send the same reminder twice there, while a run with fewer channels leaves the others for later.
+// A delivery that fails is logged and not retried. Returns what was sent
+export const sendDueReminders = async (
+  now: Date,
+  channels: ReminderChannel[] = defaultReminderChannels()
+) => {
+  const tasks = await prisma.task.findMany({
+    where: {
+      AND: [
+        openTaskFilter,
+        activeTaskFilter,
+        {
+          dueDate: {
+            gte: new Date(now.getTime() - OVERDUE_WINDOW_DAYS * DAY_MS),
+            lte: new Date(now.getTime() + MAX_REMINDER_DAYS * DAY_MS),
+          },
+        },
+      ],
+    },
+    include: reminderTaskInclude,
+  });
+
+  const sent: DueReminder[] = [];
+  for (const task of tasks) {
+    for (const user of recipientsOf(task)) {
+      const kind = reminderKindAt(task.dueDate!, now, user);
+      if (!kind) continue;
+      const reminder: DueReminder = {
+        kind,
+        dueDate: task.dueDate!,
+        task: {
+          id: task.id,
+          title: task.title,
+          projectId: task.projectId,
+          projectName: task.project.name,
+        },
+        user: {
+          userId: user.userId,
+          username: user.username,
+          email: user.email,
+        },
+      };
+      const wanted = channels.filter((channel) =>
+        user.reminderChannels.includes(channel.name)
+      );
+      if (wanted.length === 0) continue;
+      const row = await reminderRow(reminder, now);
+      let claimedAny = false;
+      for (const channel of wanted) {
+        if (!(await claimChannel(row.id, channel.name))) continue;
+        claimedAny = true;
+        try {
+          await channel.deliver(reminder);
+        } catch (error) {
+          console.error(
+            `Could not send ${channel.name} reminder ${row.id}:`,
+            error
+          );
+        }
+      }
+      if (!claimedAny) continue;
+      sent.push(reminder);
+    }
+  }
+  return sent;
+};
@@ -0,0 +1,132 @@
+// src/services/notifications.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { TaskEvent, TaskEventSubscriber } from "./taskEvents";
+
+export const NOTIFICATION_CATEGORIES = [
+  "assigned",
+  "status",
+  "comment",
+  "mention",
+  "due",
+] as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+type NotificationClient = Prisma.TransactionClient | PrismaClient;
+
+export const notificationInclude = {
+  task: { select: { id: true, title: true, projectId: true } },
+  actor: { select: { userId: true, username: true, profilePictureUrl: true } },
+} satisfies Prisma.NotificationInclude;
+
+// Creates one notification per recipient. The actor is never told about their own doing, and
+// users who muted the category are left out. Returns how many were created
+export const notify = async (
+  client: NotificationClient,
+  {
+    userIds,
+    category,
+    message,
+    taskId = null,
+    actorUserId = null,
+  }: {
+    userIds: number[];
+    category: NotificationCategory;
+    message: string;
+    taskId?: number | null;
+    actorUserId?: number | null;
+  }
+) => {
+  const candidates = Array.from(new Set(userIds)).filter(
+    (userId) => userId !== actorUserId
+  );
+  if (candidates.length === 0) return 0;
+  const recipients = await client.user.findMany({
+    where: {
+      userId: { in: candidates },
+      NOT: { mutedNotifications: { has: category } },
+    },
+    select: { userId: true },
+  });
+  const { count } = await client.notification.createMany({
+    data: recipients.map(({ userId }) => ({
+      userId,
+      category,
+      message,
+      taskId,
+      actorUserId,
+    })),
+  });
+  return count;
+};
+
+const assignedMessage = ({ actor, task }: TaskEvent) =>
+  `${actor.username} assigned you to "${task.title}"`;
+
+const mentionedMessage = ({ actor, task }: TaskEvent) =>
+  `${actor.username} mentioned you on "${task.title}"`;
+
+// The notification center's subscription to task events. Assignments go to the people assigned;
+// status changes and comments go to the task's watchers, except that people mentioned in a
+// comment get a mention instead
+export const notifyTaskEvent: TaskEventSubscriber = async (
+  client,
+  event,
+  watcherIds
+) => {
+  const base = {
+    taskId: event.task.id,
+    actorUserId: event.actor.userId,
+  };
+  switch (event.type) {
+    case "created":
+      await notify(client, {
+        ...base,
+        userIds: event.assigneeIds,
+        category: "assigned",
+        message: assignedMessage(event),
+      });
+      return;
+    case "assigned":
+      await notify(client, {
+        ...base,
+        userIds: event.userIds,
+        category: "assigned",
+        message: assignedMessage(event),
+      });
+      return;
+    case "status_changed":
+      await notify(client, {
+        ...base,
+        userIds: watcherIds,
+        category: "status",
+        message: `${event.actor.username} moved "${event.task.title}" to ${event.newStatus ?? "no status"}`,
+      });
+      return;
+    case "commented":
+      await notify(client, {
+        ...base,
+        userIds: event.mentionedUserIds,
+        category: "mention",
+        message: mentionedMessage(event),
+      });
+      await notify(client, {
+        ...base,
+        userIds: watcherIds.filter(
+          (userId) => !event.mentionedUserIds.includes(userId)
+        ),
+        category: "comment",
+        message: `${event.actor.username} commented on "${event.task.title}"`,
+      });
+      return;
+    case "mentioned":
+      await notify(client, {
+        ...base,
+        userIds: event.userIds,
+        category: "mention",
+        message: mentionedMessage(event),
+      });
+      return;
+  }
+};
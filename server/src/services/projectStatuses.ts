@@ -0,0 +1,141 @@
+// src/services/projectStatuses.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { activeTaskFilter } from "./trash";
+
+const prisma = new PrismaClient();
+
+export const STATUS_CATEGORIES = ["todo", "inProgress", "done"] as const;
+
+export type StatusCategory = (typeof STATUS_CATEGORIES)[number];
+
+export const DONE_CATEGORY: StatusCategory = "done";
+
+export const WIP_ENFORCEMENT_MODES = ["warn", "enforce"] as const;
+
+// What every new project starts with; these were the only statuses before workflows were configurable
+export const DEFAULT_PROJECT_STATUSES = [
+  { name: "To Do", color: "#2563EB", category: "todo", position: 0 },
+  { name: "Work In Progress", color: "#059669", category: "inProgress", position: 1 },
+  { name: "Under Review", color: "#D97706", category: "inProgress", position: 2 },
+  { name: "Completed", color: "#000000", category: "done", position: 3 },
+] satisfies Prisma.ProjectStatusCreateWithoutProjectInput[];
+
+type StatusClient = Prisma.TransactionClient | PrismaClient;
+
+// Loads the category of a task's status, which is all that "is it done" needs
+export const statusCategorySelect = {
+  workflowStatus: { select: { category: true } },
+} satisfies Prisma.TaskInclude;
+
+export const isDone = (task: { workflowStatus: { category: string } | null }) =>
+  task.workflowStatus?.category === DONE_CATEGORY;
+
+// Tasks whose status is not in a done category, including tasks without a status
+export const openTaskFilter: Prisma.TaskWhereInput = {
+  OR: [
+    { status: null },
+    { workflowStatus: { category: { not: DONE_CATEGORY } } },
+  ],
+};
+
+// The project's statuses in board order, each with the ids of the statuses it may move to
+export const getProjectStatuses = async (projectId: number) => {
+  const statuses = await prisma.projectStatus.findMany({
+    where: { projectId },
+    include: { transitionsFrom: { select: { toStatusId: true } } },
+    orderBy: [{ position: "asc" }, { id: "asc" }],
+  });
+  return statuses.map(({ transitionsFrom, ...status }) => ({
+    ...status,
+    transitionsTo: transitionsFrom.map(({ toStatusId }) => toStatusId),
+  }));
+};
+
+export const findProjectStatus = (
+  client: StatusClient,
+  projectId: number,
+  name: string | null
+) =>
+  name === null
+    ? Promise.resolve(null)
+    : client.projectStatus.findUnique({
+        where: { projectId_name: { projectId, name } },
+      });
+
+export const isDoneStatus = async (
+  client: StatusClient,
+  projectId: number,
+  name: string | null
+) =>
+  (await findProjectStatus(client, projectId, name))?.category === DONE_CATEGORY;
+
+// Where new and regenerated tasks start: the first todo status, or the first status at all
+export const initialStatus = async (client: StatusClient, projectId: number) => {
+  const statuses = await client.projectStatus.findMany({
+    where: { projectId },
+    orderBy: [{ position: "asc" }, { id: "asc" }],
+  });
+  return (
+    statuses.find((status) => status.category === "todo") ?? statuses[0] ?? null
+  );
+};
+
+// The status a task keeps when it moves to another project: the same name if that project has it
+export const statusInProject = async (
+  client: StatusClient,
+  projectId: number,
+  name: string | null
+) => {
+  if (name !== null && (await findProjectStatus(client, projectId, name))) {
+    return name;
+  }
+  return (await initialStatus(client, projectId))?.name ?? null;
+};
+
+// Returns an error message when the status is unknown to the project or the move is not allowed
+export const checkTransition = async (
+  client: StatusClient,
+  projectId: number,
+  from: string | null,
+  to: string
+): Promise<string | null> => {
+  const target = await findProjectStatus(client, projectId, to);
+  if (!target) return `"${to}" is not a status of this project`;
+  if (from === null || from === to) return null;
+
+  const transitionCount = await client.statusTransition.count({
+    where: { fromStatus: { projectId } },
+  });
+  if (transitionCount === 0) return null;
+  const allowed = await client.statusTransition.findFirst({
+    where: { fromStatus: { projectId, name: from }, toStatusId: target.id },
+  });
+  return allowed ? null : `Tasks cannot move from "${from}" to "${to}"`;
+};
+
+// Describes how far entering tasks would take a status past its WIP limit, or null while they fit.
+// Whether that blocks the move depends on the project's wipEnforcement
+export const checkWipLimit = async (
+  client: StatusClient,
+  projectId: number,
+  name: string,
+  entering = 1
+) => {
+  const status = await findProjectStatus(client, projectId, name);
+  if (!status || status.wipLimit === null) return null;
+  // Archived and trashed tasks are off the board, so they take no room in the column
+  const count = await client.task.count({
+    where: { projectId, status: name, ...activeTaskFilter },
+  });
+  if (count + entering <= status.wipLimit) return null;
+
+  const project = await client.project.findUnique({
+    where: { id: projectId },
+    select: { wipEnforcement: true },
+  });
+  return {
+    message: `"${name}" would hold ${count + entering} tasks, over its limit of ${status.wipLimit}`,
+    enforced: project?.wipEnforcement === "enforce",
+  };
+};
@@ -0,0 +1,129 @@
+// src/services/projectTemplates.ts
+
+import { Prisma, TemplateTask } from "@prisma/client";
+import { initialStatus } from "./projectStatuses";
+import { recordActivity } from "./taskActivity";
+import { rankAtEnd } from "./taskRank";
+import { resolveTags, tagsInclude } from "./taskTags";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TEMPLATE_ANCHORS = ["start", "end"] as const;
+
+export type TemplateAnchor = (typeof TEMPLATE_ANCHORS)[number];
+
+type ProjectDates = { startDate: Date | null; endDate: Date | null };
+
+export const templateTasksInclude = {
+  tasks: { orderBy: [{ position: "asc" }, { id: "asc" }] },
+} satisfies Prisma.ProjectTemplateInclude;
+
+const anchorDate = (project: ProjectDates, anchor: string) =>
+  anchor === "end" ? project.endDate : project.startDate;
+
+const shiftDate = (date: Date | null, days: number | null) =>
+  date && days !== null ? new Date(date.getTime() + days * DAY_MS) : null;
+
+const offsetFrom = (anchor: Date | null, date: Date | null) =>
+  anchor && date
+    ? Math.round((date.getTime() - anchor.getTime()) / DAY_MS)
+    : null;
+
+// Creates the template's tasks in a project, turning their offsets into dates from the project's
+// own start and end. Offsets whose anchor date the project lacks leave that date empty
+export const instantiateTemplate = async (
+  tx: Prisma.TransactionClient,
+  templateId: number,
+  project: ProjectDates & { id: number },
+  authorUserId: number
+) => {
+  const tasks = await tx.templateTask.findMany({
+    where: { templateId },
+    orderBy: [{ position: "asc" }, { id: "asc" }],
+  });
+  const status = (await initialStatus(tx, project.id))?.name ?? null;
+  const createdIds = new Map<number, number>();
+
+  const create = async (templateTask: TemplateTask) => {
+    const anchor = anchorDate(project, templateTask.anchor);
+    const tags = await resolveTags(tx, project.id, templateTask.tags);
+    const created = await tx.task.create({
+      data: {
+        title: templateTask.title,
+        description: templateTask.description,
+        status,
+        priority: templateTask.priority,
+        points: templateTask.points,
+        startDate: shiftDate(anchor, templateTask.startOffsetDays),
+        dueDate: shiftDate(anchor, templateTask.dueOffsetDays),
+        projectId: project.id,
+        authorUserId,
+        parentTaskId:
+          templateTask.parentId !== null
+            ? (createdIds.get(templateTask.parentId) ?? null)
+            : null,
+        taskTags: { create: tags.map((tag) => ({ tagId: tag.id })) },
+        watchers: { create: { userId: authorUserId } },
+        rank: await rankAtEnd(tx, project.id, status),
+      },
+    });
+    createdIds.set(templateTask.id, created.id);
+    await recordActivity(tx, created.id, authorUserId, "created");
+  };
+
+  // Parents first so their subtasks can point at them
+  for (const task of tasks.filter((task) => task.parentId === null)) {
+    await create(task);
+  }
+  for (const task of tasks.filter((task) => task.parentId !== null)) {
+    await create(task);
+  }
+  return createdIds.size;
+};
+
+// Copies a project's tasks and subtasks into a new template. Dates are measured from the project's
+// end date when it has one, since application checklists run towards a deadline, else from its start
+export const saveProjectAsTemplate = async (
+  tx: Prisma.TransactionClient,
+  projectId: number,
+  template: { name: string; description?: string | null; createdById: number }
+) => {
+  const project = await tx.project.findUniqueOrThrow({
+    where: { id: projectId },
+  });
+  const tasks = await tx.task.findMany({
+    where: { projectId, deletedAt: null },
+    include: tagsInclude,
+    orderBy: [{ parentTaskId: { sort: "asc", nulls: "first" } }, { id: "asc" }],
+  });
+  const anchor: TemplateAnchor = project.endDate ? "end" : "start";
+  const from = anchorDate(project, anchor);
+
+  const created = await tx.projectTemplate.create({ data: template });
+  const templateTaskIds = new Map<number, number>();
+  for (const [position, task] of tasks.entries()) {
+    const templateTask = await tx.templateTask.create({
+      data: {
+        templateId: created.id,
+        parentId:
+          task.parentTaskId !== null
+            ? (templateTaskIds.get(task.parentTaskId) ?? null)
+            : null,
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        points: task.points,
+        tags: task.taskTags.map(({ tag }) => tag.name),
+        anchor,
+        startOffsetDays: offsetFrom(from, task.startDate),
+        dueOffsetDays: offsetFrom(from, task.dueDate),
+        position,
+      },
+    });
+    templateTaskIds.set(task.id, templateTask.id);
+  }
+  return tx.projectTemplate.findUniqueOrThrow({
+    where: { id: created.id },
+    include: templateTasksInclude,
+  });
+};
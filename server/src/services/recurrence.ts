@@ -0,0 +1,257 @@
+// src/services/recurrence.ts
+
+import { Prisma, PrismaClient, Task, TaskSeries } from "@prisma/client";
+import { recordActivity } from "./taskActivity";
+import { rankAtEnd } from "./taskRank";
+import { initialStatus } from "./projectStatuses";
+import { activeTaskFilter } from "./trash";
+
+const prisma = new PrismaClient();
+
+const FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+
+type Frequency = (typeof FREQUENCIES)[number];
+
+export type RecurrenceRule = {
+  frequency: Frequency;
+  interval: number;
+  until: Date | null;
+  count: number | null;
+};
+
+// Validates a { frequency, interval, until, count } body; returns the rule or an error message
+export const parseRecurrence = (
+  input: unknown
+): { rule: RecurrenceRule } | { error: string } => {
+  if (!input || typeof input !== "object") {
+    return { error: "recurrence must be an object" };
+  }
+  const fields = input as Record<string, unknown>;
+  const frequency = fields.frequency as Frequency;
+  if (!FREQUENCIES.includes(frequency)) {
+    return { error: `frequency must be one of ${FREQUENCIES.join(", ")}` };
+  }
+  const interval = fields.interval === undefined ? 1 : Number(fields.interval);
+  if (!Number.isInteger(interval) || interval < 1) {
+    return { error: "interval must be a positive whole number" };
+  }
+  const until =
+    typeof fields.until === "string" && fields.until
+      ? new Date(fields.until)
+      : null;
+  if (
+    (fields.until && typeof fields.until !== "string") ||
+    (until && Number.isNaN(until.getTime()))
+  ) {
+    return { error: "until must be a valid date" };
+  }
+  const count =
+    fields.count === undefined || fields.count === null
+      ? null
+      : Number(fields.count);
+  if (count !== null && (!Number.isInteger(count) || count < 1)) {
+    return { error: "count must be a positive whole number" };
+  }
+  return { rule: { frequency, interval, until, count } };
+};
+
+// Human readable form of a rule for the activity history, e.g. "weekly, every 2, 5 times"
+export const describeRecurrence = (
+  rule: {
+    frequency: string;
+    interval: number;
+    until: Date | null;
+    count: number | null;
+  } | null
+): string | null => {
+  if (!rule) return null;
+  const parts = [rule.frequency, `every ${rule.interval}`];
+  if (rule.until) parts.push(`until ${rule.until.toISOString().slice(0, 10)}`);
+  if (rule.count) parts.push(`${rule.count} times`);
+  return parts.join(", ");
+};
+
+// Monthly steps keep the day of month, falling back to the month's last day (Jan 31 -> Feb 28)
+const shiftDate = (date: Date, frequency: string, interval: number): Date => {
+  const result = new Date(date);
+  if (frequency === "daily") {
+    result.setUTCDate(result.getUTCDate() + interval);
+  } else if (frequency === "weekly") {
+    result.setUTCDate(result.getUTCDate() + 7 * interval);
+  } else {
+    const day = result.getUTCDate();
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + interval);
+    const lastDay = new Date(
+      Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    result.setUTCDate(Math.min(day, lastDay));
+  }
+  return result;
+};
+
+// Dates of the occurrence after the given one, or null once the series has ended
+const nextOccurrenceDates = (task: Task, series: TaskSeries) => {
+  const occurrence = (task.occurrence ?? 1) + 1;
+  if (series.count !== null && occurrence > series.count) return null;
+
+  const startDate =
+    task.startDate && shiftDate(task.startDate, series.frequency, series.interval);
+  const dueDate =
+    task.dueDate && shiftDate(task.dueDate, series.frequency, series.interval);
+  const opensAt = startDate ?? dueDate;
+  if (series.until && opensAt && opensAt > series.until) return null;
+
+  return { occurrence, startDate, dueDate, opensAt };
+};
+
+// Creates the occurrence following the given task from its current field values.
+// Returns null when the series has ended or that occurrence already exists.
+export const generateNextOccurrence = async (taskId: number) => {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      series: true,
+      taskAssignments: true,
+      taskTags: true,
+      checklistItems: { orderBy: { position: "asc" } },
+      customFieldValues: true,
+      watchers: true,
+    },
+  });
+  if (!task || !task.series) return null;
+
+  const next = nextOccurrenceDates(task, task.series);
+  if (!next) return null;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // New occurrences start over, whatever state the previous one ended in
+      const status = (await initialStatus(tx, task.projectId))?.name ?? null;
+      const created = await tx.task.create({
+        data: {
+          title: task.title,
+          description: task.description,
+          status,
+          priority: task.priority,
+          startDate: next.startDate,
+          dueDate: next.dueDate,
+          points: task.points,
+          estimateMinutes: task.estimateMinutes,
+          projectId: task.projectId,
+          authorUserId: task.authorUserId,
+          assignedUserId: task.assignedUserId,
+          parentTaskId: task.parentTaskId,
+          seriesId: task.seriesId,
+          occurrence: next.occurrence,
+          rank: await rankAtEnd(tx, task.projectId, status),
+          taskAssignments: {
+            create: task.taskAssignments.map(({ userId }) => ({ userId })),
+          },
+          // Whoever followed the last occurrence keeps following the series
+          watchers: {
+            create: task.watchers.map(({ userId }) => ({ userId })),
+          },
+          taskTags: {
+            create: task.taskTags.map(({ tagId }) => ({ tagId })),
+          },
+          checklistItems: {
+            create: task.checklistItems.map(({ text, position }) => ({
+              text,
+              position,
+            })),
+          },
+          customFieldValues: {
+            create: task.customFieldValues.map(
+              ({ fieldId, text, number, date, checked, selected }) => ({
+                fieldId,
+                text,
+                number,
+                date,
+                checked,
+                selected,
+              })
+            ),
+          },
+        },
+      });
+      // Generated by the schedule rather than by a person
+      await recordActivity(tx, created.id, null, "created");
+      return created;
+    });
+  } catch (error) {
+    // Completion and the periodic job can race for the same occurrence; the unique key keeps one
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Creates the next occurrence of every series whose next start (or due) date has arrived
+export const generateDueOccurrences = async (now: Date = new Date()) => {
+  // Archiving or deleting the latest occurrence ends its series, see services/trash
+  const latestOccurrences = await prisma.task.findMany({
+    where: { seriesId: { not: null }, ...activeTaskFilter },
+    include: { series: true },
+    distinct: ["seriesId"],
+    orderBy: [{ seriesId: "asc" }, { occurrence: "desc" }],
+  });
+
+  let created = 0;
+  for (const task of latestOccurrences) {
+    const next = task.series && nextOccurrenceDates(task, task.series);
+    if (next?.opensAt && next.opensAt <= now) {
+      if (await generateNextOccurrence(task.id)) created++;
+    }
+  }
+  return created;
+};
+
+// Starts, changes or stops the recurrence from this task on; earlier occurrences keep their rule
+export const applyRecurrenceChange = async (
+  tx: Prisma.TransactionClient,
+  task: Task,
+  rule: RecurrenceRule | null
+) => {
+  if (task.seriesId === null || task.occurrence === null) {
+    if (!rule) return;
+    const series = await tx.taskSeries.create({ data: rule });
+    await tx.task.update({
+      where: { id: task.id },
+      data: { seriesId: series.id, occurrence: 1 },
+    });
+    return;
+  }
+
+  if (!rule) {
+    // No occurrences are generated after this one
+    await tx.taskSeries.update({
+      where: { id: task.seriesId },
+      data: { count: task.occurrence },
+    });
+    return;
+  }
+
+  if (task.occurrence === 1) {
+    await tx.taskSeries.update({ where: { id: task.seriesId }, data: rule });
+    return;
+  }
+
+  // Split: the old series ends before this task and a new one continues from it
+  const series = await tx.taskSeries.create({ data: rule });
+  await tx.task.updateMany({
+    where: { seriesId: task.seriesId, occurrence: { gte: task.occurrence } },
+    data: {
+      seriesId: series.id,
+      occurrence: { decrement: task.occurrence - 1 },
+    },
+  });
+  await tx.taskSeries.update({
+    where: { id: task.seriesId },
+    data: { count: task.occurrence - 1 },
+  });
+};
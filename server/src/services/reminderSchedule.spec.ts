@@ -0,0 +1,48 @@
+// src/services/reminderSchedule.spec.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DAY_MS,
+  OVERDUE_WINDOW_DAYS,
+  reminderKindAt,
+} from "./reminderSchedule";
+
+const now = new Date("2024-05-10T09:00:00Z");
+
+const dueIn = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+const preferences = { reminderDaysBefore: [7, 1], remindOverdue: true };
+
+test("only the closest offset already reached counts", () => {
+  assert.equal(reminderKindAt(dueIn(0.5), now, preferences), "due:1");
+  assert.equal(reminderKindAt(dueIn(1), now, preferences), "due:1");
+  assert.equal(reminderKindAt(dueIn(3), now, preferences), "due:7");
+});
+
+test("nothing is due before the furthest offset", () => {
+  assert.equal(reminderKindAt(dueIn(7.5), now, preferences), null);
+  assert.equal(
+    reminderKindAt(dueIn(0.5), now, { ...preferences, reminderDaysBefore: [] }),
+    null
+  );
+});
+
+test("overdue tasks are reminded within the overdue window only", () => {
+  assert.equal(reminderKindAt(dueIn(0), now, preferences), "overdue");
+  assert.equal(
+    reminderKindAt(dueIn(-OVERDUE_WINDOW_DAYS), now, preferences),
+    "overdue"
+  );
+  assert.equal(
+    reminderKindAt(dueIn(-OVERDUE_WINDOW_DAYS - 0.5), now, preferences),
+    null
+  );
+});
+
+test("overdue reminders can be switched off", () => {
+  assert.equal(
+    reminderKindAt(dueIn(-1), now, { ...preferences, remindOverdue: false }),
+    null
+  );
+});
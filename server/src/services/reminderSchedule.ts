@@ -0,0 +1,40 @@
+// src/services/reminderSchedule.ts
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tasks stop being reminded about once they have been overdue this long, so switching reminders
+// on does not flood people with every task they ever let slip
+export const OVERDUE_WINDOW_DAYS = 7;
+
+export const MAX_REMINDER_DAYS = 30;
+
+export const REMINDER_CHANNELS = ["inApp", "email"] as const;
+
+export type ReminderChannelName = (typeof REMINDER_CHANNELS)[number];
+
+export type ReminderPreferences = {
+  reminderDaysBefore: number[];
+  remindOverdue: boolean;
+  reminderChannels: string[];
+};
+
+// The reminder due for a task at this moment under the user's preferences, or null. Of the
+// day offsets already reached only the closest one counts, so a task created the day before its
+// due date gets the one-day reminder and not the week-ahead one as well
+export const reminderKindAt = (
+  dueDate: Date,
+  now: Date,
+  preferences: Pick<ReminderPreferences, "reminderDaysBefore" | "remindOverdue">
+): string | null => {
+  const untilDue = dueDate.getTime() - now.getTime();
+  if (untilDue <= 0) {
+    return preferences.remindOverdue &&
+      -untilDue <= OVERDUE_WINDOW_DAYS * DAY_MS
+      ? "overdue"
+      : null;
+  }
+  const reached = preferences.reminderDaysBefore
+    .filter((days) => untilDue <= days * DAY_MS)
+    .sort((a, b) => a - b);
+  return reached.length > 0 ? `due:${reached[0]}` : null;
+};
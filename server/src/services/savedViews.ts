@@ -0,0 +1,79 @@
+// src/services/savedViews.ts
+
+import { Prisma } from "@prisma/client";
+import { parseTaskListQuery } from "./taskQuery";
+import { parseCustomFieldFilters } from "./customFields";
+
+// The GET /tasks filters a view can hold; customFields is what the query sends as cf[<fieldId>]
+const LIST_FILTER_KEYS = ["status", "priority", "assignee", "tag"] as const;
+const TEXT_FILTER_KEYS = [
+  "dueFrom",
+  "dueTo",
+  "startFrom",
+  "startTo",
+  "q",
+  "archived",
+] as const;
+
+export type ViewFilters = Partial<
+  Record<(typeof LIST_FILTER_KEYS)[number], string[]> &
+    Record<(typeof TEXT_FILTER_KEYS)[number], string> & {
+      customFields: Record<string, string | { from?: string; to?: string }>;
+    }
+>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Checks a view's filters the way GET /tasks would and drops the empty ones. Returns an error
+// message for anything the task list would reject, so a saved view always loads
+export const parseViewFilters = async (
+  input: unknown
+): Promise<{ filters: ViewFilters } | { error: string }> => {
+  if (!isPlainObject(input)) return { error: "filters must be an object" };
+  const allowed: string[] = [
+    ...LIST_FILTER_KEYS,
+    ...TEXT_FILTER_KEYS,
+    "customFields",
+  ];
+  const unknownKey = Object.keys(input).find((key) => !allowed.includes(key));
+  if (unknownKey) {
+    return {
+      error: `Unknown filter ${unknownKey}; use any of ${allowed.join(", ")}`,
+    };
+  }
+
+  const filters: ViewFilters = {};
+  for (const key of LIST_FILTER_KEYS) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (!Array.isArray(value)) return { error: `${key} must be a list` };
+    const items = value.map(String).filter(Boolean);
+    if (items.length > 0) filters[key] = items;
+  }
+  for (const key of TEXT_FILTER_KEYS) {
+    const value = input[key];
+    if (value === undefined || value === null || value === "") continue;
+    if (typeof value !== "string") return { error: `${key} must be text` };
+    filters[key] = value;
+  }
+  if (input.customFields !== undefined) {
+    if (!isPlainObject(input.customFields)) {
+      return { error: "customFields must map field ids to values" };
+    }
+    if (Object.keys(input.customFields).length > 0) {
+      filters.customFields = input.customFields as ViewFilters["customFields"];
+    }
+  }
+
+  const { customFields, ...query } = filters;
+  const parsed = parseTaskListQuery(query);
+  if ("error" in parsed) return parsed;
+  const customFieldFilters = await parseCustomFieldFilters(customFields);
+  if ("error" in customFieldFilters) return customFieldFilters;
+  return { filters };
+};
+
+export const savedViewInclude = {
+  user: { select: { userId: true, username: true } },
+} satisfies Prisma.SavedViewInclude;
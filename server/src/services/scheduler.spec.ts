@@ -0,0 +1,105 @@
+// src/services/scheduler.spec.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFakeClock, createScheduler, ScheduledJob } from "./scheduler";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const start = new Date("2024-05-10T09:00:00Z");
+
+// A job that records the time of each run
+const recordingJob = (name: string, intervalMs: number) => {
+  const runs: number[] = [];
+  const job: ScheduledJob = {
+    name,
+    intervalMs,
+    run: async (now) => {
+      runs.push(now.getTime() - start.getTime());
+    },
+  };
+  return { job, runs };
+};
+
+test("runs every job on the first tick and then once its interval has passed", async () => {
+  const clock = createFakeClock(start);
+  const hourly = recordingJob("hourly", HOUR_MS);
+  const daily = recordingJob("daily", 24 * HOUR_MS);
+  const { tick } = createScheduler([hourly.job, daily.job], clock);
+
+  await tick();
+  clock.advance(HOUR_MS - 1);
+  await tick();
+  clock.advance(1);
+  await tick();
+  clock.advance(23 * HOUR_MS);
+  await tick();
+
+  assert.deepEqual(hourly.runs, [0, HOUR_MS, 24 * HOUR_MS]);
+  assert.deepEqual(daily.runs, [0, 24 * HOUR_MS]);
+});
+
+test("skips a job that is still running", async () => {
+  const clock = createFakeClock(start);
+  let runs = 0;
+  let finish = () => {};
+  const { tick } = createScheduler(
+    [
+      {
+        name: "slow",
+        intervalMs: HOUR_MS,
+        run: () => {
+          runs += 1;
+          if (runs > 1) return Promise.resolve();
+          return new Promise<void>((resolve) => {
+            finish = resolve;
+          });
+        },
+      },
+    ],
+    clock
+  );
+
+  const first = tick();
+  clock.advance(2 * HOUR_MS);
+  await tick();
+  assert.equal(runs, 1);
+
+  finish();
+  await first;
+  await tick();
+  assert.equal(runs, 2);
+});
+
+test("a failing job does not stop the others and runs again on schedule", async () => {
+  const clock = createFakeClock(start);
+  const healthy = recordingJob("healthy", HOUR_MS);
+  let failures = 0;
+  const { tick } = createScheduler(
+    [
+      {
+        name: "failing",
+        intervalMs: HOUR_MS,
+        run: async () => {
+          failures += 1;
+          throw new Error("boom");
+        },
+      },
+      healthy.job,
+    ],
+    clock
+  );
+
+  const error = console.error;
+  console.error = () => {};
+  try {
+    await tick();
+    clock.advance(HOUR_MS);
+    await tick();
+  } finally {
+    console.error = error;
+  }
+
+  assert.equal(failures, 2);
+  assert.deepEqual(healthy.runs, [0, HOUR_MS]);
+});
@@ -0,0 +1,145 @@
+// src/services/sprints.ts
+
+import { Prisma, PrismaClient, Sprint } from "@prisma/client";
+import { DONE_CATEGORY } from "./projectStatuses";
+import { formatActivityValue } from "./taskActivity";
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SPRINT_STATES = ["planned", "active", "completed"] as const;
+
+export type SprintState = (typeof SPRINT_STATES)[number];
+
+type SprintClient = Prisma.TransactionClient | PrismaClient;
+
+// Returns an error message unless tasks of the project can be put into the sprint
+export const checkSprintAssignment = async (
+  client: SprintClient,
+  sprintId: number,
+  projectId: number
+): Promise<string | null> => {
+  const sprint = await client.sprint.findUnique({ where: { id: sprintId } });
+  if (!sprint || sprint.projectId !== projectId) {
+    return `Sprint ${sprintId} is not a sprint of this project`;
+  }
+  if (sprint.state === "completed") {
+    return `Sprint "${sprint.name}" is already completed`;
+  }
+  return null;
+};
+
+export type BurndownDay = {
+  date: string;
+  scopePoints: number | null;
+  completedPoints: number | null;
+  remainingPoints: number | null;
+  idealPoints: number;
+};
+
+type FieldHistory = { createdAt: Date; oldValue: string | null }[];
+
+// A field's value at a moment: the old value of the first change after it, or the current value
+const valueAt = (current: unknown, history: FieldHistory, at: Date) => {
+  const next = history.find((change) => change.createdAt > at);
+  return next ? next.oldValue : formatActivityValue(current);
+};
+
+// Replays the status, points and sprint history of every task that was ever in the sprint to get
+// its scope and done points at the end of each day. Days after today (or after the sprint was
+// completed) only carry the ideal line. Statuses count as done by their current category
+export const computeBurndown = async (
+  sprint: Sprint,
+  now: Date = new Date()
+) => {
+  const sprintKey = String(sprint.id);
+  // Tasks in the trash drop out of the chart, history included
+  const tasks = await prisma.task.findMany({
+    where: {
+      deletedAt: null,
+      OR: [
+        { sprintId: sprint.id },
+        {
+          activities: {
+            some: {
+              field: "sprintId",
+              OR: [{ oldValue: sprintKey }, { newValue: sprintKey }],
+            },
+          },
+        },
+      ],
+    },
+    include: {
+      activities: {
+        where: { field: { in: ["status", "points", "sprintId"] } },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      },
+    },
+  });
+  const doneStatuses = new Set(
+    (
+      await prisma.projectStatus.findMany({
+        where: { projectId: sprint.projectId, category: DONE_CATEGORY },
+      })
+    ).map((status) => status.name)
+  );
+
+  const histories = tasks.map((task) => {
+    const history = (field: string) =>
+      task.activities.filter((activity) => activity.field === field);
+    return {
+      task,
+      status: history("status"),
+      points: history("points"),
+      sprint: history("sprintId"),
+    };
+  });
+
+  const cutoff = new Date(
+    Math.min(now.getTime(), sprint.completedAt?.getTime() ?? Infinity)
+  );
+  const dayCount =
+    Math.floor(
+      (sprint.endDate.getTime() - sprint.startDate.getTime()) / DAY_MS
+    ) + 1;
+
+  const days: BurndownDay[] = [];
+  for (let index = 0; index < dayCount; index++) {
+    const dayStart = new Date(sprint.startDate.getTime() + index * DAY_MS);
+    const at = new Date(
+      Math.min(dayStart.getTime() + DAY_MS - 1, cutoff.getTime())
+    );
+    const isPast = dayStart <= cutoff;
+    let scope = 0;
+    let completed = 0;
+    if (isPast) {
+      for (const { task, status, points, sprint: sprintHistory } of histories) {
+        if (task.createdAt > at) continue;
+        if (valueAt(task.sprintId, sprintHistory, at) !== sprintKey) continue;
+        const taskPoints = Number(valueAt(task.points, points, at) ?? 0) || 0;
+        scope += taskPoints;
+        if (doneStatuses.has(valueAt(task.status, status, at) ?? "")) {
+          completed += taskPoints;
+        }
+      }
+    }
+    days.push({
+      date: dayStart.toISOString(),
+      scopePoints: isPast ? scope : null,
+      completedPoints: isPast ? completed : null,
+      remainingPoints: isPast ? scope - completed : null,
+      idealPoints: 0,
+    });
+  }
+
+  // The ideal line runs from the scope on the first day down to nothing on the last
+  const startScope = days[0]?.scopePoints ?? 0;
+  days.forEach((day, index) => {
+    day.idealPoints =
+      dayCount > 1
+        ? Math.round(startScope * (1 - index / (dayCount - 1)) * 10) / 10
+        : 0;
+  });
+  return days;
+};
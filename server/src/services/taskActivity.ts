@@ -0,0 +1,88 @@
+// src/services/taskActivity.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export type ActivityAction =
+  | "created"
+  | "updated"
+  | "assignee_added"
+  | "assignee_removed"
+  | "checklist_added"
+  | "checklist_updated"
+  | "checklist_removed"
+  | "checklist_reordered"
+  | "dependency_added"
+  | "dependency_removed"
+  | "comment_added"
+  | "comment_deleted"
+  | "archived"
+  | "unarchived"
+  | "deleted"
+  | "restored";
+
+export type FieldChange = {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+type ActivityClient = Prisma.TransactionClient | PrismaClient;
+
+// Values are kept as text so any field fits one column; dates as ISO strings, lists comma separated
+export const formatActivityValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(String).join(", ");
+  return String(value);
+};
+
+// Field-level changes between two versions of a record, limited to the given fields
+export const diffFields = <T extends Record<string, unknown>>(
+  before: T,
+  after: T,
+  fields: readonly (keyof T & string)[]
+): FieldChange[] =>
+  fields
+    .filter(
+      (field) =>
+        formatActivityValue(before[field]) !== formatActivityValue(after[field])
+    )
+    .map((field) => ({
+      field,
+      oldValue: before[field],
+      newValue: after[field],
+    }));
+
+// Appends one row per change, or a single row for actions without field changes
+export const recordActivity = async (
+  client: ActivityClient,
+  taskId: number,
+  actorUserId: number | null,
+  action: ActivityAction,
+  changes: FieldChange[] = []
+) => {
+  if (action === "updated" && changes.length === 0) return;
+  const rows =
+    changes.length > 0
+      ? changes.map(({ field, oldValue, newValue }) => ({
+          taskId,
+          actorUserId,
+          action,
+          field,
+          oldValue: formatActivityValue(oldValue),
+          newValue: formatActivityValue(newValue),
+        }))
+      : [{ taskId, actorUserId, action }];
+  await client.taskActivity.createMany({ data: rows });
+};
+
+export const getTaskActivity = (taskId: number) =>
+  prisma.taskActivity.findMany({
+    where: { taskId },
+    include: {
+      actor: { select: { userId: true, username: true, profilePictureUrl: true } },
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+  });
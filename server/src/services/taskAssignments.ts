@@ -0,0 +1,87 @@
+// src/services/taskAssignments.ts
+
+import { Prisma, PrismaClient, Task } from "@prisma/client";
+import { getProjectRole } from "../policies/accessPolicy";
+
+// Task.assignedUserId is kept as the primary assignee and always has a matching TaskAssignment row
+
+type AssignmentClient = Prisma.TransactionClient | PrismaClient;
+
+export const taskAssignmentsInclude = {
+  include: {
+    user: {
+      select: { userId: true, username: true, profilePictureUrl: true },
+    },
+  },
+} satisfies Prisma.Task$taskAssignmentsArgs;
+
+// Returns an error message unless every user exists and has a role on the project, since a task is
+// only assigned to people who can see it
+export const checkAssignees = async (
+  client: AssignmentClient,
+  userIds: number[],
+  projectId: number
+): Promise<string | null> => {
+  const users = await client.user.findMany({
+    where: { userId: { in: userIds } },
+  });
+  for (const userId of userIds) {
+    const user = users.find((candidate) => candidate.userId === userId);
+    if (!user) return `User ${userId} not found`;
+    if ((await getProjectRole(user, projectId)) === null) {
+      return `User "${user.username}" is not a member of this project`;
+    }
+  }
+  return null;
+};
+
+export const assignUser = (
+  tx: Prisma.TransactionClient,
+  taskId: number,
+  userId: number
+) =>
+  tx.taskAssignment.upsert({
+    where: { taskId_userId: { taskId, userId } },
+    create: { taskId, userId },
+    update: {},
+  });
+
+// Swaps the primary assignee's assignment when assignedUserId changes. Returns whether the new
+// primary assignee was not assigned to the task already, which is when they should be told
+export const replacePrimaryAssignee = async (
+  tx: Prisma.TransactionClient,
+  task: Task,
+  newUserId: number | null
+) => {
+  if (task.assignedUserId !== null && task.assignedUserId !== newUserId) {
+    await tx.taskAssignment.deleteMany({
+      where: { taskId: task.id, userId: task.assignedUserId },
+    });
+  }
+  if (newUserId === null) return false;
+  const existing = await tx.taskAssignment.findUnique({
+    where: { taskId_userId: { taskId: task.id, userId: newUserId } },
+  });
+  if (existing) return false;
+  await assignUser(tx, task.id, newUserId);
+  return true;
+};
+
+// Removes an assignee; if it was the primary one, the longest-standing remaining assignee takes over
+export const unassignUser = async (
+  tx: Prisma.TransactionClient,
+  task: Task,
+  userId: number
+) => {
+  await tx.taskAssignment.deleteMany({ where: { taskId: task.id, userId } });
+  if (task.assignedUserId !== userId) return;
+
+  const next = await tx.taskAssignment.findFirst({
+    where: { taskId: task.id },
+    orderBy: { id: "asc" },
+  });
+  await tx.task.update({
+    where: { id: task.id },
+    data: { assignedUserId: next ? next.userId : null },
+  });
+};
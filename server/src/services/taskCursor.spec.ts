@@ -0,0 +1,107 @@
+// src/services/taskCursor.spec.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { afterCursor, SortTerm } from "./taskCursor";
+
+type Row = Record<string, string | number | Date | null>;
+type Where = Record<string, unknown>;
+
+const rows: Row[] = [
+  { id: 1, rank: "a", dueDate: new Date("2024-05-01") },
+  { id: 2, rank: "b", dueDate: null },
+  { id: 3, rank: "c", dueDate: new Date("2024-05-01") },
+  { id: 4, rank: "d", dueDate: null },
+  { id: 5, rank: "e", dueDate: new Date("2024-04-01") },
+  { id: 6, rank: "f", dueDate: null },
+  { id: 7, rank: "g", dueDate: new Date("2024-06-01") },
+];
+
+const compare = (a: Row[string], b: Row[string]) =>
+  a instanceof Date && b instanceof Date
+    ? a.getTime() - b.getTime()
+    : a! < b!
+      ? -1
+      : a! > b!
+        ? 1
+        : 0;
+
+const isSame = (a: Row[string], b: Row[string]) =>
+  a === null || b === null ? a === b : compare(a, b) === 0;
+
+// Enough of Prisma's where semantics for the conditions afterCursor builds
+const matches = (row: Row, where: Where): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === "AND") {
+      return (condition as Where[]).every((part) => matches(row, part));
+    }
+    if (key === "OR") {
+      return (condition as Where[]).some((part) => matches(row, part));
+    }
+    const value = row[key];
+    if (
+      typeof condition !== "object" ||
+      condition === null ||
+      condition instanceof Date
+    ) {
+      return isSame(value, condition as Row[string]);
+    }
+    const { gt, lt } = condition as { gt?: Row[string]; lt?: Row[string] };
+    if (value === null) return false;
+    if (gt !== undefined) return compare(value, gt) > 0;
+    return compare(value, lt!) < 0;
+  });
+
+// Sorts the way the database does for the query: nulls last on nullable keys
+const sortRows = (sort: SortTerm[]) =>
+  [...rows].sort((a, b) => {
+    for (const { key, direction, nullable } of sort) {
+      const [x, y] = [a[key], b[key]];
+      if (nullable && (x === null || y === null)) {
+        if (x === y) continue;
+        return x === null ? 1 : -1;
+      }
+      const order = compare(x, y) * (direction === "asc" ? 1 : -1);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+
+// The order parseTaskListQuery builds for ?sort=dueDate or ?sort=-dueDate
+const byDueDate = (direction: SortTerm["direction"]): SortTerm[] => [
+  { key: "dueDate", direction, nullable: true },
+  { key: "rank", direction: "asc", nullable: false },
+  { key: "id", direction: "asc", nullable: false },
+];
+
+const pageThrough = (sort: SortTerm[], limit: number) => {
+  const ordered = sortRows(sort);
+  const seen: number[] = [];
+  let cursor: Row | undefined;
+  for (;;) {
+    const where = cursor ? afterCursor(sort, cursor) : {};
+    const page = ordered.filter((row) => matches(row, where as Where));
+    seen.push(...page.slice(0, limit).map((row) => row.id as number));
+    if (page.length <= limit) break;
+    cursor = page[limit - 1];
+  }
+  return { seen, expected: ordered.map((row) => row.id as number) };
+};
+
+test("pages across a task with a null due date", () => {
+  const { seen, expected } = pageThrough(byDueDate("asc"), 2);
+  assert.deepEqual(expected, [5, 1, 3, 7, 2, 4, 6]);
+  assert.deepEqual(seen, expected);
+});
+
+test("pages across null due dates when sorted descending", () => {
+  const { seen, expected } = pageThrough(byDueDate("desc"), 3);
+  assert.deepEqual(expected, [7, 1, 3, 5, 2, 4, 6]);
+  assert.deepEqual(seen, expected);
+});
+
+test("a cursor on a null due date only moves on to later nulls", () => {
+  const where = afterCursor(byDueDate("asc"), rows[1]) as Where;
+  const after = rows.filter((row) => matches(row, where)).map((row) => row.id);
+  assert.deepEqual(after, [4, 6]);
+});
@@ -0,0 +1,39 @@
+// src/services/taskCursor.ts
+
+import { Prisma } from "@prisma/client";
+
+// One key of a task list order; tasks without a value for a nullable key come after the rest
+export type SortTerm = {
+  key: string;
+  direction: Prisma.SortOrder;
+  nullable: boolean;
+};
+
+// The sort keys of the cursor task, which afterCursor compares against
+export const cursorSelect = (sort: SortTerm[]): Prisma.TaskSelect =>
+  Object.fromEntries(sort.map(({ key }) => [key, true]));
+
+type SortValue = string | number | Date | null;
+
+// Tasks that come after the cursor task in the list order. Prisma's own cursor compares with the
+// cursor's values, which never matches when one of them is null, so the NULL cases are spelled out:
+// after a value come greater values and then the nulls, and after a null only the next key decides
+export const afterCursor = (
+  sort: SortTerm[],
+  cursor: Record<string, unknown>
+): Prisma.TaskWhereInput => {
+  const branches: Prisma.TaskWhereInput[] = [];
+  const equalSoFar: Prisma.TaskWhereInput[] = [];
+  for (const { key, direction, nullable } of sort) {
+    const value = (cursor[key] ?? null) as SortValue;
+    if (value !== null) {
+      const beyond: Prisma.TaskWhereInput = {
+        [key]: direction === "asc" ? { gt: value } : { lt: value },
+      };
+      const after = nullable ? { OR: [beyond, { [key]: null }] } : beyond;
+      branches.push({ AND: [...equalSoFar, after] });
+    }
+    equalSoFar.push({ [key]: value });
+  }
+  return { OR: branches };
+};
@@ -0,0 +1,78 @@
+// src/services/taskDependencies.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { isDone, openTaskFilter, statusCategorySelect } from "./projectStatuses";
+import { liveTaskFilter } from "./trash";
+
+const prisma = new PrismaClient();
+
+const dependencyTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  ...statusCategorySelect,
+} satisfies Prisma.TaskSelect;
+
+// Include that loads a task's blockers for the blocked badge and the Gantt arrows. Tasks in the
+// trash neither block nor show up as blocked
+export const blockedByInclude = {
+  blockedBy: {
+    where: { blockingTask: liveTaskFilter },
+    include: { blockingTask: { select: dependencyTaskSelect } },
+  },
+} satisfies Prisma.TaskInclude;
+
+export const dependenciesInclude = {
+  ...blockedByInclude,
+  blocking: {
+    where: { blockedTask: liveTaskFilter },
+    include: { blockedTask: { select: dependencyTaskSelect } },
+  },
+} satisfies Prisma.TaskInclude;
+
+type TaskWithBlockers = {
+  blockedBy: { blockingTask: { workflowStatus: { category: string } | null } }[];
+};
+
+export const withBlockedState = <T extends TaskWithBlockers>(task: T) => ({
+  ...task,
+  isBlocked: task.blockedBy.some(
+    (dependency) => !isDone(dependency.blockingTask)
+  ),
+});
+
+// Linking blocking -> blocked closes a cycle when blocked already (transitively) blocks blocking
+export const wouldCreateCycle = async (
+  blockingTaskId: number,
+  blockedTaskId: number
+): Promise<boolean> => {
+  if (blockingTaskId === blockedTaskId) return true;
+
+  const visited = new Set<number>([blockedTaskId]);
+  let frontier = [blockedTaskId];
+  while (frontier.length > 0) {
+    const edges = await prisma.taskDependency.findMany({
+      where: { blockingTaskId: { in: frontier } },
+      select: { blockedTaskId: true },
+    });
+    frontier = [];
+    for (const { blockedTaskId: next } of edges) {
+      if (next === blockingTaskId) return true;
+      if (!visited.has(next)) {
+        visited.add(next);
+        frontier.push(next);
+      }
+    }
+  }
+  return false;
+};
+
+// Blockers of the task that are not completed yet
+export const getOpenBlockers = (taskId: number) =>
+  prisma.task.findMany({
+    where: {
+      blocking: { some: { blockedTaskId: taskId } },
+      AND: [openTaskFilter, liveTaskFilter],
+    },
+    select: dependencyTaskSelect,
+  });
@@ -0,0 +1,94 @@
+// src/services/taskEvents.ts
+
+import { Prisma, PrismaClient, User } from "@prisma/client";
+
+type TaskEventClient = Prisma.TransactionClient | PrismaClient;
+
+export type TaskEventActor = Pick<User, "userId" | "username">;
+
+type TaskSummary = { id: number; title: string };
+
+// Something that happened to a task. Controllers dispatch these instead of calling the
+// notification code themselves, so every feature that reacts to task changes hears the same events
+export type TaskEvent = { task: TaskSummary; actor: TaskEventActor } & (
+  | { type: "created"; assigneeIds: number[] }
+  | { type: "assigned"; userIds: number[] }
+  | {
+      type: "status_changed";
+      oldStatus: string | null;
+      newStatus: string | null;
+    }
+  | { type: "commented"; mentionedUserIds: number[] }
+  // A comment edit that mentions people the comment did not mention before
+  | { type: "mentioned"; userIds: number[] }
+);
+
+// Runs inside the dispatcher's client, so a subscriber that throws rolls the change back with
+// it. watcherIds already includes anyone the event made a watcher
+export type TaskEventSubscriber = (
+  client: TaskEventClient,
+  event: TaskEvent,
+  watcherIds: number[]
+) => Promise<void>;
+
+const subscribers: TaskEventSubscriber[] = [];
+
+// Returns a function that removes the subscriber again
+export const subscribeToTaskEvents = (subscriber: TaskEventSubscriber) => {
+  subscribers.push(subscriber);
+  return () => {
+    const index = subscribers.indexOf(subscriber);
+    if (index !== -1) subscribers.splice(index, 1);
+  };
+};
+
+export const watchTask = async (
+  client: TaskEventClient,
+  taskId: number,
+  userIds: number[]
+) => {
+  if (userIds.length === 0) return;
+  await client.taskWatcher.createMany({
+    data: Array.from(new Set(userIds)).map((userId) => ({ taskId, userId })),
+    skipDuplicates: true,
+  });
+};
+
+export const getWatcherIds = async (client: TaskEventClient, taskId: number) =>
+  (
+    await client.taskWatcher.findMany({
+      where: { taskId },
+      select: { userId: true },
+    })
+  ).map(({ userId }) => userId);
+
+// Authors, new assignees and commenters start watching the task
+const autoWatcherIds = (event: TaskEvent) => {
+  switch (event.type) {
+    case "created":
+      return [event.actor.userId, ...event.assigneeIds];
+    case "assigned":
+      return event.userIds;
+    case "commented":
+      return [event.actor.userId];
+    default:
+      return [];
+  }
+};
+
+// The one place task events go through: adds the automatic watchers, then hands the event and the
+// task's watchers to every subscriber in the order they subscribed
+export const dispatchTaskEvent = async (
+  client: TaskEventClient,
+  event: TaskEvent
+) => {
+  if (event.type === "status_changed" && event.oldStatus === event.newStatus) {
+    return;
+  }
+  await watchTask(client, event.task.id, autoWatcherIds(event));
+  if (subscribers.length === 0) return;
+  const watcherIds = await getWatcherIds(client, event.task.id);
+  for (const subscriber of subscribers) {
+    await subscriber(client, event, watcherIds);
+  }
+};
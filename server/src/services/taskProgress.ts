@@ -0,0 +1,119 @@
+// src/services/taskProgress.ts
+
+import { ChecklistItem, Prisma, PrismaClient } from "@prisma/client";
+import { isDone, statusCategorySelect } from "./projectStatuses";
+
+const prisma = new PrismaClient();
+
+type SubtaskSummary = {
+  id: number;
+  workflowStatus: { category: string } | null;
+  points: number | null;
+};
+
+type TaskWithChildren = {
+  workflowStatus: { category: string } | null;
+  points: number | null;
+  subtasks: SubtaskSummary[];
+  checklistItems: ChecklistItem[];
+};
+
+export type TaskProgress = {
+  checklistDone: number;
+  checklistTotal: number;
+  subtasksDone: number;
+  subtasksTotal: number;
+  completed: number;
+  total: number;
+  percent: number;
+  rollupPoints: number | null;
+};
+
+// Include that loads what computeProgress needs alongside a task
+export const progressInclude = {
+  subtasks: {
+    where: { deletedAt: null },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      priority: true,
+      points: true,
+      assignedUserId: true,
+      updatedAt: true,
+      ...statusCategorySelect,
+    },
+    orderBy: { id: "asc" },
+  },
+  checklistItems: { orderBy: { position: "asc" } },
+  ...statusCategorySelect,
+} satisfies Prisma.TaskInclude;
+
+// Checklist items and subtasks each count as one step; a task without steps is all or nothing
+export const computeProgress = (task: TaskWithChildren): TaskProgress => {
+  const checklistDone = task.checklistItems.filter((item) => item.isDone).length;
+  const checklistTotal = task.checklistItems.length;
+  const subtasksDone = task.subtasks.filter(isDone).length;
+  const subtasksTotal = task.subtasks.length;
+
+  const completed = checklistDone + subtasksDone;
+  const total = checklistTotal + subtasksTotal;
+  const percent =
+    total > 0
+      ? Math.round((completed / total) * 100)
+      : isDone(task)
+        ? 100
+        : 0;
+
+  // A parent's own estimate plus whatever its subtasks are estimated at
+  const estimates = [task.points, ...task.subtasks.map((subtask) => subtask.points)]
+    .filter((points): points is number => points !== null);
+  const rollupPoints =
+    estimates.length > 0 ? estimates.reduce((sum, points) => sum + points, 0) : null;
+
+  return {
+    checklistDone,
+    checklistTotal,
+    subtasksDone,
+    subtasksTotal,
+    completed,
+    total,
+    percent,
+    rollupPoints,
+  };
+};
+
+export const withProgress = <T extends TaskWithChildren>(task: T) => ({
+  ...task,
+  progress: computeProgress(task),
+});
+
+// Subtasks live in their parent's project and only one level deep; returns an error message otherwise
+export const validateParentTask = async (
+  taskId: number | null,
+  parentTaskId: number,
+  projectId: number
+): Promise<string | null> => {
+  if (taskId !== null && parentTaskId === taskId) {
+    return "A task cannot be its own parent";
+  }
+  const parent = await prisma.task.findUnique({ where: { id: parentTaskId } });
+  if (!parent || parent.deletedAt) {
+    return `Parent task ${parentTaskId} not found`;
+  }
+  if (parent.projectId !== projectId) {
+    return "Subtasks must belong to the same project as their parent";
+  }
+  if (parent.parentTaskId !== null) {
+    return "Subtasks cannot have subtasks of their own";
+  }
+  if (taskId !== null) {
+    const childCount = await prisma.task.count({
+      where: { parentTaskId: taskId },
+    });
+    if (childCount > 0) {
+      return "A task with subtasks cannot become a subtask";
+    }
+  }
+  return null;
+};
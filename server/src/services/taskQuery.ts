@@ -0,0 +1,267 @@
+// src/services/taskQuery.ts
+
+import { Request } from "express";
+import { Prisma, Tag, Task } from "@prisma/client";
+import { taskAssignmentsInclude } from "./taskAssignments";
+import { progressInclude, TaskProgress, withProgress } from "./taskProgress";
+import { blockedByInclude, withBlockedState } from "./taskDependencies";
+import { hasTagsFilter, parseTagNames, tagsInclude, withTags } from "./taskTags";
+import {
+  CustomFieldInputValue,
+  customFieldsInclude,
+  withCustomFields,
+} from "./customFields";
+import { timeEntriesInclude, withLoggedTime } from "./timeTracking";
+import { liveTaskFilter } from "./trash";
+import { SortTerm } from "./taskCursor";
+
+// Relation groups a task list can carry; ?fields= picks some of them, all are sent by default
+const TASK_FIELD_INCLUDES = {
+  author: { author: true },
+  assignee: { assignee: true },
+  assignees: { taskAssignments: taskAssignmentsInclude },
+  comments: { comments: true },
+  attachments: { attachments: true },
+  progress: progressInclude,
+  dependencies: blockedByInclude,
+  tags: tagsInclude,
+  series: { series: true },
+  customFields: customFieldsInclude,
+  time: timeEntriesInclude,
+} satisfies Record<string, Prisma.TaskInclude>;
+
+export type TaskField = keyof typeof TASK_FIELD_INCLUDES;
+
+const TASK_FIELDS = Object.keys(TASK_FIELD_INCLUDES) as TaskField[];
+
+type TaskIncludes = typeof TASK_FIELD_INCLUDES;
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (arg: U) => void : never
+) extends (arg: infer I) => void
+  ? I
+  : never;
+
+type TaskGroupsInclude = UnionToIntersection<TaskIncludes[TaskField]>;
+
+// The relations of every group, as Prisma loads them
+type TaskGroups = Omit<
+  Prisma.TaskGetPayload<{ include: TaskGroupsInclude }>,
+  keyof Task
+>;
+
+const SORT_KEYS = [
+  "rank",
+  "title",
+  "status",
+  "priority",
+  "startDate",
+  "dueDate",
+  "points",
+  "estimateMinutes",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+type SortKey = (typeof SORT_KEYS)[number];
+
+// Tasks without a value sort after the ones with one, whichever the direction
+const NULLABLE_SORT_KEYS: SortKey[] = [
+  "status",
+  "priority",
+  "startDate",
+  "dueDate",
+  "points",
+  "estimateMinutes",
+];
+
+export const MAX_PAGE_SIZE = 200;
+
+export type TaskListQuery = {
+  where: Prisma.TaskWhereInput;
+  orderBy: Prisma.TaskOrderByWithRelationInput[];
+  sort: SortTerm[];
+  // Only the picked groups are loaded; shapeTask takes the rows as ListedTask, which knows that
+  include: TaskGroupsInclude;
+  fields: TaskField[];
+  limit?: number;
+  cursor?: number;
+};
+
+// Query values may repeat (?status=a&status=b) or be comma separated
+const listParam = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : value === undefined ? [] : [value])
+    .flatMap((item) => String(item).split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const idListParam = (value: unknown) => listParam(value).map(Number);
+
+const dateParam = (value: unknown) =>
+  value === undefined || value === "" ? undefined : new Date(String(value));
+
+const isInvalidDate = (date: Date | undefined) =>
+  date !== undefined && Number.isNaN(date.getTime());
+
+// "-dueDate,title" sorts by due date descending, then title; rank and id always break ties
+const parseSort = (value: unknown): SortTerm[] | { error: string } => {
+  const sort: SortTerm[] = [];
+  for (const item of listParam(value)) {
+    const key = item.replace(/^[-+]/, "") as SortKey;
+    if (!SORT_KEYS.includes(key)) {
+      return { error: `Cannot sort by ${key}; use one of ${SORT_KEYS.join(", ")}` };
+    }
+    sort.push({
+      key,
+      direction: item.startsWith("-") ? "desc" : "asc",
+      nullable: NULLABLE_SORT_KEYS.includes(key),
+    });
+  }
+  return [
+    ...sort,
+    { key: "rank", direction: "asc", nullable: false },
+    { key: "id", direction: "asc", nullable: false },
+  ];
+};
+
+const toOrderBy = (sort: SortTerm[]): Prisma.TaskOrderByWithRelationInput[] =>
+  sort.map(({ key, direction, nullable }) => ({
+    [key]: nullable ? { sort: direction, nulls: "last" } : direction,
+  }));
+
+// Parses the filters, sort, field selection and page of GET /tasks; project scoping is left to the caller
+export const parseTaskListQuery = (
+  query: Request["query"]
+): TaskListQuery | { error: string } => {
+  const statuses = listParam(query.status);
+  const priorities = listParam(query.priority);
+  const assigneeIds = idListParam(query.assignee);
+  const involvingIds = idListParam(query.involving);
+  if ([...assigneeIds, ...involvingIds].some(Number.isNaN)) {
+    return { error: "assignee and involving take user ids" };
+  }
+  const dueFrom = dateParam(query.dueFrom);
+  const dueTo = dateParam(query.dueTo);
+  if (isInvalidDate(dueFrom) || isInvalidDate(dueTo)) {
+    return { error: "dueFrom and dueTo must be dates" };
+  }
+  const startFrom = dateParam(query.startFrom);
+  const startTo = dateParam(query.startTo);
+  if (isInvalidDate(startFrom) || isInvalidDate(startTo)) {
+    return { error: "startFrom and startTo must be dates" };
+  }
+  const text = typeof query.q === "string" ? query.q.trim() : "";
+  // ?sprint=none is the backlog: tasks that are in no sprint
+  const sprintId =
+    query.sprint === undefined
+      ? undefined
+      : query.sprint === "none"
+        ? null
+        : Number(query.sprint);
+  if (Number.isNaN(sprintId)) {
+    return { error: "sprint takes a sprint id or none" };
+  }
+
+  const sort = parseSort(query.sort);
+  if ("error" in sort) return sort;
+
+  const fields =
+    query.fields === undefined
+      ? TASK_FIELDS
+      : (listParam(query.fields) as TaskField[]);
+  const unknownField = fields.find((field) => !TASK_FIELDS.includes(field));
+  if (unknownField) {
+    return {
+      error: `Unknown field ${unknownField}; use any of ${TASK_FIELDS.join(", ")}`,
+    };
+  }
+
+  let limit: number | undefined;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+  }
+  const cursor = query.cursor !== undefined ? Number(query.cursor) : undefined;
+  if (cursor !== undefined && (limit === undefined || Number.isNaN(cursor))) {
+    return { error: "cursor must come from X-Next-Cursor and needs a limit" };
+  }
+
+  const isAssignedTo = (userIds: number[]): Prisma.TaskWhereInput[] => [
+    { assignedUserId: { in: userIds } },
+    { taskAssignments: { some: { userId: { in: userIds } } } },
+  ];
+  // Tasks in the trash are never listed; archived ones only with ?archived=true, and then alone
+  const conditions: Prisma.TaskWhereInput[] = [
+    liveTaskFilter,
+    { archivedAt: query.archived === "true" ? { not: null } : null },
+    ...hasTagsFilter(parseTagNames(query.tag)),
+  ];
+  if (statuses.length > 0) conditions.push({ status: { in: statuses } });
+  if (priorities.length > 0) conditions.push({ priority: { in: priorities } });
+  if (assigneeIds.length > 0) conditions.push({ OR: isAssignedTo(assigneeIds) });
+  // Authored by or assigned to the user, as on their own task pages
+  if (involvingIds.length > 0) {
+    conditions.push({
+      OR: [
+        { authorUserId: { in: involvingIds } },
+        ...isAssignedTo(involvingIds),
+      ],
+    });
+  }
+  if (sprintId !== undefined) conditions.push({ sprintId });
+  if (dueFrom || dueTo) conditions.push({ dueDate: { gte: dueFrom, lte: dueTo } });
+  if (startFrom || startTo) {
+    conditions.push({ startDate: { gte: startFrom, lte: startTo } });
+  }
+  if (text) {
+    conditions.push({
+      OR: [
+        { title: { contains: text, mode: "insensitive" } },
+        { description: { contains: text, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  return {
+    where: { AND: conditions },
+    orderBy: toOrderBy(sort),
+    sort,
+    include: Object.assign({}, ...fields.map((field) => TASK_FIELD_INCLUDES[field])),
+    fields,
+    limit,
+    cursor,
+  };
+};
+
+// A listed task carries the relations of the groups ?fields= picked and none of the others
+type ListedTask = Task & Partial<TaskGroups>;
+
+type DerivedFields = {
+  progress: TaskProgress;
+  isBlocked: boolean;
+  tags: Tag[];
+  customFields: Record<string, CustomFieldInputValue | null>;
+  loggedMinutes: number;
+};
+
+// Whether ?fields= picked the group, and with it whether its relations came along
+const hasGroup = <F extends TaskField>(
+  task: ListedTask,
+  fields: TaskField[],
+  field: F
+): task is ListedTask & Pick<TaskGroups, keyof TaskIncludes[F] & keyof TaskGroups> =>
+  fields.includes(field);
+
+// Adds the derived values (progress, isBlocked, flat tags, custom field values, logged minutes)
+// of the relation groups that were loaded
+export const shapeTask = (task: ListedTask, fields: TaskField[]) => {
+  let shaped: ListedTask & Partial<DerivedFields> = task;
+  if (hasGroup(shaped, fields, "progress")) shaped = withProgress(shaped);
+  if (hasGroup(shaped, fields, "dependencies")) shaped = withBlockedState(shaped);
+  if (hasGroup(shaped, fields, "tags")) shaped = withTags(shaped);
+  if (hasGroup(shaped, fields, "customFields")) shaped = withCustomFields(shaped);
+  if (hasGroup(shaped, fields, "time")) shaped = withLoggedTime(shaped);
+  return shaped;
+};
@@ -0,0 +1,45 @@
+// src/services/taskRank.ts
+
+import { Prisma } from "@prisma/client";
+import { rankBetween } from "../utils/rank";
+
+// Board columns and the list view order tasks this way; id breaks ties between equal ranks
+export const taskOrderBy = [
+  { rank: "asc" },
+  { id: "asc" },
+] satisfies Prisma.TaskOrderByWithRelationInput[];
+
+// Rank for a task appended to the bottom of a status column
+export const rankAtEnd = async (
+  tx: Prisma.TransactionClient,
+  projectId: number,
+  status: string | null
+) => {
+  const last = await tx.task.findFirst({
+    where: { projectId, status },
+    orderBy: { rank: "desc" },
+    select: { rank: true },
+  });
+  return rankBetween(last?.rank ?? null, null);
+};
+
+// Rank for a task placed directly below afterTask in a status column, or at its top without one
+export const rankAfter = async (
+  tx: Prisma.TransactionClient,
+  taskId: number,
+  projectId: number,
+  status: string | null,
+  afterTask: { rank: string } | null
+) => {
+  const next = await tx.task.findFirst({
+    where: {
+      projectId,
+      status,
+      id: { not: taskId },
+      ...(afterTask ? { rank: { gt: afterTask.rank } } : {}),
+    },
+    orderBy: taskOrderBy,
+    select: { rank: true },
+  });
+  return rankBetween(afterTask?.rank ?? null, next?.rank ?? null);
+};
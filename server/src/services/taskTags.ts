@@ -0,0 +1,81 @@
+// src/services/taskTags.ts
+
+import { Prisma, Tag } from "@prisma/client";
+
+// Include that loads a task's tags; withTags flattens them into a tags array
+export const tagsInclude = {
+  taskTags: { include: { tag: true } },
+} satisfies Prisma.TaskInclude;
+
+type TaskWithTags = { taskTags: { tag: Tag }[] };
+
+export const withTags = <T extends TaskWithTags>({ taskTags, ...task }: T) => ({
+  ...task,
+  tags: taskTags
+    .map(({ tag }) => tag)
+    .sort((a, b) => a.name.localeCompare(b.name)),
+});
+
+// Accepts an array of names or the legacy comma separated string
+export const parseTagNames = (input: unknown): string[] => {
+  const names = Array.isArray(input)
+    ? input.map(String)
+    : typeof input === "string"
+      ? input.split(",")
+      : [];
+  const seen = new Set<string>();
+  return names
+    .map((name) => name.trim())
+    .filter((name) => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Finds a project tag by name ignoring case, so "design" reuses an existing "Design"
+export const findTagByName = (
+  tx: Prisma.TransactionClient,
+  projectId: number,
+  name: string
+) =>
+  tx.tag.findFirst({
+    where: { projectId, name: { equals: name.trim(), mode: "insensitive" } },
+  });
+
+// Resolves names to the project's tags, creating the ones that do not exist yet
+export const resolveTags = async (
+  tx: Prisma.TransactionClient,
+  projectId: number,
+  names: string[]
+): Promise<Tag[]> => {
+  const tags: Tag[] = [];
+  for (const name of names) {
+    const existing = await findTagByName(tx, projectId, name);
+    tags.push(existing ?? (await tx.tag.create({ data: { projectId, name } })));
+  }
+  return tags;
+};
+
+// Replaces every tag of the task with the named ones from the given project
+export const setTaskTags = async (
+  tx: Prisma.TransactionClient,
+  taskId: number,
+  projectId: number,
+  names: string[]
+) => {
+  const tags = await resolveTags(tx, projectId, names);
+  await tx.taskTag.deleteMany({ where: { taskId } });
+  await tx.taskTag.createMany({
+    data: tags.map((tag) => ({ taskId, tagId: tag.id })),
+  });
+};
+
+// Tasks carrying every one of the named tags
+export const hasTagsFilter = (names: string[]): Prisma.TaskWhereInput[] =>
+  names.map((name) => ({
+    taskTags: {
+      some: { tag: { name: { equals: name, mode: "insensitive" } } },
+    },
+  }));
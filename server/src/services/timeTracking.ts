@@ -0,0 +1,94 @@
+// src/services/timeTracking.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+
+// Include that loads a task's finished entries; withLoggedTime sums them into loggedMinutes
+export const timeEntriesInclude = {
+  timeEntries: { select: { minutes: true } },
+} satisfies Prisma.TaskInclude;
+
+type TaskWithTimeEntries = { timeEntries: { minutes: number | null }[] };
+
+export const withLoggedTime = <T extends TaskWithTimeEntries>({
+  timeEntries,
+  ...task
+}: T) => ({
+  ...task,
+  loggedMinutes: timeEntries.reduce(
+    (total, entry) => total + (entry.minutes ?? 0),
+    0
+  ),
+});
+
+export const timeEntryInclude = {
+  user: { select: { userId: true, username: true } },
+  task: {
+    select: {
+      id: true,
+      title: true,
+      projectId: true,
+      project: { select: { name: true } },
+    },
+  },
+} satisfies Prisma.TimeEntryInclude;
+
+// Timers count every started minute, so a short session still shows up on the timesheet
+export const minutesBetween = (startedAt: Date, endedAt: Date) =>
+  Math.max(0, Math.ceil((endedAt.getTime() - startedAt.getTime()) / MINUTE_MS));
+
+export const getRunningTimer = (userId: number) =>
+  prisma.timeEntry.findFirst({
+    where: { userId, endedAt: null },
+    include: timeEntryInclude,
+  });
+
+// Closes the user's running timer, if any, and returns it
+export const stopRunningTimer = async (
+  tx: Prisma.TransactionClient,
+  userId: number,
+  now: Date = new Date()
+) => {
+  const running = await tx.timeEntry.findFirst({
+    where: { userId, endedAt: null },
+  });
+  if (!running) return null;
+  return tx.timeEntry.update({
+    where: { id: running.id },
+    data: { endedAt: now, minutes: minutesBetween(running.startedAt, now) },
+    include: timeEntryInclude,
+  });
+};
+
+// Estimated and logged minutes over the matching tasks, with the logged time split per user
+export const getTimeTotals = async (where: Prisma.TaskWhereInput) => {
+  const [estimate, logged, byUser] = await Promise.all([
+    prisma.task.aggregate({ where, _sum: { estimateMinutes: true } }),
+    prisma.timeEntry.aggregate({
+      where: { task: where },
+      _sum: { minutes: true },
+    }),
+    prisma.timeEntry.groupBy({
+      by: ["userId"],
+      where: { task: where },
+      _sum: { minutes: true },
+    }),
+  ]);
+  const users = await prisma.user.findMany({
+    where: { userId: { in: byUser.map((row) => row.userId) } },
+    select: { userId: true, username: true },
+  });
+  return {
+    estimateMinutes: estimate._sum.estimateMinutes ?? 0,
+    loggedMinutes: logged._sum.minutes ?? 0,
+    byUser: byUser.map((row) => ({
+      userId: row.userId,
+      username:
+        users.find((user) => user.userId === row.userId)?.username ?? null,
+      minutes: row._sum.minutes ?? 0,
+    })),
+  };
+};
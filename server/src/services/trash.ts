@@ -0,0 +1,170 @@
+// src/services/trash.ts
+
+import { Prisma, PrismaClient, Task } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+type TrashClient = Prisma.TransactionClient | PrismaClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// How long deleted tasks and projects can be restored before the purge job removes them for good.
+// TRASH_RETENTION_DAYS overrides the default
+export const trashRetentionDays = () => {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+export const purgeDateOf = (deletedAt: Date) =>
+  new Date(deletedAt.getTime() + trashRetentionDays() * DAY_MS);
+
+// Tasks that are not in the trash, on their own or with their project
+export const liveTaskFilter = {
+  deletedAt: null,
+  project: { deletedAt: null },
+} satisfies Prisma.TaskWhereInput;
+
+// What task lists show by default and the schedulers work on
+export const activeTaskFilter = {
+  ...liveTaskFilter,
+  archivedAt: null,
+} satisfies Prisma.TaskWhereInput;
+
+export const activeProjectFilter = {
+  archivedAt: null,
+  deletedAt: null,
+} satisfies Prisma.ProjectWhereInput;
+
+// Taking the latest occurrence of a repeating task out of play ends its series before it, so the
+// occurrence is not generated again, neither now nor once the purge has removed the row. Restoring
+// it does not restart the series; a new recurrence rule does
+const endSeriesBefore = async (client: TrashClient, task: Task) => {
+  if (task.seriesId === null || task.occurrence === null) return;
+  const later = await client.task.count({
+    where: {
+      seriesId: task.seriesId,
+      occurrence: { gt: task.occurrence },
+      ...activeTaskFilter,
+    },
+  });
+  if (later > 0) return;
+  await client.taskSeries.updateMany({
+    where: {
+      id: task.seriesId,
+      OR: [{ count: null }, { count: { gte: task.occurrence } }],
+    },
+    data: { count: task.occurrence - 1 },
+  });
+};
+
+// A task goes to the trash with its subtasks. They share the deletedAt, which is how restoring the
+// task brings back the subtasks deleted with it and not ones deleted earlier
+export const trashTask = async (client: TrashClient, task: Task, now: Date) => {
+  await endSeriesBefore(client, task);
+  return client.task.updateMany({
+    where: {
+      OR: [{ id: task.id }, { parentTaskId: task.id, deletedAt: null }],
+    },
+    data: { deletedAt: now },
+  });
+};
+
+export const restoreTask = (client: TrashClient, task: Task) =>
+  client.task.updateMany({
+    where: {
+      OR: [
+        { id: task.id },
+        { parentTaskId: task.id, deletedAt: task.deletedAt },
+      ],
+    },
+    data: { deletedAt: null },
+  });
+
+// Archiving works the same way: the subtasks archived with the task come back with it
+export const archiveTask = async (
+  client: TrashClient,
+  task: Task,
+  now: Date
+) => {
+  await endSeriesBefore(client, task);
+  return client.task.updateMany({
+    where: {
+      OR: [{ id: task.id }, { parentTaskId: task.id, archivedAt: null }],
+    },
+    data: { archivedAt: now },
+  });
+};
+
+export const unarchiveTask = (client: TrashClient, task: Task) =>
+  client.task.updateMany({
+    where: {
+      OR: [
+        { id: task.id },
+        { parentTaskId: task.id, archivedAt: task.archivedAt },
+      ],
+    },
+    data: { archivedAt: null },
+  });
+
+// Deletes the task rows for good. Comments, attachments and assignments have no cascading foreign
+// keys so they go first; everything else cascades, and subtasks left behind become top-level tasks
+const purgeTaskRows = async (client: TrashClient, taskIds: number[]) => {
+  if (taskIds.length === 0) return 0;
+  const where = { taskId: { in: taskIds } };
+  await client.comment.deleteMany({ where });
+  await client.attachment.deleteMany({ where });
+  await client.taskAssignment.deleteMany({ where });
+  const { count } = await client.task.deleteMany({
+    where: { id: { in: taskIds } },
+  });
+  return count;
+};
+
+// Purges a trashed task together with the subtasks that were deleted with it
+export const purgeTask = async (client: TrashClient, task: Task) => {
+  const subtasks = await client.task.findMany({
+    where: { parentTaskId: task.id, deletedAt: task.deletedAt },
+    select: { id: true },
+  });
+  return purgeTaskRows(client, [task.id, ...subtasks.map(({ id }) => id)]);
+};
+
+// Purges a trashed project with all of its tasks, whatever their own state
+export const purgeProject = async (client: TrashClient, projectId: number) => {
+  const tasks = await client.task.findMany({
+    where: { projectId },
+    select: { id: true },
+  });
+  await purgeTaskRows(
+    client,
+    tasks.map(({ id }) => id)
+  );
+  await client.projectTeam.deleteMany({ where: { projectId } });
+  await client.project.delete({ where: { id: projectId } });
+};
+
+// Removes everything that has been in the trash longer than the retention window; one project
+// or task batch per transaction so a failure leaves the rest for the next run
+export const purgeExpiredTrash = async (now: Date = new Date()) => {
+  const cutoff = new Date(now.getTime() - trashRetentionDays() * DAY_MS);
+  const projects = await prisma.project.findMany({
+    where: { deletedAt: { lte: cutoff } },
+    select: { id: true },
+  });
+  for (const project of projects) {
+    await prisma.$transaction((tx) => purgeProject(tx, project.id));
+  }
+  const tasks = await prisma.task.findMany({
+    where: { deletedAt: { lte: cutoff } },
+    select: { id: true },
+  });
+  const purgedTasks = await prisma.$transaction((tx) =>
+    purgeTaskRows(
+      tx,
+      tasks.map(({ id }) => id)
+    )
+  );
+  return { projects: projects.length, tasks: purgedTasks };
+};
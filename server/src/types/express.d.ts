@@ -1,8 +1,17 @@
 import 'multer';
+import { User } from '@prisma/client';
 
 declare module 'multer' {
   export interface File {
     location?: string; // Property added by multer-s3 for S3 file URL
     // Add other multer-s3 specific properties if needed, e.g., key: string;
   }
-}
\ No newline at end of file
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User; // Set by the authenticate middleware from the Cognito access token
+    }
+  }
+}
@@ -0,0 +1,13 @@
+// src/utils/mentions.ts
+
+// "@name" preceded by start of text or a non-word character, so emails are not treated as mentions
+const MENTION_PATTERN = /(?:^|[^\w@])@([A-Za-z0-9_.-]+)/g;
+
+export const extractMentions = (text: string): string[] => {
+  const usernames = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    // Trailing dots are sentence punctuation rather than part of the username
+    usernames.add(match[1].replace(/\.+$/, ""));
+  }
+  return Array.from(usernames);
+};
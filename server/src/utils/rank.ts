@@ -0,0 +1,27 @@
+// src/utils/rank.ts
+
+// Ranks are strings over these digits, compared as plain text; "" sorts before every rank
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+// A rank strictly between before and after (either may be open-ended), so a move only rewrites
+// the moved row. Never ends in "0", which keeps room below every rank it hands out.
+export const rankBetween = (
+  before: string | null,
+  after: string | null
+): string => {
+  const low = before ?? "";
+  // Out-of-order neighbours (e.g. two tasks created at once) fall back to "just after before"
+  let high = after !== null && after > low ? after : null;
+  let rank = "";
+  for (let i = 0; ; i++) {
+    const lowDigit = i < low.length ? DIGITS.indexOf(low[i]) : 0;
+    const highDigit =
+      high !== null && i < high.length ? DIGITS.indexOf(high[i]) : DIGITS.length;
+    if (highDigit - lowDigit > 1) {
+      return rank + DIGITS[Math.floor((lowDigit + highDigit) / 2)];
+    }
+    rank += DIGITS[lowDigit];
+    // Once below high's digit, anything longer than low fits under high
+    if (highDigit !== lowDigit) high = null;
+  }
+};
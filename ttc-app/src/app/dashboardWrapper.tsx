@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from 'react';
 import Navbar from '@/components/Navbar';
 import Sidebar from '@/components/Sidebar';
+import ConflictDialog from '@/components/ConflictDialog';
 import StoreProvider, { useAppSelector } from './redux';
 import { CognitoUserPool } from 'amazon-cognito-identity-js';
 import { useAuth } from '@/context/AuthContext';
@@ -34,6 +35,8 @@ const DashboardLayout = ({ children }: { children: React.ReactNode }) => {
         {/* Only render Navbar if user is authenticated */}
         {isAuthenticated && <Navbar />}
         {children}
+        {/* Resolves edits refused because someone else saved first */}
+        {isAuthenticated && <ConflictDialog />}
       </main>
     </div>
   );
@@ -4,6 +4,7 @@ import {
   Priority,
   Project,
   Task,
+  useGetProjectStatusesQuery,
   useGetProjectsQuery,
   useGetTasksQuery,
 } from "@/state/api";
@@ -43,6 +44,7 @@ const HomePage = () => {
   } = useGetTasksQuery({ projectId: parseInt("1") });
   const { data: projects, isLoading: isProjectsLoading } =
     useGetProjectsQuery();
+  const { data: statuses } = useGetProjectStatusesQuery(1);
 
   const isDarkMode = useAppSelector((state) => state.global.isDarkMode);
 
@@ -77,6 +79,13 @@ const HomePage = () => {
     count: statusCount[key],
   }));
 
+  // One bar per workflow status, in board order and in the status's own colour
+  const statusDistribution = (statuses ?? []).map((status) => ({
+    name: status.name,
+    color: status.color,
+    count: tasks.filter((task) => task.status === status.name).length,
+  }));
+
   const chartColors = isDarkMode
     ? {
         bar: "#8884d8",
@@ -137,6 +146,32 @@ const HomePage = () => {
             </PieChart>
           </ResponsiveContainer>
         </div>
+        <div className="rounded-lg bg-white p-4 shadow dark:bg-dark-secondary md:col-span-2">
+          <h3 className="mb-4 text-lg font-semibold dark:text-white">
+            Task Status Distribution
+          </h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={statusDistribution}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke={chartColors.barGrid}
+              />
+              <XAxis dataKey="name" stroke={chartColors.text} />
+              <YAxis allowDecimals={false} stroke={chartColors.text} />
+              <Tooltip
+                contentStyle={{
+                  width: "min-content",
+                  height: "min-content",
+                }}
+              />
+              <Bar dataKey="count">
+                {statusDistribution.map((entry) => (
+                  <Cell key={entry.name} fill={entry.color} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
         <div className="rounded-lg bg-white p-4 shadow dark:bg-dark-secondary md:col-span-2">
           <h3 className="mb-4 text-lg font-semibold dark:text-white">
             Your Tasks
@@ -4,8 +4,10 @@ import { useAppSelector } from '@/app/redux'
 import Header from '@/components/Header'
 import ModalNewTask from '@/components/ModalNewTask'
 import TaskCard from '@/components/TaskCard'
-import { dataGridClassName, dataGridSxStyles } from '@/lib/utils'
-import { Priority, Task, useGetAuthUserQuery, useGetTasksByUserQuery } from '@/state/api'
+import TagChip from '@/components/TagChip'
+import StatusChip from '@/components/StatusChip'
+import { dataGridClassName, dataGridSxStyles, getTaskAssignees } from '@/lib/utils'
+import { Priority, Tag, Task, useGetAuthUserQuery, useGetTaskPageQuery } from '@/state/api'
 import { DataGrid, GridColDef } from '@mui/x-data-grid'
 import React, { useState } from 'react'
 
@@ -29,9 +31,7 @@ const columns: GridColDef[] = [
       headerName: "Status",
       width: 130,
       renderCell: (params) =>(
-        <span className='inline-flex rounded-full bg-green-100 px-2 text-xs font-semibold leading-5 text-green-800'>
-          { params.value }
-        </span>
+        <StatusChip projectId={ params.row.projectId } name={ params.value } />
       )
     },
     {
@@ -42,7 +42,14 @@ const columns: GridColDef[] = [
     {
       field: "tags",
       headerName: "Tags",
-      width: 130,
+      width: 180,
+      renderCell: (params) => (
+        <div className='flex h-full items-center gap-1'>
+          { params.row.tags?.map(( tag: Tag ) => (
+            <TagChip key={ tag.id } tag={ tag } />
+          ))}
+        </div>
+      ),
     },
     {
       field: "startDate",
@@ -62,26 +69,38 @@ const columns: GridColDef[] = [
     },
     {
       field: "assignee",
-      headerName: "Assignee",
+      headerName: "Assignees",
       width: 150,
-      renderCell: (params) => params.value.username || "Unassigned",
+      renderCell: (params) =>
+        getTaskAssignees(params.row).map((user) => user.username).join(", ") || "Unassigned",
     }
   ]
+const PAGE_SIZE = 50;
+
     const ReusablePriorityPage = ({ priority }: Props) => {
     const [ view, setView ] = useState( "list" );
     const [ isModalNewTaskOpen, setIsModalNewTaskOpen ] = useState(false);
 
     const { data: currentUser } = useGetAuthUserQuery();
     const userId = currentUser?.userDetails?.userId ?? null;
-    const { data: tasks, isLoading, isError: isTasksError } = useGetTasksByUserQuery( userId || 0, {
+    // The server filters the user's tasks by priority and hands them out a page at a time
+    const [ cursor, setCursor ] = useState<string | undefined>( undefined );
+    const { data: taskPage, isLoading, isFetching, isError: isTasksError } = useGetTaskPageQuery({
+        involving: userId ?? undefined,
+        priority: [ priority ],
+        sort: "dueDate",
+        fields: [ "author", "assignee", "assignees", "comments", "attachments", "tags" ],
+        limit: PAGE_SIZE,
+        cursor,
+    }, {
         skip: userId === null
     })
 
     const isDarkMode = useAppSelector(( state ) => state.global.isDarkMode);
 
-    const filteredTasks = tasks?.filter(( task: Task) => task.priority === priority);
+    const filteredTasks = taskPage?.tasks;
 
-    if( isTasksError || !tasks ) return <div> Error fetching tasks</div>;
+    if( isTasksError || ( !isLoading && userId !== null && !taskPage )) return <div> Error fetching tasks</div>;
 
   return (
     <div className='m-5 p-4'>
@@ -135,6 +154,17 @@ const columns: GridColDef[] = [
                     )
                 )
             }
+            { taskPage?.nextCursor && (
+                <div className='mt-4 flex justify-center'>
+                    <button
+                        className='rounded bg-gray-200 px-4 py-2 hover:bg-gray-300 disabled:opacity-50 dark:bg-dark-tertiary dark:text-white'
+                        disabled={ isFetching }
+                        onClick={() => setCursor( taskPage.nextCursor ?? undefined )}
+                    >
+                        { isFetching ? "Loading..." : "Load more" }
+                    </button>
+                </div>
+            )}
     </div>
   )
 }
@@ -1,39 +1,58 @@
-import { useGetTasksQuery, useUpdateTaskStatusMutation } from '@/state/api';
-import React from 'react'
-import { DndProvider, useDrag, useDrop } from "react-dnd";
+import { ProjectStatus, TaskFilters, useGetPermissionsQuery, useGetProjectStatusesQuery, useGetTasksQuery, useMoveTaskMutation, useUpdateProjectStatusMutation } from '@/state/api';
+import React, { useRef, useState } from 'react'
+import { DndProvider, DropTargetMonitor, useDrag, useDrop } from "react-dnd";
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { Task as TaskType } from '@/state/api';
-import { EllipsisVertical, MessageSquareMore, Plus } from 'lucide-react';
+import { EllipsisVertical, Lock, MessageSquareMore, Plus, Repeat, Timer } from 'lucide-react';
 import { format } from "date-fns";
 import Image from 'next/image';
+import ModalTaskDetails from '@/components/ModalTaskDetails';
+import AvatarStack from '@/components/AvatarStack';
+import TagChip from '@/components/TagChip';
+import { formatMinutes, getTaskAssignees } from '@/lib/utils';
 
 type BoardProps = {
     id: string;
     setIsModalNewTaskOpen: ( isOpen: boolean ) => void;
+    filters: TaskFilters;
 };
 { /* REVIEW: 4:09:00 */}
-const taskStatus = [ "To Do", "Work In Progress", "Under Review", "Completed"];
-
-const BoardView = ({ id, setIsModalNewTaskOpen }: BoardProps ) => {
-    const { data: tasks, isLoading, error, } = useGetTasksQuery({ projectId: Number( id )});
-    const [ updateTaskStatus ] = useUpdateTaskStatusMutation();
-    const moveTask = ( taskId: number, toStatus: string) => {
-        updateTaskStatus({ taskId, status: toStatus });
+const BoardView = ({ id, setIsModalNewTaskOpen, filters }: BoardProps ) => {
+    const { data: tasks, isLoading, error, } = useGetTasksQuery({ projectId: Number( id ), ...filters });
+    // Columns follow the project's workflow
+    const { data: statuses, isLoading: isStatusesLoading } = useGetProjectStatusesQuery( Number( id ));
+    const { data: access } = useGetPermissionsQuery({ projectId: Number( id ) });
+    const canCreateTask = access?.permissions.includes( "task:create" ) ?? false;
+    const canUpdateTask = access?.permissions.includes( "task:update" ) ?? false;
+    const canUpdateProject = access?.permissions.includes( "project:update" ) ?? false;
+    const [ moveTaskMutation ] = useMoveTaskMutation();
+    const moveTask = ( taskId: number, toStatus: string, afterTaskId: number | null ) => {
+        // The server refuses moves the workflow does not allow, and completing a task while one of its blockers is open.
+        // A task someone else changed since the board loaded comes back as a conflict for the conflict dialog
+        const version = tasks?.find(( task ) => task.id === taskId )?.updatedAt;
+        moveTaskMutation({ taskId, status: toStatus, afterTaskId, version })
+            .unwrap()
+            // Columns over their WIP limit still accept tasks unless the project enforces it
+            .then(( task ) => task.warning && window.alert( task.warning ))
+            .catch(( error ) => error?.status !== 409 && window.alert( error?.data?.message ?? "Could not move task" ));
     }
 
-    if (isLoading ) return <div> Loading... </div>
+    if (isLoading || isStatusesLoading ) return <div> Loading... </div>
     if( error ) return <div> An error occured While fetching tasks </div>
 
   return (
     <DndProvider backend={HTML5Backend}>
-    <div className="grid grid-cols-1 gap-4 p-4 md:grid-cols-2 xl:grid-cols-4">
-      {taskStatus.map((status) => (
+    <div className="grid auto-cols-[minmax(18rem,1fr)] grid-flow-col gap-4 overflow-x-auto p-4">
+      {statuses?.map((status) => (
         <TaskColumn
-          key={status}
+          key={status.id}
           status={status}
           tasks={tasks || []}
           moveTask={moveTask}
           setIsModalNewTaskOpen={setIsModalNewTaskOpen}
+          canCreateTask={canCreateTask}
+          canUpdateTask={canUpdateTask}
+          canUpdateProject={canUpdateProject}
         />
       ))}
     </div>
@@ -42,10 +61,13 @@ const BoardView = ({ id, setIsModalNewTaskOpen }: BoardProps ) => {
 }
 
 type TaskColumnProps = {
-    status: string;
+    status: ProjectStatus;
     tasks: TaskType[];
-    moveTask: (taskId: number, toStatus: string) => void;
+    moveTask: (taskId: number, toStatus: string, afterTaskId: number | null) => void;
     setIsModalNewTaskOpen: (isOpen: boolean) => void;
+    canCreateTask: boolean;
+    canUpdateTask: boolean;
+    canUpdateProject: boolean;
   };
   
   const TaskColumn = ({
@@ -53,23 +75,47 @@ type TaskColumnProps = {
     tasks,
     moveTask,
     setIsModalNewTaskOpen,
+    canCreateTask,
+    canUpdateTask,
+    canUpdateProject,
   }: TaskColumnProps) => {
+    // Tasks arrive in board order, so each column keeps the server's ranking
+    const columnTasks = tasks.filter(( task ) => task.status === status.name);
+
+    // Dropping on a card places the dragged task above or below it
+    const dropNextTo = ( draggedId: number, target: TaskType, placeBelow: boolean ) => {
+        if ( draggedId === target.id ) return;
+        const others = columnTasks.filter(( task ) => task.id !== draggedId );
+        const afterTask = placeBelow
+            ? target
+            : others[ others.findIndex(( task ) => task.id === target.id ) - 1 ];
+        moveTask( draggedId, status.name, afterTask?.id ?? null );
+    };
+
     const [{ isOver }, drop] = useDrop(() => ({
       accept: "task",
-      drop: (item: { id: number }) => moveTask(item.id, status),
+      // Drops on empty column space append to the bottom
+      drop: (item: { id: number }, monitor) => {
+        if ( monitor.didDrop() ) return;
+        const others = columnTasks.filter(( task ) => task.id !== item.id );
+        moveTask(item.id, status.name, others[ others.length - 1 ]?.id ?? null);
+      },
       collect: (monitor: any) => ({
         isOver: !!monitor.isOver(),
       }),
-    }));
+    }), [ columnTasks, moveTask, status.name ]);
 
-    const tasksCount = tasks.filter(( task ) => task.status === status).length;
+    const tasksCount = columnTasks.length;
+    const isOverLimit = status.wipLimit !== null && tasksCount > status.wipLimit;
+    const [ isMenuOpen, setIsMenuOpen ] = useState( false );
+    const [ wipLimit, setWipLimit ] = useState( "" );
+    const [ updateStatus ] = useUpdateProjectStatusMutation();
 
-    const statusColor: any = {
-        "To Do": "#2563EB",
-        "Work In Progress": "#059669",
-        "Under Review": "#D97706",
-        Completed: "#000000",
-    };
+    const saveWipLimit = ( limit: number | null ) =>
+        updateStatus({ projectId: status.projectId, statusId: status.id, wipLimit: limit })
+            .unwrap()
+            .then(() => setIsMenuOpen( false ))
+            .catch(( error ) => window.alert( error?.data?.message ?? "Could not set the WIP limit" ));
 
     return(
         <div 
@@ -79,55 +125,117 @@ type TaskColumnProps = {
             className={ `sl:py-4 rounded-lg py-2 xl:px-2 ${ isOver ? "bg-blue-100 dark:bg-neutral-950" : "" }`}
         >
             <div className='mb-3 flex w-full'>
-                <div className={ `w-2 !bg-[${statusColor[status]}] rounded-s-lg` }
-                     style={{backgroundColor: statusColor[ status ] }}
+                <div className='w-2 rounded-s-lg'
+                     style={{backgroundColor: status.color }}
                 />
-                <div className='flex w-full items-center justify-between rounded-e-lg bg-white px-5 py-4 dark:bg-dark-secondary'>
+                <div className={ `flex w-full items-center justify-between rounded-e-lg px-5 py-4 ${
+                    isOverLimit ? "bg-red-100 dark:bg-red-950" : "bg-white dark:bg-dark-secondary"
+                }` }>
                     <h3 className='flex items-center text-lg font-semibold dark:text-white'>
-                        { status }{ " " }
-                        <span className='ml-2 inline-block rounded-full bg-gray-200 p-1 text-center text-sm leading-none dark:bg-dark-tertiary' 
-                            style = {{ width: "1.5rem", height: "1.4.rem" }}
+                        { status.name }{ " " }
+                        <span className={ `ml-2 inline-block rounded-full p-1 text-center text-sm leading-none ${
+                                isOverLimit ? "bg-red-500 text-white" : "bg-gray-200 dark:bg-dark-tertiary"
+                            }` }
+                            style = {{ minWidth: "1.5rem", height: "1.4.rem" }}
+                            title={ status.wipLimit !== null ? `WIP limit ${ status.wipLimit }` : undefined }
                         >
-                            { tasksCount }
+                            { status.wipLimit !== null ? `${ tasksCount }/${ status.wipLimit }` : tasksCount }
                         </span>
                     </h3>
-                    <div className='flex items-center gap-1'>
-                        <button className='flex h-6 w-5 items-center justify-center dark:text-neutral-500'>
-                            <EllipsisVertical size={ 26 } />
-                        </button>
-                        <button className='flex h-6 w-6 items-center justify-center rounded bg-gray-200 dark:bg-dark-tertiary dark:text-white'
-                            onClick={() => setIsModalNewTaskOpen( true )}
+                    <div className='relative flex items-center gap-1'>
+                        <button className='flex h-6 w-5 items-center justify-center disabled:opacity-50 dark:text-neutral-500'
+                            disabled={ !canUpdateProject }
+                            onClick={() => {
+                                setWipLimit( status.wipLimit !== null ? String( status.wipLimit ) : "" );
+                                setIsMenuOpen( !isMenuOpen );
+                            }}
                         >
-                            <Plus size = { 16 } />
+                            <EllipsisVertical size={ 26 } />
                         </button>
+                        { isMenuOpen && (
+                            <form className='absolute right-0 top-8 z-10 w-52 rounded-md bg-white p-3 shadow-lg dark:bg-dark-tertiary'
+                                onSubmit={( e ) => {
+                                    e.preventDefault();
+                                    saveWipLimit( wipLimit ? Number( wipLimit ) : null );
+                                }}
+                            >
+                                <label className='mb-1 block text-sm font-semibold dark:text-white'>
+                                    WIP limit
+                                </label>
+                                <input type='number' min={ 1 }
+                                    className='mb-2 w-full rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-secondary dark:bg-dark-secondary dark:text-white'
+                                    placeholder='No limit'
+                                    value={ wipLimit }
+                                    onChange={( e ) => setWipLimit( e.target.value )}
+                                />
+                                <div className='flex justify-end gap-2'>
+                                    { status.wipLimit !== null && (
+                                        <button type='button' className='text-sm text-gray-500 hover:text-gray-700 dark:text-neutral-400'
+                                            onClick={() => saveWipLimit( null )}
+                                        >
+                                            Remove
+                                        </button>
+                                    )}
+                                    <button type='submit' className='rounded bg-blue-primary px-2 py-1 text-sm text-white hover:bg-blue-600'>
+                                        Save
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+                        { canCreateTask && (
+                            <button className='flex h-6 w-6 items-center justify-center rounded bg-gray-200 dark:bg-dark-tertiary dark:text-white'
+                                onClick={() => setIsModalNewTaskOpen( true )}
+                            >
+                                <Plus size = { 16 } />
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
 
-            { tasks
-                .filter(( task ) => task.status === status)
-                .map(( task ) => (
-                    <Task key = { task.id } task = { task } />
-                ))
-            }
+            { columnTasks.map(( task ) => (
+                <Task
+                    key = { task.id }
+                    task = { task }
+                    canDrag = { canUpdateTask }
+                    onDropTask = {( draggedId, placeBelow ) => dropNextTo( draggedId, task, placeBelow )}
+                />
+            ))}
         </div>
     )
 }
 
 type TaskProps = {
     task: TaskType;
+    canDrag: boolean;
+    onDropTask: ( draggedId: number, placeBelow: boolean ) => void;
 };
 
-const Task = ({ task }: TaskProps ) => {
+const Task = ({ task, canDrag, onDropTask }: TaskProps ) => {
+    const cardRef = useRef<HTMLDivElement | null>( null );
+    const [ placeBelow, setPlaceBelow ] = useState( false );
+    const isLowerHalf = ( monitor: DropTargetMonitor ) => {
+        const rect = cardRef.current?.getBoundingClientRect();
+        const offset = monitor.getClientOffset();
+        return !!rect && !!offset && offset.y > rect.top + rect.height / 2;
+    };
+    const [{ isOver }, drop ] = useDrop(() => ({
+        accept: "task",
+        hover: ( item: { id: number }, monitor ) => setPlaceBelow( isLowerHalf( monitor )),
+        drop: ( item: { id: number }, monitor ) => onDropTask( item.id, isLowerHalf( monitor )),
+        collect: ( monitor ) => ({
+            isOver: monitor.isOver() && monitor.getItem<{ id: number }>()?.id !== task.id,
+        }),
+    }), [ onDropTask, task.id ]);
     const [{ isDragging }, drag ] = useDrag(() =>({
         type: "task",
         item: { id: task.id },
+        canDrag: () => canDrag,
         collect: ( monitor: any  ) => ({
             isDragging: !!monitor.isDragging(),
         }),
-    }));
-
-    const taskTagsSplit = task.tags ? task.tags.split(",") : [];
+    }), [ canDrag ]);
+    const [ isDetailsOpen, setIsDetailsOpen ] = useState(false);
 
     const formattedStartDate = task.startDate 
         ? format( new Date( task.startDate ), "P") 
@@ -139,6 +247,10 @@ const Task = ({ task }: TaskProps ) => {
 
     const numberOfComments = ( task.comments && task.comments.length ) || 0;
 
+    // Parents show their subtasks' estimates rolled into their own
+    const progress = task.progress;
+    const points = progress?.rollupPoints ?? task.points;
+
     const PriorityTag = ({ priority } : { priority: TaskType[ "priority" ]}) => (
         <div className={ `rounded-full px-2 py-1 text-xs font-semibold ${
             priority === "Urgent" 
@@ -159,12 +271,18 @@ const Task = ({ task }: TaskProps ) => {
     return(
         <div 
             ref = {( instance ) => {
-                drag( instance );
+                cardRef.current = instance;
+                drag( drop( instance ));
             }}
             className = { `mb-4 rounded-md bg-white shadow dark:bg-dark-secondary ${
                 isDragging ? "opacity-50" : "opacity-100"
-            }`}
+            } ${ isOver ? ( placeBelow ? "border-b-4" : "border-t-4" ) + " border-blue-primary" : "" }`}
         >
+            <ModalTaskDetails
+                isOpen = { isDetailsOpen }
+                onClose = {() => setIsDetailsOpen( false )}
+                taskId = { task.id }
+            />
             { task.attachments && task.attachments.length > 0 && (
                 <Image
                     src = { `https://mp-s3-images.s3.us-east-1.amazonaws.com/${task.attachments[ 0 ].fileURL }`}
@@ -177,31 +295,48 @@ const Task = ({ task }: TaskProps ) => {
             <div className='p-4 md:p-6'>
                 <div className='flex items-start justify-between'>
                     <div className='flex flex-1 flex-wrap items-center gap-2'>
+                        { task.isBlocked && (
+                            <div
+                                className='flex items-center gap-1 rounded-full bg-red-100 px-2 py-1 text-xs font-semibold text-red-700'
+                                title={ `Blocked by ${ task.blockedBy
+                                    ?.map(( dependency ) => dependency.blockingTask?.title )
+                                    .join( ", " ) }` }
+                            >
+                                <Lock size={ 12 } />
+                                Blocked
+                            </div>
+                        )}
                         { task.priority && <PriorityTag priority= { task.priority } />}
                         <div className='flex gap-2'>
-                            { taskTagsSplit.map(( tag ) => (
-                                <div 
-                                    key= { tag } 
-                                    className='rounded-full bg-blue-100 px-2 py-1 text-xs'
-                                >
-                                    { " " }
-                                    { tag }
-                                </div>
+                            { task.tags?.map(( tag ) => (
+                                <TagChip key= { tag.id } tag= { tag } />
                             ))}
                         </div>
                     </div>
-                    <button className='flex h-6 w-4 flex-shrink-0 items-center justify-center dark:text-neutral-500'>
+                    <button className='flex h-6 w-4 flex-shrink-0 items-center justify-center dark:text-neutral-500'
+                        onClick={() => setIsDetailsOpen( true )}
+                    >
                         <EllipsisVertical size = { 26 } />
                     </button>
                 </div>
 
                 <div className='my-3 flex justify-between'>
-                    <h4 className='text-md font-bold dark:text-white'>{ task.title }</h4>
-                    { typeof task.points === "number" && (
-                        <div className='text-xs font-semibold dark:text-white'>
-                            { task.points } pts
-                        </div>
-                    )}
+                    <h4 className='flex items-center gap-1 text-md font-bold dark:text-white'>
+                        { task.seriesId && <Repeat size={ 14 } className='flex-shrink-0 text-gray-500' /> }
+                        { task.title }
+                    </h4>
+                    <div className='flex flex-col items-end text-xs font-semibold dark:text-white'>
+                        { typeof points === "number" && <span>{ points } pts</span> }
+                        { !!task.loggedMinutes && (
+                            <span
+                                className='flex items-center gap-1 font-normal text-gray-500 dark:text-neutral-400'
+                                title={ task.estimateMinutes ? `Estimated ${ formatMinutes( task.estimateMinutes ) }` : undefined }
+                            >
+                                <Timer size={ 12 } />
+                                { formatMinutes( task.loggedMinutes ) }
+                            </span>
+                        )}
+                    </div>
                 </div>
 
                 <div className='text-xs text-gray-500 dark:text-neutral-500'>
@@ -211,32 +346,24 @@ const Task = ({ task }: TaskProps ) => {
                 <p className='text-xs text-gray-600 dark:text-neutral-500'>
                     { task.description }
                 </p>
+                { progress && progress.total > 0 && (
+                    <div className='mt-3'>
+                        <div className='mb-1 text-xs text-gray-500 dark:text-neutral-400'>
+                            { progress.completed }/{ progress.total } done
+                        </div>
+                        <div className='h-1.5 w-full rounded-full bg-gray-200 dark:bg-dark-tertiary'>
+                            <div
+                                className='h-1.5 rounded-full bg-blue-primary'
+                                style={{ width: `${ progress.percent }%` }}
+                            />
+                        </div>
+                    </div>
+                )}
                 <div className='mt-4 border-t border-gray-200 dark:border-stroke-dark' />
                 
                 { /* Users */ }
                 <div className='mt-3 flex items-center justify-between'>
-                    <div className='flex -space-x-[6px] overflow-hidden'>
-                        { task.assignee && (
-                            <Image 
-                                key= {task.assignee.userId }
-                                src = { `https://mp-s3-images.s3.us-east-1.amazonaws.com/${task.assignee.profilePictureUrl! }`} //! to makes sure it exisits
-                                alt = { task.assignee.username }
-                                width = { 30 }
-                                height = { 30 }
-                                className='h-8 w-8 rounded-full border-2 border-white object-cover dark:border-dark-secondary'
-                            />
-                        )}
-                        { task.author && (
-                            <Image 
-                                key= {task.author.userId }
-                                src = { `https://mp-s3-images.s3.us-east-1.amazonaws.com/${task.author.profilePictureUrl! }`} //! to makes sure it exisits
-                                alt = { task.author.username }
-                                width = { 30 }
-                                height = { 30 }
-                                className='h-8 w-8 rounded-full border-2 border-white object-cover dark:border-dark-secondary'
-                            />
-                        )}
-                    </div>
+                    <AvatarStack users = { getTaskAssignees( task ) } />
                     <div className='flex itemss-center text-gray-500 dark:text-neutral-500'>
                         <MessageSquareMore size={ 20 } />
                         <span className='ml-1 text-sm dark:text-neutral-400'>
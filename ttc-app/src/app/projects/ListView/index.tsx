@@ -1,15 +1,20 @@
 import Header from '@/components/Header';
 import TaskCard from "@/components/TaskCard";
-import { Task, useGetTasksQuery } from '@/state/api';
+import { Task, TaskFilters, useGetPermissionsQuery, useGetProjectStatusesQuery, useGetTasksQuery } from '@/state/api';
+import { sortByBoardOrder } from '@/lib/utils';
 import React from 'react'
 
 type Props = {
   id: string;
   setIsModalNewTaskOpen: ( isOpen: boolean ) => void;
+  filters: TaskFilters;
 };
 
-const ListView = ({ id, setIsModalNewTaskOpen }: Props) => {
-  const { data: tasks, error, isLoading } = useGetTasksQuery({ projectId: Number(id) });
+const ListView = ({ id, setIsModalNewTaskOpen, filters }: Props) => {
+  const { data: tasks, error, isLoading } = useGetTasksQuery({ projectId: Number(id), ...filters });
+  const { data: access } = useGetPermissionsQuery({ projectId: Number(id) });
+  const { data: statuses } = useGetProjectStatusesQuery(Number(id));
+  const canCreateTask = access?.permissions.includes("task:create") ?? false;
 
   if ( isLoading ) return <div>Loading...</div>;
   if ( error ) return <div>An Error occured while fetching list</div>
@@ -17,19 +22,19 @@ const ListView = ({ id, setIsModalNewTaskOpen }: Props) => {
     <div className='px-4 pb-8 xl:px-6'>
       <div className='pt-5'>
         <Header name="List" 
-          buttonComponent={ 
+          buttonComponent={ canCreateTask && (
             <button
               className='flex items-center rounded bg-blue-primary px-3 py-2 text-white hover:bg-blue-600'
               onClick={() => setIsModalNewTaskOpen(true)}
             >
               Add Task
             </button>
-          }
+          )}
           isSmallText
         />
       </div>
       <div className='grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3 lg:gap-6'>
-        { tasks?.map(( task:Task) => <TaskCard key={ task.id } task={ task } />)}
+        { sortByBoardOrder( tasks ?? [], statuses ?? [] ).map(( task:Task) => <TaskCard key={ task.id } task={ task } />)}
       </div>
     </div>
   )
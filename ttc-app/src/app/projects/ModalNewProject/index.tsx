@@ -1,5 +1,10 @@
 import Modal from "@/components/Modal";
-import { useCreateProjectMutation } from "@/state/api";
+import {
+  useCreateProjectMutation,
+  useDeleteTemplateMutation,
+  useGetAuthUserQuery,
+  useGetTemplatesQuery,
+} from "@/state/api";
 import React, { useState } from "react";
 import { formatISO } from "date-fns";
 
@@ -16,6 +21,15 @@ const ModalNewProject = ({ isOpen, onClose }: Props) => {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [school, setSchool] = useState("");
+  const [templateId, setTemplateId] = useState("");
+  const { data: templates } = useGetTemplatesQuery();
+  const { data: currentUser } = useGetAuthUserQuery();
+  const [deleteTemplate] = useDeleteTemplateMutation();
+  const template = templates?.find((t) => t.id === Number(templateId));
+  const canDeleteTemplate =
+    !!template &&
+    (currentUser?.userDetails?.isAdmin ||
+      template.createdById === currentUser?.userDetails?.userId);
 
   const handleSubmit = async () => {
     if (!projectName || !description || !startDate || !endDate || !school) return;
@@ -33,7 +47,25 @@ const ModalNewProject = ({ isOpen, onClose }: Props) => {
       startDate: formattedStartDate,
       endDate: formattedEndDate,
       school,
-    });
+      templateId: template?.id,
+    })
+      .unwrap()
+      .then(onClose)
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not create the project"),
+      );
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!template || !window.confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+    deleteTemplate(template.id)
+      .unwrap()
+      .then(() => setTemplateId(""))
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not delete the template"),
+      );
   };
 
   const isFormValid = () => {
@@ -168,6 +200,45 @@ const ModalNewProject = ({ isOpen, onClose }: Props) => {
             <option>Stetson University</option>
           </select>
         </div>
+        <div>
+          <label htmlFor="template" className="block text-sm font-medium text-gray-700">
+            Start from
+          </label>
+          <select
+            id="template"
+            className={`${inputStyles} mt-1`}
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+          >
+            <option value="">Blank project</option>
+            {templates?.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name} ({t.tasks.length} tasks)
+              </option>
+            ))}
+          </select>
+          {template && (
+            <div className="mt-1 flex items-start justify-between gap-2 text-xs text-gray-500 dark:text-neutral-400">
+              <span>
+                {template.description ||
+                  template.tasks
+                    .filter((task) => task.parentId === null)
+                    .map((task) => task.title)
+                    .join(", ")}
+                . Due dates follow the start and end dates below.
+              </span>
+              {canDeleteTemplate && (
+                <button
+                  type="button"
+                  className="shrink-0 text-red-500 hover:text-red-600"
+                  onClick={handleDeleteTemplate}
+                >
+                  Delete template
+                </button>
+              )}
+            </div>
+          )}
+        </div>
         <input
           type="text"
           className={inputStyles}
@@ -1,15 +1,92 @@
 import Header from '@/components/Header';
-import { Clock, Filter, Grid3x3, List, PlusSquare, Share2, Table } from 'lucide-react';
-import React, { useState } from 'react'
+import { Archive, BookmarkPlus, Clock, Filter, Grid3x3, List, PlusSquare, Search, Settings2, Share2, SlidersHorizontal, Table, Trash2, TrendingDown } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import React, { useEffect, useState } from 'react'
 import ModalNewProject from './ModalNewProject';
+import ModalProjectStatuses from '@/components/ModalProjectStatuses';
+import ModalCustomFields from '@/components/ModalCustomFields';
+import TaskFilterBuilder from '@/components/TaskFilterBuilder';
+import SavedViews from '@/components/SavedViews';
+import { SavedView, TaskFilters, useArchiveProjectMutation, useCreateTemplateMutation, useDeleteProjectMutation, useGetPermissionsQuery, useGetProjectTimeQuery } from '@/state/api';
+import { countTaskFilters, formatMinutes } from '@/lib/utils';
 
 type Props = {
   activeTab: string;
   setActiveTab: ( tabName: string ) => void
+  projectId?: number;
+  filters: TaskFilters;
+  onFiltersChange: ( filters: TaskFilters ) => void;
+  activeViewId: number | null;
+  onSelectView: ( view: SavedView | null ) => void;
 };
 
-const ProjectHeader = ({ activeTab, setActiveTab}: Props) => {
+// Typing in the search box refetches the tasks once the user pauses
+const SEARCH_DELAY_MS = 300;
+
+const ProjectHeader = ({ activeTab, setActiveTab, projectId, filters, onFiltersChange, activeViewId, onSelectView }: Props) => {
   const  [ isModalNewProjectOpen, setIsModalNewProjectOpen ] = useState(false);
+  const  [ isFilterOpen, setIsFilterOpen ] = useState(false);
+  const  [ searchText, setSearchText ] = useState( filters.q ?? "" );
+  const  [ isModalStatusesOpen, setIsModalStatusesOpen ] = useState(false);
+  const  [ isModalCustomFieldsOpen, setIsModalCustomFieldsOpen ] = useState(false);
+  const { data: access } = useGetPermissionsQuery({});
+  const canCreateProject = access?.permissions.includes("project:create") ?? false;
+  const { data: projectAccess } = useGetPermissionsQuery({ projectId }, { skip: !projectId });
+  const canEditProject = projectAccess?.permissions.includes("project:update") ?? false;
+  const canDeleteProject = projectAccess?.permissions.includes("project:delete") ?? false;
+  const [createTemplate] = useCreateTemplateMutation();
+  const [archiveProject] = useArchiveProjectMutation();
+  const [deleteProject] = useDeleteProjectMutation();
+  const router = useRouter();
+  const { data: time } = useGetProjectTimeQuery(projectId ?? 0, { skip: !projectId });
+
+  // A saved view or the back button can change the search from outside
+  useEffect(() => {
+    setSearchText( filters.q ?? "" );
+  }, [ filters.q ]);
+
+  useEffect(() => {
+    if ( searchText === ( filters.q ?? "" )) return;
+    const timeout = setTimeout(() => onFiltersChange({ ...filters, q: searchText || undefined }), SEARCH_DELAY_MS );
+    return () => clearTimeout( timeout );
+  }, [ searchText, filters, onFiltersChange ]);
+
+  // The filters are part of the page URL, so the link opens the same filtered view
+  const handleShare = () => {
+    navigator.clipboard.writeText( window.location.href )
+      .then(() => window.alert( "Link to this view copied" ))
+      .catch(() => window.prompt( "Copy the link to this view", window.location.href ));
+  };
+
+  const filterCount = countTaskFilters( filters );
+
+  // The template keeps the tasks, subtasks, tags and dates relative to this project's deadline
+  const handleSaveAsTemplate = () => {
+    if (!projectId) return;
+    const name = window.prompt("Template name");
+    if (!name?.trim()) return;
+    createTemplate({ projectId, name: name.trim() })
+      .unwrap()
+      .then((template) => window.alert(`Saved "${template.name}" with ${template.tasks.length} tasks`))
+      .catch((error) => window.alert(error?.data?.message ?? "Could not save the template"));
+  };
+
+  // Archived projects are unarchived, and deleted ones restored, from the Trash page
+  const handleArchive = () => {
+    if (!projectId || !window.confirm("Archive this project? Its tasks leave the lists until it is unarchived.")) return;
+    archiveProject( projectId )
+      .unwrap()
+      .then(() => router.push( "/trash" ))
+      .catch((error) => window.alert(error?.data?.message ?? "Could not archive the project"));
+  };
+
+  const handleDelete = () => {
+    if (!projectId || !window.confirm("Move this project and its tasks to the trash?")) return;
+    deleteProject( projectId )
+      .unwrap()
+      .then(() => router.push( "/trash" ))
+      .catch((error) => window.alert(error?.data?.message ?? "Could not delete the project"));
+  };
 
   return(
   <div className='px-4 xl:px-6'>
@@ -17,16 +94,38 @@ const ProjectHeader = ({ activeTab, setActiveTab}: Props) => {
     <ModalNewProject
         isOpen={isModalNewProjectOpen}
         onClose={() => setIsModalNewProjectOpen(false)} id={0}      />
+    { projectId && (
+      <>
+        <ModalProjectStatuses
+          isOpen={isModalStatusesOpen}
+          onClose={() => setIsModalStatusesOpen(false)}
+          projectId={projectId}
+        />
+        <ModalCustomFields
+          isOpen={isModalCustomFieldsOpen}
+          onClose={() => setIsModalCustomFieldsOpen(false)}
+          projectId={projectId}
+        />
+      </>
+    )}
 
     <div className='pb-6 pt-6 lg:pb-4 lg:pt-8'>
       <Header name = "Application Submission Dashboard"
-        buttonComponent={
+        buttonComponent={ canCreateProject && (
           <button className='flex items-center rounded-md bg-blue-primary px-3 py-2 text-white hver:bg-blue-600'
           onClick={() => setIsModalNewProjectOpen( true )}
         >
           <PlusSquare className='mr-2 h-5 w-5' /> New School
         </button>
-        }/>
+        )}/>
+      { time && ( time.loggedMinutes > 0 || time.estimateMinutes > 0 ) && (
+        <p
+          className='-mt-2 text-sm text-gray-500 dark:text-neutral-400'
+          title={ time.byUser.map(( row ) => `${ row.username ?? row.userId }: ${ formatMinutes( row.minutes ) }` ).join( "\n" ) }
+        >
+          { formatMinutes( time.loggedMinutes ) } logged of { formatMinutes( time.estimateMinutes ) } estimated
+        </p>
+      )}
     </div>
 
     {/* TABS */}
@@ -56,20 +155,94 @@ const ProjectHeader = ({ activeTab, setActiveTab}: Props) => {
           setActiveTab = { setActiveTab }
           activeTab = { activeTab }
           />
+        <TabButton 
+          name="Sprints"
+          icon = { <TrendingDown className='h-5 w-5' /> }
+          setActiveTab = { setActiveTab }
+          activeTab = { activeTab }
+          />
       </div>
       <div className='flex items-center gap-2'>
-        <button className='text-gray-500 hover:text-gray-600 dark:tet-neutral-500 dark:hover:text-gray-300'>
+        { canEditProject && (
+          <button className='text-gray-500 hover:text-gray-600 dark:text-neutral-500 dark:hover:text-gray-300'
+            onClick={() => setIsModalStatusesOpen( true )}
+            title='Edit workflow'
+          >
+            <Settings2 className='h-5 w-5' />
+          </button>
+        )}
+        { canEditProject && (
+          <button className='text-gray-500 hover:text-gray-600 dark:text-neutral-500 dark:hover:text-gray-300'
+            onClick={() => setIsModalCustomFieldsOpen( true )}
+            title='Edit custom fields'
+          >
+            <SlidersHorizontal className='h-5 w-5' />
+          </button>
+        )}
+        { canCreateProject && projectId && (
+          <button className='text-gray-500 hover:text-gray-600 dark:text-neutral-500 dark:hover:text-gray-300'
+            onClick={handleSaveAsTemplate}
+            title='Save as template'
+          >
+            <BookmarkPlus className='h-5 w-5' />
+          </button>
+        )}
+        { canEditProject && (
+          <button className='text-gray-500 hover:text-gray-600 dark:text-neutral-500 dark:hover:text-gray-300'
+            onClick={handleArchive}
+            title='Archive project'
+          >
+            <Archive className='h-5 w-5' />
+          </button>
+        )}
+        { canDeleteProject && (
+          <button className='text-gray-500 hover:text-red-500 dark:text-neutral-500 dark:hover:text-red-400'
+            onClick={handleDelete}
+            title='Move project to the trash'
+          >
+            <Trash2 className='h-5 w-5' />
+          </button>
+        )}
+        { projectId && (
+          <SavedViews
+            projectId={ projectId }
+            filters={ filters }
+            activeViewId={ activeViewId }
+            canShare={ canEditProject }
+            onSelect={ onSelectView }
+          />
+        )}
+        <button className={`relative hover:text-gray-600 dark:hover:text-gray-300 ${ isFilterOpen || filterCount > 0 ? 'text-blue-primary' : 'text-gray-500 dark:text-neutral-500' }`}
+          onClick={() => setIsFilterOpen( !isFilterOpen )}
+          title='Filter tasks'
+        >
           <Filter className='h-5 w-5' />
+          { filterCount > 0 && (
+            <span className='absolute -right-2 -top-2 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-blue-primary px-1 text-[10px] text-white'>
+              { filterCount }
+            </span>
+          )}
         </button>
-        <button className='text-gray-500 hover:text-gray-600 dark:tet-neutral-500 dark:hover:text-gray-300'>
+        <button className='text-gray-500 hover:text-gray-600 dark:text-neutral-500 dark:hover:text-gray-300'
+          onClick={handleShare}
+          title='Copy a link to this view'
+        >
           <Share2 className='h-5 w-5' />
         </button>
         <div className='relative'>
-          <input type='text' placeholder='Search Task' className='rounded-md border py-1 pl-10 pr-4 focus: outline-none dark:border-dark-secondary dark:bg-dark-secondary dark:text-white' />
-            <Grid3x3 className='absolute left-3 top-2 h-4 w-4 text-gray-400 dark:text-neutral-500' />
+          <input type='text' placeholder='Search Task' className='rounded-md border py-1 pl-10 pr-4 focus: outline-none dark:border-dark-secondary dark:bg-dark-secondary dark:text-white'
+            value={ searchText }
+            onChange={( e ) => setSearchText( e.target.value )}
+          />
+            <Search className='absolute left-3 top-2 h-4 w-4 text-gray-400 dark:text-neutral-500' />
         </div>
       </div>
     </div>
+    { isFilterOpen && projectId && (
+      <div className='pt-4'>
+        <TaskFilterBuilder projectId={ projectId } filters={ filters } onChange={ onFiltersChange } />
+      </div>
+    )}
   </div>
   );
 };
@@ -0,0 +1,458 @@
+import { useAppSelector } from "@/app/redux";
+import Header from "@/components/Header";
+import StatusChip from "@/components/StatusChip";
+import {
+  Sprint,
+  Task,
+  useCompleteSprintMutation,
+  useCreateSprintMutation,
+  useDeleteSprintMutation,
+  useGetPermissionsQuery,
+  useGetSprintBurndownQuery,
+  useGetSprintsQuery,
+  useGetTasksQuery,
+  useStartSprintMutation,
+  useUpdateTaskMutation,
+} from "@/state/api";
+import { addDays, format } from "date-fns";
+import { ArrowDown, ArrowUp, Play, Trash2 } from "lucide-react";
+import React, { useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+type Props = {
+  id: string;
+};
+
+// Edit conflicts are left to the conflict dialog
+const showError =
+  (fallback: string) =>
+  (error: { status?: unknown; data?: { message?: string } }) =>
+    error?.status !== 409 && window.alert(error?.data?.message ?? fallback);
+
+// Sprint dates are whole days, kept as UTC midnight like the burndown days
+const formatDay = (date: string) => format(new Date(date.slice(0, 10)), "PP");
+
+// The active sprint by default, else the next planned one, else the latest
+const defaultSprint = (sprints: Sprint[]) =>
+  sprints.find((sprint) => sprint.state === "active") ??
+  sprints.find((sprint) => sprint.state === "planned") ??
+  sprints[sprints.length - 1];
+
+const SprintView = ({ id }: Props) => {
+  const projectId = Number(id);
+  const isDarkMode = useAppSelector((state) => state.global.isDarkMode);
+  const { data: sprints, isLoading } = useGetSprintsQuery(projectId);
+  const { data: access } = useGetPermissionsQuery({ projectId });
+  const canManage = access?.permissions.includes("project:update") ?? false;
+  const canUpdateTasks = access?.permissions.includes("task:update") ?? false;
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const selected =
+    sprints?.find((sprint) => sprint.id === selectedId) ??
+    defaultSprint(sprints ?? []);
+
+  const { data: burndown } = useGetSprintBurndownQuery(
+    { projectId, sprintId: selected?.id ?? 0 },
+    { skip: !selected },
+  );
+  const { data: sprintTasks } = useGetTasksQuery(
+    { projectId, sprint: selected?.id, fields: [] },
+    { skip: !selected },
+  );
+  const { data: backlog } = useGetTasksQuery({
+    projectId,
+    sprint: "none",
+    fields: [],
+  });
+
+  const [createSprint, { isLoading: isCreating }] = useCreateSprintMutation();
+  const [startSprint] = useStartSprintMutation();
+  const [completeSprint] = useCompleteSprintMutation();
+  const [deleteSprint] = useDeleteSprintMutation();
+  const [updateTask] = useUpdateTaskMutation();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [goal, setGoal] = useState("");
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(
+    format(addDays(new Date(), 13), "yyyy-MM-dd"),
+  );
+  const [carryOverTo, setCarryOverTo] = useState("");
+
+  const openSprints = (sprints ?? []).filter(
+    (sprint) => sprint.state !== "completed" && sprint.id !== selected?.id,
+  );
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    createSprint({
+      projectId,
+      name: name.trim(),
+      goal: goal || undefined,
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+    })
+      .unwrap()
+      .then((sprint) => {
+        setSelectedId(sprint.id);
+        setIsFormOpen(false);
+        setName("");
+        setGoal("");
+      })
+      .catch(showError("Could not create the sprint"));
+  };
+
+  const handleComplete = (sprint: Sprint) => {
+    const target = openSprints.find(
+      (candidate) => candidate.id === Number(carryOverTo),
+    );
+    if (
+      !window.confirm(
+        `Complete "${sprint.name}"? Unfinished tasks move to ${
+          target ? `"${target.name}"` : "the backlog"
+        }.`,
+      )
+    ) {
+      return;
+    }
+    completeSprint({
+      projectId,
+      sprintId: sprint.id,
+      carryOverTo: target?.id ?? null,
+    })
+      .unwrap()
+      .then(() => setCarryOverTo(""))
+      .catch(showError("Could not complete the sprint"));
+  };
+
+  const handleDelete = (sprint: Sprint) => {
+    if (
+      !window.confirm(
+        `Delete "${sprint.name}"? Its tasks go back to the backlog.`,
+      )
+    ) {
+      return;
+    }
+    deleteSprint({ projectId, sprintId: sprint.id })
+      .unwrap()
+      .then(() => setSelectedId(null))
+      .catch(showError("Could not delete the sprint"));
+  };
+
+  const moveTask = (task: Task, sprintId: number | null) =>
+    updateTask({ taskId: task.id, sprintId, version: task.updatedAt })
+      .unwrap()
+      .catch(showError("Could not move the task"));
+
+  const chartColors = isDarkMode
+    ? { grid: "#303030", text: "#FFFFFF" }
+    : { grid: "#E0E0E0", text: "#000000" };
+  const chartData = (burndown ?? []).map((day) => ({
+    ...day,
+    label: format(new Date(day.date.slice(0, 10)), "MMM d"),
+  }));
+
+  const inputStyles =
+    "rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white";
+  const panelStyles = "rounded-lg bg-white p-4 shadow dark:bg-dark-secondary";
+
+  const renderTaskRow = (task: Task, action?: React.ReactNode) => (
+    <li
+      key={task.id}
+      className="flex items-center gap-2 border-b border-gray-100 py-2 text-sm last:border-0 dark:border-stroke-dark dark:text-white"
+    >
+      <span className="flex-1 truncate">{task.title}</span>
+      {task.status && <StatusChip projectId={projectId} name={task.status} />}
+      <span className="w-12 text-right text-gray-500 dark:text-neutral-400">
+        {task.points ?? 0} pts
+      </span>
+      {action}
+    </li>
+  );
+
+  if (isLoading) return <div>Loading...</div>;
+
+  return (
+    <div className="px-4 pb-8 xl:px-6">
+      <div className="pt-5">
+        <Header
+          name="Sprints"
+          buttonComponent={
+            canManage && (
+              <button
+                className="flex items-center rounded bg-blue-primary px-3 py-2 text-white hover:bg-blue-600"
+                onClick={() => setIsFormOpen(!isFormOpen)}
+              >
+                New Sprint
+              </button>
+            )
+          }
+          isSmallText
+        />
+      </div>
+
+      {isFormOpen && (
+        <form
+          className={`${panelStyles} mb-4 flex flex-wrap items-center gap-2`}
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <input
+            type="text"
+            className={inputStyles}
+            placeholder="Sprint name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            type="date"
+            className={inputStyles}
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+          <input
+            type="date"
+            className={inputStyles}
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+          <input
+            type="text"
+            className={`${inputStyles} flex-1`}
+            placeholder="Goal"
+            value={goal}
+            onChange={(e) => setGoal(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="rounded bg-blue-primary px-3 py-1 text-sm text-white hover:bg-blue-600 disabled:opacity-50"
+            disabled={!name.trim() || isCreating}
+          >
+            Create
+          </button>
+        </form>
+      )}
+
+      {!selected ? (
+        <div className="text-gray-500 dark:text-neutral-400">
+          No sprints yet
+        </div>
+      ) : (
+        <>
+          <div className="mb-4 flex flex-wrap gap-2">
+            {sprints?.map((sprint) => (
+              <button
+                key={sprint.id}
+                className={`rounded-full px-3 py-1 text-sm ${
+                  sprint.id === selected.id
+                    ? "bg-blue-primary text-white"
+                    : "bg-gray-200 dark:bg-dark-tertiary dark:text-white"
+                }`}
+                onClick={() => setSelectedId(sprint.id)}
+              >
+                {sprint.name}
+                {sprint.state === "active" && " ●"}
+              </button>
+            ))}
+          </div>
+
+          <div className={`${panelStyles} mb-4 dark:text-white`}>
+            <div className="flex flex-wrap items-center gap-3">
+              <h2 className="text-lg font-semibold">{selected.name}</h2>
+              <span className="rounded bg-gray-100 px-2 py-0.5 text-xs capitalize dark:bg-dark-tertiary">
+                {selected.state}
+              </span>
+              <span className="text-sm text-gray-500 dark:text-neutral-400">
+                {formatDay(selected.startDate)} – {formatDay(selected.endDate)}
+              </span>
+              <span className="text-sm text-gray-500 dark:text-neutral-400">
+                {selected.completedPoints} of {selected.points} points done ·{" "}
+                {selected.taskCount} tasks
+              </span>
+              {canManage && (
+                <div className="ml-auto flex items-center gap-2">
+                  {selected.state === "planned" && (
+                    <button
+                      className="flex items-center gap-1 rounded bg-blue-primary px-2 py-1 text-sm text-white hover:bg-blue-600"
+                      onClick={() =>
+                        startSprint({ projectId, sprintId: selected.id })
+                          .unwrap()
+                          .catch(showError("Could not start the sprint"))
+                      }
+                    >
+                      <Play size={14} />
+                      Start
+                    </button>
+                  )}
+                  {selected.state === "active" && (
+                    <>
+                      <select
+                        className={inputStyles}
+                        value={carryOverTo}
+                        onChange={(e) => setCarryOverTo(e.target.value)}
+                      >
+                        <option value="">Unfinished to backlog</option>
+                        {openSprints.map((sprint) => (
+                          <option key={sprint.id} value={sprint.id}>
+                            Unfinished to {sprint.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        className="rounded bg-green-600 px-2 py-1 text-sm text-white hover:bg-green-700"
+                        onClick={() => handleComplete(selected)}
+                      >
+                        Complete
+                      </button>
+                    </>
+                  )}
+                  {selected.state !== "completed" && (
+                    <button
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete sprint"
+                      onClick={() => handleDelete(selected)}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            {selected.goal && (
+              <p className="mt-2 text-sm text-gray-600 dark:text-neutral-300">
+                {selected.goal}
+              </p>
+            )}
+          </div>
+
+          <div className="mb-4 grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <div className={panelStyles}>
+              <h3 className="mb-4 text-lg font-semibold dark:text-white">
+                Burndown
+              </h3>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={chartData}>
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke={chartColors.grid}
+                  />
+                  <XAxis dataKey="label" stroke={chartColors.text} />
+                  <YAxis allowDecimals={false} stroke={chartColors.text} />
+                  <Tooltip />
+                  <Legend />
+                  <Line
+                    type="linear"
+                    dataKey="idealPoints"
+                    name="Ideal"
+                    stroke="#9CA3AF"
+                    strokeDasharray="5 5"
+                    dot={false}
+                  />
+                  <Line
+                    type="stepAfter"
+                    dataKey="remainingPoints"
+                    name="Remaining"
+                    stroke="#0088FE"
+                    connectNulls={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className={panelStyles}>
+              <h3 className="mb-4 text-lg font-semibold dark:text-white">
+                Burnup
+              </h3>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={chartData}>
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke={chartColors.grid}
+                  />
+                  <XAxis dataKey="label" stroke={chartColors.text} />
+                  <YAxis allowDecimals={false} stroke={chartColors.text} />
+                  <Tooltip />
+                  <Legend />
+                  <Line
+                    type="stepAfter"
+                    dataKey="scopePoints"
+                    name="Scope"
+                    stroke="#FF8042"
+                  />
+                  <Line
+                    type="stepAfter"
+                    dataKey="completedPoints"
+                    name="Completed"
+                    stroke="#00C49F"
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        {selected && (
+          <div className={panelStyles}>
+            <h3 className="mb-2 text-lg font-semibold dark:text-white">
+              In {selected.name}
+            </h3>
+            <ul>
+              {sprintTasks?.map((task) =>
+                renderTaskRow(
+                  task,
+                  canUpdateTasks && selected.state !== "completed" && (
+                    <button
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Move to backlog"
+                      onClick={() => moveTask(task, null)}
+                    >
+                      <ArrowDown size={16} />
+                    </button>
+                  ),
+                ),
+              )}
+            </ul>
+          </div>
+        )}
+        <div className={panelStyles}>
+          <h3 className="mb-2 text-lg font-semibold dark:text-white">
+            Backlog
+          </h3>
+          <ul>
+            {backlog?.map((task) =>
+              renderTaskRow(
+                task,
+                canUpdateTasks &&
+                  selected &&
+                  selected.state !== "completed" && (
+                    <button
+                      className="text-gray-400 hover:text-blue-600"
+                      title={`Move to ${selected.name}`}
+                      onClick={() => moveTask(task, selected.id)}
+                    >
+                      <ArrowUp size={16} />
+                    </button>
+                  ),
+              ),
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SprintView;
@@ -1,23 +1,34 @@
 import { useAppSelector } from '@/app/redux';
 import Header from '@/components/Header';
-import { dataGridClassName, dataGridSxStyles } from '@/lib/utils';
-import { useGetTasksQuery } from '@/state/api';
-import { DataGrid, GridColDef } from "@mui/x-data-grid";
-import React from 'react'
+import { dataGridClassName, dataGridSxStyles, formatCustomFieldValue, formatMinutes, getTagLabel, getTaskAssignees, splitTagNames } from '@/lib/utils';
+import { Priority, Tag, Task, TaskFilters, useGetCustomFieldsQuery, useGetPermissionsQuery, useGetTasksQuery, useUpdateTaskMutation } from '@/state/api';
+import { DataGrid, GridActionsCellItem, GridColDef, GridRowSelectionModel } from "@mui/x-data-grid";
+import ModalTaskDetails from '@/components/ModalTaskDetails';
+import BulkTaskToolbar from '@/components/BulkTaskToolbar';
+import TagChip from '@/components/TagChip';
+import StatusChip from '@/components/StatusChip';
+import { Pencil } from 'lucide-react';
+import React, { useState } from 'react'
+
+// Rows carry the edited tag text until it is saved
+type TableRow = Task & { tagNames?: string };
 
 type Props = {
     id: string;
     setIsModalNewTaskOpen: ( isOpen: boolean ) => void;
+    filters: TaskFilters;
   };
 
   const columns: GridColDef[] = [
     {
       field: "title",
+      editable: true,
       headerName: "Title",
       width: 100,
     },
     {
       field: "description",
+      editable: true,
       headerName: "Description",
       width: 250,
     },
@@ -26,20 +37,47 @@ type Props = {
       headerName: "Status",
       width: 130,
       renderCell: (params) =>(
-        <span className='inline-flex rounded-full bg-green-100 px-2 text-xs font-semibold leading-5 text-green-800'>
-          { params.value }
-        </span>
+        <StatusChip projectId={ params.row.projectId } name={ params.value } />
       )
     },
     {
       field: "priority",
       headerName: "Priority",
       width: 75,
+      editable: true,
+      type: "singleSelect",
+      valueOptions: Object.values(Priority),
     },
     {
+      // Edited as comma separated names, shown as chips
       field: "tags",
+      editable: true,
       headerName: "Tags",
-      width: 130,
+      width: 180,
+      valueGetter: (value, row: Task) => getTagLabel(row),
+      valueSetter: (value: string, row: TableRow) => ({ ...row, tagNames: value }),
+      renderCell: (params) => (
+        <div className='flex h-full items-center gap-1'>
+          { params.row.tags?.map(( tag: Tag ) => (
+            <TagChip key={ tag.id } tag={ tag } />
+          ))}
+        </div>
+      ),
+    },
+    {
+      field: "points",
+      headerName: "Points",
+      width: 70,
+      type: "number",
+    },
+    {
+      // Sorts by minutes, reads as "1h 30m / 3h" against the estimate
+      field: "loggedMinutes",
+      headerName: "Logged",
+      width: 110,
+      type: "number",
+      valueFormatter: (value: number | undefined, row: Task) =>
+        `${ formatMinutes( value ?? 0 ) }${ row.estimateMinutes ? ` / ${ formatMinutes( row.estimateMinutes ) }` : "" }`,
     },
     {
       field: "startDate",
@@ -59,42 +97,111 @@ type Props = {
     },
     {
       field: "assignee",
-      headerName: "Assignee",
+      headerName: "Assignees",
       width: 150,
-      renderCell: (params) => params.value?.username || "Unassigned",
+      renderCell: (params) =>
+        getTaskAssignees(params.row).map((user) => user.username).join(", ") || "Unassigned",
     }
   ]
 
-const TableView = ({ id, setIsModalNewTaskOpen }: Props) => {
+const TableView = ({ id, setIsModalNewTaskOpen, filters }: Props) => {
   const isDarkMode = useAppSelector(( state ) => state.global.isDarkMode);
-  const { data: tasks, error, isLoading } = useGetTasksQuery({ projectId: Number(id) });
+  const { data: tasks, error, isLoading } = useGetTasksQuery({ projectId: Number(id), ...filters });
+  const { data: access } = useGetPermissionsQuery({ projectId: Number(id) });
+  const { data: customFields } = useGetCustomFieldsQuery(Number(id));
+  const canCreateTask = access?.permissions.includes("task:create") ?? false;
+  const canUpdateTask = access?.permissions.includes("task:update") ?? false;
+  const canDeleteTask = access?.permissions.includes("task:delete") ?? false;
+  const [ updateTask ] = useUpdateTaskMutation();
+  const [ selectedTaskId, setSelectedTaskId ] = useState<number | null>(null);
+  const [ selection, setSelection ] = useState<GridRowSelectionModel>([]);
 
   if ( isLoading ) return <div>Loading...</div>;
   if ( error ) return <div>An error occured while fetching list</div>
 
+  const gridColumns: GridColDef[] = [
+    ...columns,
+    // One read-only column per custom field; numbers and amounts sort as numbers
+    ...( customFields ?? [] ).map(( field ): GridColDef => ({
+      field: `customField${ field.id }`,
+      headerName: field.name,
+      width: 140,
+      type: field.type === "number" || field.type === "currency" ? "number" : "string",
+      valueGetter: ( value, row: Task ) => row.customFields?.[ field.id ],
+      valueFormatter: ( value ) => formatCustomFieldValue( field, value ),
+    })),
+    {
+      field: "actions",
+      type: "actions",
+      width: 60,
+      getActions: (params) => [
+        <GridActionsCellItem
+          key="edit"
+          icon={ <Pencil size={ 16 } /> }
+          label="Edit"
+          onClick={() => setSelectedTaskId( Number( params.id ))}
+        />,
+      ],
+    },
+  ];
+
+  // Inline cell edits are saved field by field through the general task PATCH
+  const handleRowUpdate = async ( newRow: TableRow, oldRow: TableRow ) => {
+    const tagsChanged = newRow.tagNames !== undefined && newRow.tagNames !== getTagLabel( oldRow );
+    const updatedTask = await updateTask({
+      taskId: newRow.id,
+      version: oldRow.updatedAt,
+      title: newRow.title !== oldRow.title ? newRow.title : undefined,
+      description: newRow.description !== oldRow.description ? newRow.description : undefined,
+      priority: newRow.priority !== oldRow.priority ? newRow.priority : undefined,
+      tags: tagsChanged ? splitTagNames( newRow.tagNames ?? "" ) : undefined,
+    }).unwrap();
+    return { ...newRow, ...updatedTask, tagNames: undefined };
+  };
 
 
   return (
     <div className='h-[540px] w-full px-4 pb-8 xl:px-6'>
       <div className='pt-5'>
         <Header name='Table'
-          buttonComponent={ 
+          buttonComponent={ canCreateTask && (
             <button
               className='flex items-center rounded bg-blue-primary px-3 py-2 text-white hover:bg-blue-600'
               onClick={() => setIsModalNewTaskOpen(true)}
             >
               Add Task
             </button>
-          }
+          )}
         isSmallText />
       </div>
       
+      { selectedTaskId !== null && (
+        <ModalTaskDetails
+          isOpen
+          onClose={() => setSelectedTaskId( null )}
+          taskId={ selectedTaskId }
+        />
+      )}
+      { selection.length > 0 && (
+        <BulkTaskToolbar
+          projectId={ Number( id ) }
+          tasks={ ( tasks ?? [] ).filter(( task ) => selection.includes( task.id )) }
+          canDelete={ canDeleteTask }
+          onSelectionChange={ setSelection }
+        />
+      )}
       <DataGrid 
         rows = { tasks || [] }
-        columns = { columns }
+        columns = { gridColumns }
         className={ dataGridClassName}
         sx={ dataGridSxStyles(isDarkMode) }
-        
+        isCellEditable={() => canUpdateTask }
+        checkboxSelection={ canUpdateTask }
+        disableRowSelectionOnClick
+        rowSelectionModel={ selection }
+        onRowSelectionModelChange={ setSelection }
+        processRowUpdate={ handleRowUpdate }
+        onProcessRowUpdateError={( error ) => console.error( "Error updating task:", error )}
       />  
     </div>
   )
@@ -1,5 +1,5 @@
 import React, { useMemo, useState } from 'react'
-import { Task, useGetTasksQuery } from '@/state/api'
+import { Task, TaskFilters, useGetTasksQuery } from '@/state/api'
 import { useAppSelector } from '@/app/redux';
 import "gantt-task-react/dist/index.css";
 import { DisplayOption, Gantt, ViewMode } from "gantt-task-react";
@@ -7,13 +7,14 @@ import { DisplayOption, Gantt, ViewMode } from "gantt-task-react";
 type Props = {
     id: string;
     setIsModalNewTaskOpen: ( isOpen: boolean ) => void;
+    filters: TaskFilters;
   };
 
   type TaskTypeItems = "task" | "milestone" | "project";
 
-const Timeline = ({ id, setIsModalNewTaskOpen }: Props) => {
+const Timeline = ({ id, setIsModalNewTaskOpen, filters }: Props) => {
     const isDarkMode = useAppSelector(( state ) => state.global.isDarkMode);
-    const { data: tasks, error, isLoading } = useGetTasksQuery({ projectId: Number(id) });
+    const { data: tasks, error, isLoading } = useGetTasksQuery({ projectId: Number(id), fields: [ "dependencies" ], ...filters });
 
     const [ displayOptions, setDisplayOptions ] = useState<DisplayOption>({
         viewMode: ViewMode.Month,
@@ -29,6 +30,7 @@ const Timeline = ({ id, setIsModalNewTaskOpen }: Props) => {
                 id: `Task-${task.id}`,
                 type: "task" as TaskTypeItems,
                 progress: task.points ? ( task.points /10)* 100: 0,
+                dependencies: task.blockedBy?.map(( dependency ) => `Task-${dependency.blockingTaskId}`),
                 isDisabled: false
             })) || []
         )
@@ -1,12 +1,16 @@
 "use client";
 
-import React, { useState } from 'react'
+import React, { useCallback, useMemo, useState } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import ProjectHeader from '@/app/projects/ProjectHeader';
 import Board from '../BoardView';
 import List from '../ListView';
 import Timeline from '../TimleineView';
 import Table from '../TableView';
+import Sprints from '../SprintView';
 import ModalNewTask from '@/components/ModalNewTask';
+import { SavedView, TaskFilters, toTaskSearchParams } from '@/state/api';
+import { readTaskFilters } from '@/lib/utils';
 
 type Props = {
     params: { id: string }
@@ -16,6 +20,26 @@ const Project = ({ params }: Props) => {
     const { id } = params;
     const [ activeTab, setActiveTab ] = useState("Board");
     const [ isModalNewTaskOpen, setIsModalNewTaskOpen ] = useState(false);
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+
+    // The filters and the chosen saved view live in the query string, so a filtered page can be
+    // bookmarked, shared and restored with the back button
+    const filters = useMemo(() => readTaskFilters( searchParams ), [ searchParams ]);
+    const viewParam = searchParams.get( "view" );
+    const activeViewId = viewParam ? Number( viewParam ) : null;
+
+    const showFilters = useCallback(( next: TaskFilters, viewId: number | null ) => {
+      const params = new URLSearchParams( toTaskSearchParams( next ));
+      if ( viewId !== null ) params.set( "view", String( viewId ));
+      const query = params.toString();
+      router.replace( query ? `${ pathname }?${ query }` : pathname );
+    }, [ router, pathname ]);
+
+    // Editing the filters keeps the view selected, so its owner can save the changes into it
+    const handleFiltersChange = useCallback(( next: TaskFilters ) => showFilters( next, activeViewId ), [ showFilters, activeViewId ]);
+    const handleSelectView = ( view: SavedView | null ) => showFilters( view?.filters ?? {}, view?.id ?? null );
 
   return (
     <div>
@@ -25,18 +49,29 @@ const Project = ({ params }: Props) => {
         id={ id }
       />
       
-      <ProjectHeader activeTab = { activeTab } setActiveTab = { setActiveTab } />
+      <ProjectHeader
+        activeTab = { activeTab }
+        setActiveTab = { setActiveTab }
+        projectId = { Number( id ) }
+        filters = { filters }
+        onFiltersChange = { handleFiltersChange }
+        activeViewId = { activeViewId }
+        onSelectView = { handleSelectView }
+      />
       { activeTab === "Board" && (
-          <Board id={ id } setIsModalNewTaskOpen={ setIsModalNewTaskOpen } />
+          <Board id={ id } setIsModalNewTaskOpen={ setIsModalNewTaskOpen } filters={ filters } />
       )}
       { activeTab === "List" && (
-          <List id={ id } setIsModalNewTaskOpen={ setIsModalNewTaskOpen } />
+          <List id={ id } setIsModalNewTaskOpen={ setIsModalNewTaskOpen } filters={ filters } />
       )}
         { activeTab === "Timeline" && (
-          <Timeline id={ id } setIsModalNewTaskOpen={ setIsModalNewTaskOpen } />
+          <Timeline id={ id } setIsModalNewTaskOpen={ setIsModalNewTaskOpen } filters={ filters } />
       )}
       { activeTab === "Table" && (
-          <Table id={ id } setIsModalNewTaskOpen={ setIsModalNewTaskOpen } />
+          <Table id={ id } setIsModalNewTaskOpen={ setIsModalNewTaskOpen } filters={ filters } />
+      )}
+      { activeTab === "Sprints" && (
+          <Sprints id={ id } />
       )}
 
     </div>
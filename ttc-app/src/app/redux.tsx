@@ -7,6 +7,7 @@ import {
   Provider,
 } from "react-redux";
 import globalReducer from "@/state";
+import conflictsReducer from "@/state/conflicts";
 import { api } from "@/state/api";
 import { setupListeners } from "@reduxjs/toolkit/query";
 
@@ -50,6 +51,7 @@ const persistConfig = {
 };
 const rootReducer = combineReducers({
   global: globalReducer,
+  conflicts: conflictsReducer,
   [api.reducerPath]: api.reducer,
 });
 const persistedReducer = persistReducer(persistConfig, rootReducer);
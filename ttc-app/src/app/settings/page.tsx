@@ -1,4 +1,6 @@
 import Header from '@/components/Header';
+import ReminderSettings from '@/components/ReminderSettings';
+import NotificationSettings from '@/components/NotificationSettings';
 import React from 'react'
 
 
@@ -34,6 +36,14 @@ const Settings = () => {
                 <div className={ textStyles }>{ userSettings.roleName }</div>
             </div>
         </div>
+        <div className='mt-8'>
+            <Header name="Reminders" isSmallText />
+            <ReminderSettings />
+        </div>
+        <div className='mt-8'>
+            <Header name="Notifications" isSmallText />
+            <NotificationSettings />
+        </div>
     </div>
   )
 }
@@ -0,0 +1,223 @@
+"use client";
+
+import Header from "@/components/Header";
+import { formatMinutes } from "@/lib/utils";
+import {
+  TimeEntry,
+  useGetAuthUserQuery,
+  useGetCurrentTimerQuery,
+  useGetTimesheetQuery,
+  useGetUsersQuery,
+  useStopTimerMutation,
+} from "@/state/api";
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight, Square } from "lucide-react";
+import Link from "next/link";
+import React, { useMemo, useState } from "react";
+
+type Row = {
+  taskId: number;
+  title: string;
+  projectId: number;
+  projectName: string;
+  days: number[];
+  total: number;
+};
+
+// One row per task, one column per day; minutes of running timers are not counted yet
+const toRows = (entries: TimeEntry[], weekStart: Date): Row[] => {
+  const rows = new Map<number, Row>();
+  for (const entry of entries) {
+    const row = rows.get(entry.taskId) ?? {
+      taskId: entry.taskId,
+      title: entry.task?.title ?? `Task ${entry.taskId}`,
+      projectId: entry.task?.projectId ?? 0,
+      projectName: entry.task?.project.name ?? "",
+      days: Array(7).fill(0),
+      total: 0,
+    };
+    const day = differenceInCalendarDays(new Date(entry.startedAt), weekStart);
+    if (day >= 0 && day < 7) {
+      row.days[day] += entry.minutes ?? 0;
+      row.total += entry.minutes ?? 0;
+    }
+    rows.set(entry.taskId, row);
+  }
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      a.projectName.localeCompare(b.projectName) ||
+      a.title.localeCompare(b.title),
+  );
+};
+
+const Timesheet = () => {
+  const [weekStart, setWeekStart] = useState(() =>
+    startOfWeek(new Date(), { weekStartsOn: 1 }),
+  );
+  const [userId, setUserId] = useState("");
+  const { data: authData } = useGetAuthUserQuery();
+  const isAdmin = authData?.userDetails?.isAdmin ?? false;
+  const { data: users } = useGetUsersQuery(undefined, { skip: !isAdmin });
+  const { data: entries, isLoading } = useGetTimesheetQuery({
+    from: weekStart.toISOString(),
+    to: addDays(weekStart, 7).toISOString(),
+    userId: userId ? Number(userId) : undefined,
+  });
+  const { data: timer } = useGetCurrentTimerQuery();
+  const [stopTimer, { isLoading: isStopping }] = useStopTimerMutation();
+
+  const rows = useMemo(
+    () => toRows(entries ?? [], weekStart),
+    [entries, weekStart],
+  );
+  const days = Array.from({ length: 7 }, (_, index) =>
+    addDays(weekStart, index),
+  );
+  const dayTotals = days.map((_, index) =>
+    rows.reduce((total, row) => total + row.days[index], 0),
+  );
+  const weekTotal = dayTotals.reduce((total, minutes) => total + minutes, 0);
+
+  const cellStyles =
+    "border-b border-gray-200 px-3 py-2 text-right dark:border-stroke-dark";
+
+  return (
+    <div className="p-8">
+      <Header name="Timesheet" />
+      {timer && (
+        <div className="mb-4 flex items-center gap-3 rounded border border-blue-200 bg-blue-50 p-3 text-sm dark:border-stroke-dark dark:bg-dark-secondary dark:text-white">
+          <span>
+            Timer running on{" "}
+            <span className="font-semibold">{timer.task?.title}</span> since{" "}
+            {format(new Date(timer.startedAt), "p")}
+          </span>
+          <button
+            className="ml-auto flex items-center gap-1 rounded bg-red-500 px-2 py-1 text-white hover:bg-red-600 disabled:opacity-50"
+            disabled={isStopping}
+            onClick={() =>
+              stopTimer({ taskId: timer.taskId })
+                .unwrap()
+                .catch((error) =>
+                  window.alert(
+                    error?.data?.message ?? "Could not stop the timer",
+                  ),
+                )
+            }
+          >
+            <Square size={14} />
+            Stop
+          </button>
+        </div>
+      )}
+      <div className="mb-4 flex items-center gap-2 dark:text-white">
+        <button
+          className="rounded p-1 hover:bg-gray-100 dark:hover:bg-dark-tertiary"
+          onClick={() => setWeekStart(addDays(weekStart, -7))}
+          aria-label="Previous week"
+        >
+          <ChevronLeft size={18} />
+        </button>
+        <span className="font-medium">
+          {format(weekStart, "PP")} – {format(addDays(weekStart, 6), "PP")}
+        </span>
+        <button
+          className="rounded p-1 hover:bg-gray-100 dark:hover:bg-dark-tertiary"
+          onClick={() => setWeekStart(addDays(weekStart, 7))}
+          aria-label="Next week"
+        >
+          <ChevronRight size={18} />
+        </button>
+        {isAdmin && (
+          <select
+            className="ml-auto rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white"
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+          >
+            <option value="">My timesheet</option>
+            {users?.map((user) => (
+              <option key={user.userId} value={user.userId}>
+                {user.username}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {isLoading ? (
+        <div>Loading...</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full bg-white text-sm shadow dark:bg-dark-secondary dark:text-white">
+            <thead>
+              <tr>
+                <th className="border-b border-gray-200 px-3 py-2 text-left dark:border-stroke-dark">
+                  Task
+                </th>
+                {days.map((day) => (
+                  <th key={day.toISOString()} className={cellStyles}>
+                    {format(day, "EEE d")}
+                  </th>
+                ))}
+                <th className={cellStyles}>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={9}
+                    className="px-3 py-6 text-center text-gray-500 dark:text-neutral-400"
+                  >
+                    No time logged this week
+                  </td>
+                </tr>
+              )}
+              {rows.map((row) => (
+                <tr key={row.taskId}>
+                  <td className="border-b border-gray-200 px-3 py-2 dark:border-stroke-dark">
+                    <Link
+                      href={`/projects/${row.projectId}`}
+                      className="hover:underline"
+                    >
+                      {row.title}
+                    </Link>
+                    <div className="text-xs text-gray-500 dark:text-neutral-400">
+                      {row.projectName}
+                    </div>
+                  </td>
+                  {row.days.map((minutes, index) => (
+                    <td key={index} className={cellStyles}>
+                      {minutes ? formatMinutes(minutes) : ""}
+                    </td>
+                  ))}
+                  <td className={`${cellStyles} font-semibold`}>
+                    {formatMinutes(row.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold">
+                <td className="px-3 py-2">Total</td>
+                {dayTotals.map((minutes, index) => (
+                  <td key={index} className="px-3 py-2 text-right">
+                    {minutes ? formatMinutes(minutes) : ""}
+                  </td>
+                ))}
+                <td className="px-3 py-2 text-right">
+                  {formatMinutes(weekTotal)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Timesheet;
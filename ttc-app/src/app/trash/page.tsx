@@ -0,0 +1,174 @@
+"use client";
+
+import Header from "@/components/Header";
+import {
+  useGetArchivedProjectsQuery,
+  useGetTrashQuery,
+  usePurgeProjectMutation,
+  usePurgeTaskMutation,
+  useRestoreProjectMutation,
+  useRestoreTaskMutation,
+  useUnarchiveProjectMutation,
+} from "@/state/api";
+import { format } from "date-fns";
+import { ArchiveRestore, RotateCcw, Trash2 } from "lucide-react";
+import Link from "next/link";
+import React from "react";
+
+type Row = {
+  key: string;
+  name: string;
+  detail: string;
+  actions: React.ReactNode;
+};
+
+// Archived projects, and the deleted projects and tasks that can still be restored before the
+// purge job removes them for good
+const Trash = () => {
+  const { data: trash, isLoading } = useGetTrashQuery();
+  const { data: archivedProjects } = useGetArchivedProjectsQuery();
+  const [restoreTask] = useRestoreTaskMutation();
+  const [purgeTask] = usePurgeTaskMutation();
+  const [restoreProject] = useRestoreProjectMutation();
+  const [purgeProject] = usePurgeProjectMutation();
+  const [unarchiveProject] = useUnarchiveProjectMutation();
+
+  const run = (request: { unwrap: () => Promise<unknown> }, fallback: string) =>
+    request
+      .unwrap()
+      .catch((error) => window.alert(error?.data?.message ?? fallback));
+
+  const buttonStyles =
+    "flex items-center gap-1 rounded px-2 py-1 text-sm hover:bg-gray-100 dark:hover:bg-dark-tertiary";
+
+  const restoreButton = (onClick: () => void) => (
+    <button className={buttonStyles} onClick={onClick}>
+      <RotateCcw size={14} />
+      Restore
+    </button>
+  );
+
+  const purgeButton = (name: string, onClick: () => void) => (
+    <button
+      className={`${buttonStyles} text-red-500`}
+      onClick={() => {
+        if (
+          window.confirm(`Permanently delete "${name}"? This cannot be undone.`)
+        ) {
+          onClick();
+        }
+      }}
+    >
+      <Trash2 size={14} />
+      Delete forever
+    </button>
+  );
+
+  const purgeDate = (purgeAt: string) =>
+    `deleted forever on ${format(new Date(purgeAt), "PP")}`;
+
+  const renderSection = (title: string, rows: Row[], empty: string) => (
+    <section className="mb-8">
+      <h2 className="mb-2 text-lg font-semibold dark:text-white">{title}</h2>
+      <ul className="divide-y divide-gray-200 bg-white shadow dark:divide-stroke-dark dark:bg-dark-secondary dark:text-white">
+        {rows.length === 0 && (
+          <li className="px-4 py-6 text-center text-sm text-gray-500 dark:text-neutral-400">
+            {empty}
+          </li>
+        )}
+        {rows.map((row) => (
+          <li key={row.key} className="flex items-center gap-4 px-4 py-3">
+            <div className="flex-1">
+              <div className="font-medium">{row.name}</div>
+              <div className="text-xs text-gray-500 dark:text-neutral-400">
+                {row.detail}
+              </div>
+            </div>
+            {row.actions}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+
+  if (isLoading) return <div className="p-8">Loading...</div>;
+
+  return (
+    <div className="p-8">
+      <Header name="Trash" />
+      {renderSection(
+        "Deleted tasks",
+        (trash?.tasks ?? []).map((task) => ({
+          key: `task-${task.id}`,
+          name: task.title,
+          detail: `${task.project.name} · ${purgeDate(task.purgeAt)}`,
+          actions: (
+            <>
+              {restoreButton(() =>
+                run(restoreTask(task.id), "Could not restore the task"),
+              )}
+              {purgeButton(task.title, () =>
+                run(purgeTask(task.id), "Could not delete the task"),
+              )}
+            </>
+          ),
+        })),
+        "No deleted tasks",
+      )}
+      {renderSection(
+        "Deleted projects",
+        (trash?.projects ?? []).map((project) => ({
+          key: `project-${project.id}`,
+          name: project.name,
+          detail: `With all of its tasks · ${purgeDate(project.purgeAt)}`,
+          actions: (
+            <>
+              {restoreButton(() =>
+                run(
+                  restoreProject(project.id),
+                  "Could not restore the project",
+                ),
+              )}
+              {purgeButton(project.name, () =>
+                run(purgeProject(project.id), "Could not delete the project"),
+              )}
+            </>
+          ),
+        })),
+        "No deleted projects",
+      )}
+      {renderSection(
+        "Archived projects",
+        (archivedProjects ?? []).map((project) => ({
+          key: `archived-${project.id}`,
+          name: project.name,
+          detail: project.archivedAt
+            ? `Archived on ${format(new Date(project.archivedAt), "PP")}`
+            : "",
+          actions: (
+            <>
+              <Link href={`/projects/${project.id}`} className={buttonStyles}>
+                Open
+              </Link>
+              <button
+                className={buttonStyles}
+                onClick={() =>
+                  run(
+                    unarchiveProject(project.id),
+                    "Could not unarchive the project",
+                  )
+                }
+              >
+                <ArchiveRestore size={14} />
+                Unarchive
+              </button>
+            </>
+          ),
+        })),
+        "No archived projects",
+      )}
+    </div>
+  );
+};
+
+export default Trash;
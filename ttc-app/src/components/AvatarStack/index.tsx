@@ -0,0 +1,46 @@
+import { UserSummary } from "@/state/api";
+import Image from "next/image";
+import React from "react";
+
+type Props = {
+  users: UserSummary[];
+  max?: number;
+};
+
+const AvatarStack = ({ users, max = 4 }: Props) => {
+  const visibleUsers = users.slice(0, max);
+  const hiddenCount = users.length - visibleUsers.length;
+
+  return (
+    <div className="flex -space-x-[6px] overflow-hidden">
+      {visibleUsers.map((user) =>
+        user.profilePictureUrl ? (
+          <Image
+            key={user.userId}
+            src={`https://mp-s3-images.s3.us-east-1.amazonaws.com/${user.profilePictureUrl}`}
+            alt={user.username}
+            title={user.username}
+            width={30}
+            height={30}
+            className="h-8 w-8 rounded-full border-2 border-white object-cover dark:border-dark-secondary"
+          />
+        ) : (
+          <div
+            key={user.userId}
+            title={user.username}
+            className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-white bg-gray-200 text-xs font-semibold uppercase dark:border-dark-secondary dark:bg-dark-tertiary dark:text-white"
+          >
+            {user.username.charAt(0)}
+          </div>
+        ),
+      )}
+      {hiddenCount > 0 && (
+        <div className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-white bg-gray-300 text-xs font-semibold dark:border-dark-secondary dark:bg-dark-tertiary dark:text-white">
+          +{hiddenCount}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvatarStack;
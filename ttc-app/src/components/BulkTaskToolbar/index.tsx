@@ -0,0 +1,251 @@
+import { splitTagNames } from "@/lib/utils";
+import {
+  BulkTaskPatch,
+  Priority,
+  Task,
+  useBulkUpdateTasksMutation,
+  useGetProjectStatusesQuery,
+  useGetProjectsQuery,
+  useGetSprintsQuery,
+  useGetUsersQuery,
+} from "@/state/api";
+import { Trash2, X } from "lucide-react";
+import React, { useState } from "react";
+
+type Props = {
+  projectId: number;
+  tasks: Task[];
+  canDelete: boolean;
+  onSelectionChange: (taskIds: number[]) => void;
+};
+
+// Actions for the rows selected in the table; every change is one request for all of them
+const BulkTaskToolbar = ({
+  projectId,
+  tasks,
+  canDelete,
+  onSelectionChange,
+}: Props) => {
+  const [bulkUpdateTasks, { isLoading }] = useBulkUpdateTasksMutation();
+  const { data: users } = useGetUsersQuery();
+  const { data: projects } = useGetProjectsQuery();
+  const { data: statuses } = useGetProjectStatusesQuery(projectId);
+  const { data: sprints } = useGetSprintsQuery(projectId);
+  const [shiftDays, setShiftDays] = useState("");
+  const [tagText, setTagText] = useState("");
+
+  const taskIds = tasks.map((task) => task.id);
+  // Every change is checked against the version each task was loaded at, so rows loaded without
+  // one cannot be changed until the list is reloaded
+  const versions = Object.fromEntries(
+    tasks.flatMap((task) =>
+      task.updatedAt ? [[task.id, task.updatedAt]] : [],
+    ),
+  );
+  const hasVersions = tasks.every((task) => task.updatedAt);
+
+  const apply = (patch: BulkTaskPatch) =>
+    bulkUpdateTasks({ taskIds, versions, patch })
+      .unwrap()
+      .then(({ results }) => {
+        const failed = results.filter((result) => result.status === "failed");
+        // Failed rows stay selected so they can be retried
+        onSelectionChange(failed.map((result) => result.id));
+        // Changed rows can still carry a warning, such as a column going over its WIP limit
+        const warned = results.filter(
+          (result) => result.status !== "failed" && result.message,
+        );
+        if (failed.length === 0 && warned.length === 0) return;
+        window.alert(
+          [
+            failed.length > 0 &&
+              `${failed.length} of ${results.length} tasks were not changed:`,
+            ...failed.map((result) => `#${result.id}: ${result.message}`),
+            warned.length > 0 && "Changed with warnings:",
+            ...warned.map((result) => `#${result.id}: ${result.message}`),
+          ]
+            .filter(Boolean)
+            .join("\n"),
+        );
+      })
+      .catch((error) => {
+        // The list reloads after a refused change, so trying again works on the new versions
+        const conflicts: Task[] = error?.data?.conflicts ?? [];
+        window.alert(
+          [
+            error?.data?.message ?? "Could not update the tasks",
+            ...conflicts.map((task) => `#${task.id}: ${task.title}`),
+          ].join("\n"),
+        );
+      });
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${taskIds.length} tasks?`)) return;
+    apply({ delete: true });
+  };
+
+  const handleTags = (mode: "add" | "remove") => {
+    const names = splitTagNames(tagText);
+    if (names.length === 0) return;
+    apply(mode === "add" ? { addTags: names } : { removeTags: names });
+    setTagText("");
+  };
+
+  const controlStyles =
+    "rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white";
+  const buttonStyles =
+    "rounded bg-gray-200 px-2 py-1 text-sm hover:bg-gray-300 disabled:opacity-50 dark:bg-dark-tertiary dark:text-white";
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 rounded border border-blue-200 bg-blue-50 p-2 dark:border-stroke-dark dark:bg-dark-secondary">
+      <span className="text-sm font-semibold dark:text-white">
+        {taskIds.length} selected
+      </span>
+      <fieldset
+        disabled={isLoading || !hasVersions}
+        title={
+          hasVersions ? undefined : "Reload the list to change these tasks"
+        }
+        className="flex flex-wrap items-center gap-2"
+      >
+        <select
+          className={controlStyles}
+          value=""
+          onChange={(e) => apply({ status: e.target.value })}
+        >
+          <option value="">Set status</option>
+          {statuses?.map((status) => (
+            <option key={status.id} value={status.name}>
+              {status.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className={controlStyles}
+          value=""
+          onChange={(e) => apply({ priority: e.target.value as Priority })}
+        >
+          <option value="">Set priority</option>
+          {Object.values(Priority).map((priority) => (
+            <option key={priority} value={priority}>
+              {priority}
+            </option>
+          ))}
+        </select>
+        <select
+          className={controlStyles}
+          value=""
+          onChange={(e) =>
+            apply({
+              assignedUserId:
+                e.target.value === "none" ? null : Number(e.target.value),
+            })
+          }
+        >
+          <option value="">Assign to</option>
+          <option value="none">Unassigned</option>
+          {users?.map((user) => (
+            <option key={user.userId} value={user.userId}>
+              {user.username}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          className={`${controlStyles} w-20`}
+          placeholder="± days"
+          value={shiftDays}
+          onChange={(e) => setShiftDays(e.target.value)}
+        />
+        <button
+          type="button"
+          className={buttonStyles}
+          disabled={!Number.isInteger(Number(shiftDays)) || !Number(shiftDays)}
+          onClick={() => {
+            apply({ dueDateShiftDays: Number(shiftDays) });
+            setShiftDays("");
+          }}
+        >
+          Shift due dates
+        </button>
+        <input
+          type="text"
+          className={`${controlStyles} w-32`}
+          placeholder="Tags"
+          value={tagText}
+          onChange={(e) => setTagText(e.target.value)}
+        />
+        <button
+          type="button"
+          className={buttonStyles}
+          disabled={!tagText.trim()}
+          onClick={() => handleTags("add")}
+        >
+          Add tags
+        </button>
+        <button
+          type="button"
+          className={buttonStyles}
+          disabled={!tagText.trim()}
+          onClick={() => handleTags("remove")}
+        >
+          Remove tags
+        </button>
+        <select
+          className={controlStyles}
+          value=""
+          onChange={(e) =>
+            apply({
+              sprintId:
+                e.target.value === "none" ? null : Number(e.target.value),
+            })
+          }
+        >
+          <option value="">Move to sprint</option>
+          <option value="none">Backlog</option>
+          {sprints
+            ?.filter((sprint) => sprint.state !== "completed")
+            .map((sprint) => (
+              <option key={sprint.id} value={sprint.id}>
+                {sprint.name}
+              </option>
+            ))}
+        </select>
+        <select
+          className={controlStyles}
+          value=""
+          onChange={(e) => apply({ projectId: Number(e.target.value) })}
+        >
+          <option value="">Move to project</option>
+          {projects
+            ?.filter((project) => project.id !== projectId)
+            .map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+        </select>
+        {canDelete && (
+          <button
+            type="button"
+            className="flex items-center gap-1 rounded bg-red-500 px-2 py-1 text-sm text-white hover:bg-red-600"
+            onClick={handleDelete}
+          >
+            <Trash2 size={14} />
+            Delete
+          </button>
+        )}
+      </fieldset>
+      <button
+        type="button"
+        className="ml-auto text-gray-500 hover:text-gray-700 dark:text-neutral-400"
+        onClick={() => onSelectionChange([])}
+        title="Clear selection"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default BulkTaskToolbar;
@@ -0,0 +1,225 @@
+import { useAppDispatch, useAppSelector } from "@/app/redux";
+import Modal from "@/components/Modal";
+import { comparableValue, formatMinutes } from "@/lib/utils";
+import { api, useGetProjectsQuery, useGetUsersQuery } from "@/state/api";
+import { clearConflict } from "@/state/conflicts";
+import { format } from "date-fns";
+import React, { useEffect, useState } from "react";
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  name: "Name",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  tags: "Tags",
+  startDate: "Start date",
+  dueDate: "Due date",
+  endDate: "End date",
+  points: "Points",
+  estimateMinutes: "Estimate",
+  assignedUserId: "Assignee",
+  projectId: "Project",
+  sprintId: "Sprint",
+  wipEnforcement: "WIP limits",
+};
+
+// Arguments that say what to edit rather than carry a value
+const TARGET_ARGS = ["taskId", "id", "version", "scope", "afterTaskId"];
+
+// Not compared: a recurrence rule and custom field values only touch what the edit lists
+const UNCOMPARED_ARGS = [...TARGET_ARGS, "recurrence", "customFields"];
+
+const DATE_FIELDS = ["startDate", "dueDate", "endDate"];
+
+// Shown when an edit was refused because someone else saved first. For every field both of you
+// changed, their value or yours can be kept; the rest of the edit is saved on top of their version
+const ConflictDialog = () => {
+  const conflict = useAppSelector((state) => state.conflicts.conflict);
+  const dispatch = useAppDispatch();
+  const { data: users } = useGetUsersQuery(undefined, { skip: !conflict });
+  const { data: projects } = useGetProjectsQuery(undefined, {
+    skip: !conflict,
+  });
+  const [keepTheirs, setKeepTheirs] = useState<string[]>([]);
+
+  useEffect(() => setKeepTheirs([]), [conflict]);
+
+  if (!conflict) return null;
+
+  const args: Record<string, unknown> = conflict.args;
+  const current: Record<string, unknown> = Object.fromEntries(
+    Object.entries(conflict.current),
+  );
+  const clashes = Object.keys(args).filter(
+    (field) =>
+      !UNCOMPARED_ARGS.includes(field) &&
+      args[field] !== undefined &&
+      comparableValue(field, args[field]) !==
+        comparableValue(field, current[field]),
+  );
+  const name =
+    "title" in conflict.current
+      ? conflict.current.title
+      : conflict.current.name;
+
+  const display = (field: string, value: unknown) => {
+    const comparable = comparableValue(field, value);
+    if (!comparable) return "—";
+    if (field === "assignedUserId") {
+      return (
+        users?.find((user) => user.userId === Number(value))?.username ??
+        comparable
+      );
+    }
+    if (field === "projectId") {
+      return (
+        projects?.find((project) => project.id === Number(value))?.name ??
+        comparable
+      );
+    }
+    if (DATE_FIELDS.includes(field)) {
+      return format(new Date(value as string), "PP");
+    }
+    if (field === "estimateMinutes") return formatMinutes(Number(value));
+    return comparable;
+  };
+
+  const withoutTheirs = <T extends object>(edit: T): T =>
+    Object.fromEntries(
+      Object.entries(edit).filter(([field]) => !keepTheirs.includes(field)),
+    ) as T;
+
+  // Their version, which the edit query refetched when the edit was refused, stays as it is
+  const handleDiscard = () => dispatch(clearConflict());
+
+  const handleSave = () => {
+    const version = conflict.current.updatedAt;
+    const hasEdits = Object.entries(args).some(
+      ([field, value]) =>
+        value !== undefined &&
+        !TARGET_ARGS.includes(field) &&
+        !keepTheirs.includes(field),
+    );
+    dispatch(clearConflict());
+    if (!hasEdits) return;
+    // Refused again means yet another save came in between, and the dialog opens once more
+    const request = (() => {
+      switch (conflict.endpoint) {
+        case "updateTask":
+          return dispatch(
+            api.endpoints.updateTask.initiate({
+              ...withoutTheirs(conflict.args),
+              version,
+            }),
+          );
+        case "updateTaskStatus":
+          return dispatch(
+            api.endpoints.updateTaskStatus.initiate({
+              ...conflict.args,
+              version,
+            }),
+          );
+        case "moveTask":
+          return dispatch(
+            api.endpoints.moveTask.initiate({ ...conflict.args, version }),
+          );
+        case "updateProject":
+          return dispatch(
+            api.endpoints.updateProject.initiate({
+              ...withoutTheirs(conflict.args),
+              version,
+            }),
+          );
+      }
+    })();
+    request
+      .unwrap()
+      .catch(
+        (error) =>
+          error?.status !== 409 &&
+          window.alert(error?.data?.message ?? "Could not save your changes"),
+      );
+  };
+
+  const toggle = (field: string, theirs: boolean) =>
+    setKeepTheirs((fields) =>
+      theirs
+        ? [...fields, field]
+        : fields.filter((candidate) => candidate !== field),
+    );
+
+  const cellStyles =
+    "border-b border-gray-200 px-3 py-2 text-left dark:border-stroke-dark";
+
+  return (
+    <Modal isOpen onClose={handleDiscard} name="Edit conflict">
+      <div className="mt-4 space-y-4 text-sm dark:text-white">
+        <p>
+          {conflict.message}: <span className="font-semibold">{name}</span>
+        </p>
+        {clashes.length > 0 ? (
+          <table className="w-full">
+            <thead>
+              <tr>
+                <th className={cellStyles}>Field</th>
+                <th className={cellStyles}>Their version</th>
+                <th className={cellStyles}>Your version</th>
+              </tr>
+            </thead>
+            <tbody>
+              {clashes.map((field) => (
+                <tr key={field}>
+                  <td className={cellStyles}>{FIELD_LABELS[field] ?? field}</td>
+                  <td className={cellStyles}>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name={`conflict-${field}`}
+                        checked={keepTheirs.includes(field)}
+                        onChange={() => toggle(field, true)}
+                      />
+                      {display(field, current[field])}
+                    </label>
+                  </td>
+                  <td className={cellStyles}>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name={`conflict-${field}`}
+                        checked={!keepTheirs.includes(field)}
+                        onChange={() => toggle(field, false)}
+                      />
+                      {display(field, args[field])}
+                    </label>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-gray-500 dark:text-neutral-400">
+            They changed other fields than you did, so your changes can be saved
+            on top of theirs.
+          </p>
+        )}
+        <div className="flex justify-end gap-2">
+          <button
+            className="rounded-md border border-gray-300 px-4 py-2 hover:bg-gray-100 dark:border-dark-tertiary dark:hover:bg-dark-tertiary"
+            onClick={handleDiscard}
+          >
+            Discard my changes
+          </button>
+          <button
+            className="rounded-md bg-blue-primary px-4 py-2 text-white hover:bg-blue-600"
+            onClick={handleSave}
+          >
+            {clashes.length > 0 ? "Save merged version" : "Save my changes"}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ConflictDialog;
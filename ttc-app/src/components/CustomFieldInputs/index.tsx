@@ -0,0 +1,140 @@
+import {
+  CustomField,
+  CustomFieldValue,
+  useGetCustomFieldsQuery,
+} from "@/state/api";
+import React from "react";
+
+export type CustomFieldDraft = Record<number, CustomFieldValue | null>;
+
+type Props = {
+  projectId?: number;
+  value: CustomFieldDraft;
+  onChange: (value: CustomFieldDraft) => void;
+};
+
+const inputStyles =
+  "w-full rounded border border-gray-300 p-2 shadow-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white dark:focus:outline-none";
+
+type InputProps = {
+  field: CustomField;
+  value: CustomFieldValue | null | undefined;
+  onChange: (value: CustomFieldValue | null) => void;
+};
+
+// Empty inputs send null, which clears the field on the server
+const FieldInput = ({ field, value, onChange }: InputProps) => {
+  switch (field.type) {
+    case "checkbox":
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      );
+    case "select":
+      return (
+        <select
+          className={inputStyles}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value || null)}
+        >
+          <option value="">None</option>
+          {field.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    case "multiSelect": {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-3">
+          {field.options.map((option) => (
+            <label
+              key={option}
+              className="flex items-center gap-1 text-sm dark:text-neutral-200"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={(e) =>
+                  onChange(
+                    e.target.checked
+                      ? [...selected, option]
+                      : selected.filter((choice) => choice !== option),
+                  )
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case "number":
+    case "currency":
+      return (
+        <input
+          type="number"
+          step={field.type === "currency" ? "0.01" : "any"}
+          className={inputStyles}
+          placeholder={field.currency ?? undefined}
+          value={typeof value === "number" ? value : ""}
+          onChange={(e) =>
+            onChange(e.target.value === "" ? null : Number(e.target.value))
+          }
+        />
+      );
+    case "date":
+      return (
+        <input
+          type="date"
+          className={inputStyles}
+          value={typeof value === "string" ? value.slice(0, 10) : ""}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      );
+    default:
+      return (
+        <input
+          type={field.type === "url" ? "url" : "text"}
+          className={inputStyles}
+          placeholder={field.type === "url" ? "https://" : undefined}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      );
+  }
+};
+
+// One labelled input per custom field of the project, in the project's order
+const CustomFieldInputs = ({ projectId, value, onChange }: Props) => {
+  const { data: fields } = useGetCustomFieldsQuery(projectId ?? 0, {
+    skip: !projectId,
+  });
+  if (!fields?.length) return null;
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      {fields.map((field) => (
+        <label key={field.id} className="block">
+          <span className="mb-1 block text-sm font-semibold dark:text-white">
+            {field.name}
+          </span>
+          <FieldInput
+            field={field}
+            value={value[field.id]}
+            onChange={(fieldValue) =>
+              onChange({ ...value, [field.id]: fieldValue })
+            }
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default CustomFieldInputs;
@@ -0,0 +1,214 @@
+import Modal from "@/components/Modal";
+import { splitTagNames } from "@/lib/utils";
+import {
+  CustomField,
+  CustomFieldType,
+  useCreateCustomFieldMutation,
+  useDeleteCustomFieldMutation,
+  useGetCustomFieldsQuery,
+  useUpdateCustomFieldMutation,
+} from "@/state/api";
+import { Trash2 } from "lucide-react";
+import React, { useState } from "react";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: number;
+};
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  currency: "Currency",
+  date: "Date",
+  select: "Single select",
+  multiSelect: "Multi select",
+  url: "URL",
+  checkbox: "Checkbox",
+};
+
+const hasOptions = (type: CustomFieldType) =>
+  type === "select" || type === "multiSelect";
+
+const alertError =
+  (fallback: string) => (error: { data?: { message?: string } }) =>
+    window.alert(error?.data?.message ?? fallback);
+
+// Defines the extra fields every task of the project can carry
+const ModalCustomFields = ({ isOpen, onClose, projectId }: Props) => {
+  const { data: fields } = useGetCustomFieldsQuery(projectId, {
+    skip: !isOpen,
+  });
+  const [createField, { isLoading: isCreating }] =
+    useCreateCustomFieldMutation();
+  const [updateField] = useUpdateCustomFieldMutation();
+  const [deleteField] = useDeleteCustomFieldMutation();
+  const [name, setName] = useState("");
+  const [type, setType] = useState<CustomFieldType>("text");
+  const [options, setOptions] = useState("");
+  const [currency, setCurrency] = useState("USD");
+
+  const update = (
+    field: CustomField,
+    patch: Partial<Pick<CustomField, "name" | "options" | "currency">>,
+  ) =>
+    updateField({ projectId, fieldId: field.id, ...patch })
+      .unwrap()
+      .catch(alertError("Could not update the field"));
+
+  const handleDelete = (field: CustomField) => {
+    if (!window.confirm(`Delete "${field.name}" and its value on every task?`))
+      return;
+    deleteField({ projectId, fieldId: field.id })
+      .unwrap()
+      .catch(alertError("Could not delete the field"));
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    createField({
+      projectId,
+      name: name.trim(),
+      type,
+      options: hasOptions(type) ? splitTagNames(options) : undefined,
+      currency: type === "currency" ? currency.toUpperCase() : undefined,
+    })
+      .unwrap()
+      .then(() => {
+        setName("");
+        setOptions("");
+      })
+      .catch(alertError("Could not add the field"));
+  };
+
+  const controlStyles =
+    "rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white";
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} name="Custom Fields">
+      <ul className="mt-4 space-y-3">
+        {fields?.length === 0 && (
+          <li className="text-sm text-gray-500 dark:text-neutral-400">
+            No custom fields yet
+          </li>
+        )}
+        {fields?.map((field) => (
+          <li
+            key={field.id}
+            className="flex flex-wrap items-center gap-2 rounded border border-gray-200 p-2 dark:border-stroke-dark"
+          >
+            <input
+              type="text"
+              className={`${controlStyles} flex-1`}
+              defaultValue={field.name}
+              // Keyed on the saved name so a refused rename resets the field
+              key={field.name}
+              onBlur={(e) =>
+                e.target.value.trim() &&
+                e.target.value.trim() !== field.name &&
+                update(field, { name: e.target.value.trim() })
+              }
+            />
+            <span className="text-xs text-gray-500 dark:text-neutral-400">
+              {TYPE_LABELS[field.type]}
+            </span>
+            {hasOptions(field.type) && (
+              <input
+                type="text"
+                className={`${controlStyles} flex-1`}
+                defaultValue={field.options.join(", ")}
+                key={field.options.join(",")}
+                title="Comma separated options"
+                onBlur={(e) => {
+                  const next = splitTagNames(e.target.value);
+                  if (next.join(",") !== field.options.join(",")) {
+                    update(field, { options: next });
+                  }
+                }}
+              />
+            )}
+            {field.type === "currency" && (
+              <input
+                type="text"
+                className={`${controlStyles} w-16 uppercase`}
+                defaultValue={field.currency ?? ""}
+                key={field.currency}
+                maxLength={3}
+                onBlur={(e) =>
+                  e.target.value.toUpperCase() !== field.currency &&
+                  update(field, { currency: e.target.value.toUpperCase() })
+                }
+              />
+            )}
+            <button
+              type="button"
+              className="text-gray-500 hover:text-red-600"
+              onClick={() => handleDelete(field)}
+              title="Delete field"
+            >
+              <Trash2 size={16} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <form
+        className="mt-4 flex flex-wrap items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleCreate();
+        }}
+      >
+        <input
+          type="text"
+          className={`${controlStyles} flex-1`}
+          placeholder="New field"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select
+          className={controlStyles}
+          value={type}
+          onChange={(e) => setType(e.target.value as CustomFieldType)}
+        >
+          {Object.entries(TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {hasOptions(type) && (
+          <input
+            type="text"
+            className={`${controlStyles} flex-1`}
+            placeholder="Options, comma separated"
+            value={options}
+            onChange={(e) => setOptions(e.target.value)}
+          />
+        )}
+        {type === "currency" && (
+          <input
+            type="text"
+            className={`${controlStyles} w-16 uppercase`}
+            maxLength={3}
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+          />
+        )}
+        <button
+          type="submit"
+          className="rounded bg-blue-primary px-3 py-1 text-sm text-white hover:bg-blue-600 disabled:opacity-50"
+          disabled={
+            !name.trim() ||
+            isCreating ||
+            (hasOptions(type) && splitTagNames(options).length === 0)
+          }
+        >
+          Add
+        </button>
+      </form>
+    </Modal>
+  );
+};
+
+export default ModalCustomFields;
@@ -1,7 +1,17 @@
 import Modal from "@/components/Modal";
-import { Priority, Status, useCreateTaskMutation } from "@/state/api";
+import {
+  Priority,
+  Recurrence,
+  useCreateTaskMutation,
+  useGetProjectStatusesQuery,
+} from "@/state/api";
 import React, { useState } from "react";
 import { formatISO } from "date-fns";
+import RecurrenceFields from "@/components/RecurrenceFields";
+import TagInput from "@/components/TagInput";
+import CustomFieldInputs, {
+  CustomFieldDraft,
+} from "@/components/CustomFieldInputs";
 
 type Props = {
   isOpen: boolean;
@@ -13,18 +23,24 @@ const ModalNewTask = ({ isOpen, onClose, id = null }: Props) => {
   const [createTask, {isLoading}] = useCreateTaskMutation();
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [status, setStatus] = useState<Status>(Status.ToDo);
+  // Left empty, the task starts in the project's first to-do status
+  const [status, setStatus] = useState("");
   const [priority, setPriority] = useState<Priority>(Priority.Backlog);
-  const [tags, setTags] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
   const [startDate, setStartDate] = useState("");
   const [dueDate, setDueDate] = useState("");
-  const [authorUserId, setAuthorUserId] = useState("");
   const [assignedUserId, setAssginedUserId] = useState("");
   const [projectId, setProjectId] = useState("");
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
+  const [customFields, setCustomFields] = useState<CustomFieldDraft>({});
+  const targetProjectId = id !== null ? Number(id) : Number(projectId);
+  const { data: statuses } = useGetProjectStatusesQuery(targetProjectId, {
+    skip: !targetProjectId,
+  });
   
 
   const handleSubmit = async () => {
-    if (!title || !authorUserId || (!id && !projectId)) return;
+    if (!title || (!id && !projectId)) return;
 
     const formattedStartDate = formatISO(new Date(startDate), {
       representation: "complete",
@@ -36,19 +52,27 @@ const ModalNewTask = ({ isOpen, onClose, id = null }: Props) => {
     await createTask({
       title,
       description,
-      status,
+      status: status || undefined,
       priority,
       tags,
       startDate: formattedStartDate,
       dueDate: formattedDueDate,
-      authorUserId: parseInt(authorUserId),
       assignedUserId: parseInt(assignedUserId),
-      projectId: id !== null ?  Number(id) : Number(projectId),
-    });
+      projectId: targetProjectId,
+      recurrence: recurrence ?? undefined,
+      customFields: Object.fromEntries(
+        Object.entries(customFields).filter(([, value]) => value !== null),
+      ),
+    })
+      .unwrap()
+      // Custom field values are validated against the field types on the server
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not create the task"),
+      );
   };
 
   const isFormValid = () => {
-    return title && authorUserId && (id !== null || projectId);
+    return title && (id !== null || projectId);
   };
 
   const selectStyles = 'mb-4 block w-full rounded border border-gray-300 px-3 py-2 dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white dark:focus:outline-none';
@@ -82,13 +106,14 @@ const ModalNewTask = ({ isOpen, onClose, id = null }: Props) => {
             <select
                 className={selectStyles}
                 value={status}
-                onChange = {(e) => setStatus(Status[e.target.value as keyof typeof Status])}
+                onChange = {(e) => setStatus(e.target.value)}
             >
                 <option value="">Select Status</option>
-                <option value={Status.ToDo}>To Do</option>
-                <option value={Status.WorkInProgress}>Work In Progress</option>
-                <option value={Status.UnderReview}>Under Review</option>
-                <option value={Status.Completed}>Completed</option>
+                {statuses?.map((projectStatus) => (
+                  <option key={projectStatus.id} value={projectStatus.name}>
+                    {projectStatus.name}
+                  </option>
+                ))}
             </select>
             <select
                 className={selectStyles}
@@ -103,13 +128,11 @@ const ModalNewTask = ({ isOpen, onClose, id = null }: Props) => {
                 <option value={Priority.Backlog}>Backlog</option>
             </select>
         </div>
-        <input
-            type="text"
-            className={inputStyles}
-            placeholder="Tags (comma separated)"
-            value={tags}
-            onChange={(e) => setTags(e.target.value)}
-          />
+        <TagInput
+          projectId={id !== null ? Number(id) : Number(projectId) || undefined}
+          value={tags}
+          onChange={setTags}
+        />
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 sm:gap-2">
           <input
             type="date"
@@ -123,13 +146,6 @@ const ModalNewTask = ({ isOpen, onClose, id = null }: Props) => {
             value={dueDate}
             onChange={(e) => setDueDate(e.target.value)}
           />
-          <input
-            type="text"
-            className={inputStyles}
-            placeholder="Author User Id"
-            value={authorUserId}
-            onChange={(e) => setAuthorUserId(e.target.value)}
-          />
           <input
             type="text"
             className={inputStyles}
@@ -138,15 +154,25 @@ const ModalNewTask = ({ isOpen, onClose, id = null }: Props) => {
             onChange={(e) => setAssginedUserId(e.target.value)}
           />
         </div>
+        <RecurrenceFields value={recurrence} onChange={setRecurrence} />
         { id === null && (
           <input
             type="text"
             className={inputStyles}
             placeholder="ProjectId"
             value={projectId}
-            onChange={(e) => setProjectId(e.target.value)}
+            onChange={(e) => {
+              setProjectId(e.target.value);
+              // Fields belong to a project, so values entered for another one are dropped
+              setCustomFields({});
+            }}
           />
         )}
+        <CustomFieldInputs
+          projectId={targetProjectId || undefined}
+          value={customFields}
+          onChange={setCustomFields}
+        />
         <button
           type="submit"
           className={`focus-offset-2 mt-4 flex w-full justify-center rounded-md border border-transparent bg-blue-primary px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 ${
@@ -0,0 +1,314 @@
+import Modal from "@/components/Modal";
+import {
+  ProjectStatus,
+  ProjectStatusUpdate,
+  StatusCategory,
+  useCreateProjectStatusMutation,
+  useDeleteProjectStatusMutation,
+  useGetProjectStatusesQuery,
+  useGetProjectsQuery,
+  useReorderProjectStatusesMutation,
+  useUpdateProjectMutation,
+  useUpdateProjectStatusMutation,
+  WipEnforcement,
+} from "@/state/api";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import React, { useState } from "react";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: number;
+};
+
+const CATEGORY_LABELS: Record<StatusCategory, string> = {
+  todo: "To do",
+  inProgress: "In progress",
+  done: "Done",
+};
+
+// Edit conflicts are left to the conflict dialog
+const alertError =
+  (fallback: string) =>
+  (error: { status?: unknown; data?: { message?: string } }) =>
+    error?.status !== 409 && window.alert(error?.data?.message ?? fallback);
+
+// Edits the project's workflow: statuses, their order and the moves allowed between them
+const ModalProjectStatuses = ({ isOpen, onClose, projectId }: Props) => {
+  const { data: statuses } = useGetProjectStatusesQuery(projectId, {
+    skip: !isOpen,
+  });
+  const [createStatus, { isLoading: isCreating }] =
+    useCreateProjectStatusMutation();
+  const [updateStatus] = useUpdateProjectStatusMutation();
+  const [reorderStatuses] = useReorderProjectStatusesMutation();
+  const [deleteStatus] = useDeleteProjectStatusMutation();
+  const { data: projects } = useGetProjectsQuery(undefined, { skip: !isOpen });
+  const [updateProject] = useUpdateProjectMutation();
+  const project = projects?.find((candidate) => candidate.id === projectId);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState("#6B7280");
+  const [category, setCategory] = useState<StatusCategory>("inProgress");
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [moveTasksTo, setMoveTasksTo] = useState("");
+  const [editingTransitionsId, setEditingTransitionsId] = useState<
+    number | null
+  >(null);
+
+  const list = statuses ?? [];
+  const hasTransitions = list.some((status) => status.transitionsTo.length > 0);
+
+  const update = (status: ProjectStatus, patch: ProjectStatusUpdate) =>
+    updateStatus({ projectId, statusId: status.id, ...patch })
+      .unwrap()
+      .catch(alertError("Could not update the status"));
+
+  const move = (index: number, offset: number) => {
+    const statusIds = list.map((status) => status.id);
+    const [moved] = statusIds.splice(index, 1);
+    statusIds.splice(index + offset, 0, moved);
+    reorderStatuses({ projectId, statusIds })
+      .unwrap()
+      .catch(alertError("Could not reorder the statuses"));
+  };
+
+  const toggleTransition = (status: ProjectStatus, toStatusId: number) =>
+    update(status, {
+      transitionsTo: status.transitionsTo.includes(toStatusId)
+        ? status.transitionsTo.filter((id) => id !== toStatusId)
+        : [...status.transitionsTo, toStatusId],
+    });
+
+  const handleDelete = (status: ProjectStatus) =>
+    deleteStatus({
+      projectId,
+      statusId: status.id,
+      moveTasksTo: moveTasksTo ? Number(moveTasksTo) : undefined,
+    })
+      .unwrap()
+      .then(() => {
+        setDeletingId(null);
+        setMoveTasksTo("");
+      })
+      .catch(alertError("Could not delete the status"));
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    createStatus({ projectId, name: name.trim(), color, category })
+      .unwrap()
+      .then(() => setName(""))
+      .catch(alertError("Could not add the status"));
+  };
+
+  const controlStyles =
+    "rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white";
+  const iconButtonStyles =
+    "text-gray-500 hover:text-gray-700 disabled:opacity-30 dark:text-neutral-400";
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} name="Workflow">
+      <p className="mt-2 text-sm text-gray-500 dark:text-neutral-400">
+        {hasTransitions
+          ? "Tasks can only move along the transitions listed below."
+          : "Tasks can move between any statuses until transitions are set."}
+      </p>
+      <label className="mt-2 flex items-center gap-2 text-sm dark:text-neutral-200">
+        Columns over their WIP limit
+        <select
+          className={controlStyles}
+          value={project?.wipEnforcement ?? "warn"}
+          onChange={(e) =>
+            updateProject({
+              id: projectId,
+              version: project?.updatedAt,
+              wipEnforcement: e.target.value as WipEnforcement,
+            })
+              .unwrap()
+              .catch(alertError("Could not update the project"))
+          }
+        >
+          <option value="warn">warn when tasks are added</option>
+          <option value="enforce">refuse further tasks</option>
+        </select>
+      </label>
+      <ul className="mt-4 space-y-3">
+        {list.map((status, index) => (
+          <li
+            key={status.id}
+            className="rounded border border-gray-200 p-2 dark:border-stroke-dark"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="color"
+                className="h-7 w-8 cursor-pointer rounded"
+                defaultValue={status.color}
+                onBlur={(e) =>
+                  e.target.value.toLowerCase() !== status.color.toLowerCase() &&
+                  update(status, { color: e.target.value })
+                }
+              />
+              <input
+                type="text"
+                className={`${controlStyles} flex-1`}
+                defaultValue={status.name}
+                // Keyed on the saved name so a refused rename resets the field
+                key={status.name}
+                onBlur={(e) =>
+                  e.target.value.trim() &&
+                  e.target.value.trim() !== status.name &&
+                  update(status, { name: e.target.value.trim() })
+                }
+              />
+              <select
+                className={controlStyles}
+                value={status.category}
+                onChange={(e) =>
+                  update(status, {
+                    category: e.target.value as StatusCategory,
+                  })
+                }
+              >
+                {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className={iconButtonStyles}
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+                title="Move left"
+              >
+                <ArrowUp size={16} />
+              </button>
+              <button
+                type="button"
+                className={iconButtonStyles}
+                disabled={index === list.length - 1}
+                onClick={() => move(index, 1)}
+                title="Move right"
+              >
+                <ArrowDown size={16} />
+              </button>
+              <button
+                type="button"
+                className="text-gray-500 hover:text-red-600 disabled:opacity-30"
+                disabled={list.length === 1}
+                onClick={() =>
+                  setDeletingId(deletingId === status.id ? null : status.id)
+                }
+                title="Delete status"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <button
+              type="button"
+              className="mt-1 text-xs text-blue-primary hover:underline"
+              onClick={() =>
+                setEditingTransitionsId(
+                  editingTransitionsId === status.id ? null : status.id,
+                )
+              }
+            >
+              {status.transitionsTo.length
+                ? `Moves to ${list
+                    .filter((other) => status.transitionsTo.includes(other.id))
+                    .map((other) => other.name)
+                    .join(", ")}`
+                : "No transitions set"}
+            </button>
+            {editingTransitionsId === status.id && (
+              <div className="mt-1 flex flex-wrap gap-3">
+                {list
+                  .filter((other) => other.id !== status.id)
+                  .map((other) => (
+                    <label
+                      key={other.id}
+                      className="flex items-center gap-1 text-sm dark:text-neutral-200"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={status.transitionsTo.includes(other.id)}
+                        onChange={() => toggleTransition(status, other.id)}
+                      />
+                      {other.name}
+                    </label>
+                  ))}
+              </div>
+            )}
+            {deletingId === status.id && (
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-sm dark:text-neutral-200">
+                Move its tasks to
+                <select
+                  className={controlStyles}
+                  value={moveTasksTo}
+                  onChange={(e) => setMoveTasksTo(e.target.value)}
+                >
+                  <option value="">Choose a status</option>
+                  {list
+                    .filter((other) => other.id !== status.id)
+                    .map((other) => (
+                      <option key={other.id} value={other.id}>
+                        {other.name}
+                      </option>
+                    ))}
+                </select>
+                <button
+                  type="button"
+                  className="rounded bg-red-500 px-2 py-1 text-white hover:bg-red-600"
+                  onClick={() => handleDelete(status)}
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      <form
+        className="mt-4 flex flex-wrap items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleCreate();
+        }}
+      >
+        <input
+          type="color"
+          className="h-7 w-8 cursor-pointer rounded"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+        />
+        <input
+          type="text"
+          className={`${controlStyles} flex-1`}
+          placeholder="New status"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select
+          className={controlStyles}
+          value={category}
+          onChange={(e) => setCategory(e.target.value as StatusCategory)}
+        >
+          {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="rounded bg-blue-primary px-3 py-1 text-sm text-white hover:bg-blue-600 disabled:opacity-50"
+          disabled={!name.trim() || isCreating}
+        >
+          Add
+        </button>
+      </form>
+    </Modal>
+  );
+};
+
+export default ModalProjectStatuses;
@@ -0,0 +1,632 @@
+import Modal from "@/components/Modal";
+import {
+  Priority,
+  Recurrence,
+  Task,
+  TaskSeries,
+  TaskUpdate,
+  useAddAssigneeMutation,
+  useArchiveTaskMutation,
+  useCreateTaskMutation,
+  useDeleteTaskMutation,
+  useGetPermissionsQuery,
+  useGetProjectStatusesQuery,
+  useGetProjectsQuery,
+  useGetSprintsQuery,
+  useGetTaskQuery,
+  useGetUsersQuery,
+  useRemoveAssigneeMutation,
+  useUnarchiveTaskMutation,
+  useUpdateTaskMutation,
+  useUpdateTaskStatusMutation,
+} from "@/state/api";
+import React, { useEffect, useRef, useState } from "react";
+import { format, formatISO } from "date-fns";
+import TaskActivity from "@/components/TaskActivity";
+import TaskChecklist from "@/components/TaskChecklist";
+import TaskComments from "@/components/TaskComments";
+import TaskDependencies from "@/components/TaskDependencies";
+import TaskTimeTracking from "@/components/TaskTimeTracking";
+import TaskWatchers from "@/components/TaskWatchers";
+import RecurrenceFields from "@/components/RecurrenceFields";
+import TagInput from "@/components/TagInput";
+import { comparableValue, isDoneStatus } from "@/lib/utils";
+import CustomFieldInputs, {
+  CustomFieldDraft,
+} from "@/components/CustomFieldInputs";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  taskId: number;
+};
+
+const toDateInput = (value?: string) =>
+  value ? format(new Date(value), "yyyy-MM-dd") : "";
+
+const toIsoDate = (value: string) =>
+  value ? formatISO(new Date(value), { representation: "complete" }) : null;
+
+const toRecurrence = (series?: TaskSeries | null): Recurrence | null =>
+  series
+    ? {
+        frequency: series.frequency,
+        interval: series.interval,
+        until: series.until ?? null,
+        count: series.count ?? null,
+      }
+    : null;
+
+// What the form edits; other changes to the task do not get in the way of saving it
+const FORM_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "tags",
+  "startDate",
+  "dueDate",
+  "points",
+  "estimateMinutes",
+  "assignedUserId",
+  "projectId",
+  "sprintId",
+  "customFields",
+] as const;
+
+const ModalTaskDetails = ({ isOpen, onClose, taskId }: Props) => {
+  const { data: task, isLoading: isTaskLoading } = useGetTaskQuery(taskId, {
+    skip: !isOpen,
+  });
+  const { data: users } = useGetUsersQuery(undefined, { skip: !isOpen });
+  const { data: projects } = useGetProjectsQuery(undefined, { skip: !isOpen });
+  const { data: access } = useGetPermissionsQuery(
+    { projectId: task?.projectId },
+    { skip: !task },
+  );
+  const { data: statuses } = useGetProjectStatusesQuery(task?.projectId ?? 0, {
+    skip: !task,
+  });
+  const { data: sprints } = useGetSprintsQuery(task?.projectId ?? 0, {
+    skip: !isOpen || !task,
+  });
+  const [updateTask, { isLoading: isSaving }] = useUpdateTaskMutation();
+  const [deleteTask, { isLoading: isDeleting }] = useDeleteTaskMutation();
+  const [archiveTask, { isLoading: isArchiving }] = useArchiveTaskMutation();
+  const [unarchiveTask, { isLoading: isUnarchiving }] =
+    useUnarchiveTaskMutation();
+  const [addAssignee] = useAddAssigneeMutation();
+  const [removeAssignee] = useRemoveAssigneeMutation();
+  const [createTask, { isLoading: isAddingSubtask }] = useCreateTaskMutation();
+  const [updateTaskStatus] = useUpdateTaskStatusMutation();
+
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [priority, setPriority] = useState<Priority | "">("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [points, setPoints] = useState("");
+  // Entered in hours, stored in minutes
+  const [estimateHours, setEstimateHours] = useState("");
+  const [assignedUserId, setAssignedUserId] = useState("");
+  const [projectId, setProjectId] = useState("");
+  const [sprintId, setSprintId] = useState("");
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
+  const [scope, setScope] = useState<"" | "following">("");
+  const [customFields, setCustomFields] = useState<CustomFieldDraft>({});
+  const [subtaskTitle, setSubtaskTitle] = useState("");
+
+  // Refetches after checklist or assignee changes must not wipe unsaved edits,
+  // so the form is only filled once per opening. The task it was filled from is the
+  // version a save is made against
+  const loadedTaskId = useRef<number | null>(null);
+  const baseTask = useRef<Task | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      loadedTaskId.current = null;
+      return;
+    }
+    if (!task || loadedTaskId.current === task.id) return;
+    loadedTaskId.current = task.id;
+    baseTask.current = task;
+    setTitle(task.title);
+    setDescription(task.description ?? "");
+    setPriority(task.priority ?? "");
+    setTags(task.tags?.map((tag) => tag.name) ?? []);
+    setStartDate(toDateInput(task.startDate));
+    setDueDate(toDateInput(task.dueDate));
+    setPoints(
+      task.points !== undefined && task.points !== null
+        ? String(task.points)
+        : "",
+    );
+    setEstimateHours(
+      task.estimateMinutes ? String(task.estimateMinutes / 60) : "",
+    );
+    setAssignedUserId(task.assignedUserId ? String(task.assignedUserId) : "");
+    setProjectId(String(task.projectId));
+    setSprintId(task.sprintId ? String(task.sprintId) : "");
+    setRecurrence(toRecurrence(task.series));
+    setScope("");
+    setCustomFields(task.customFields ?? {});
+  }, [task, isOpen]);
+
+  // A refetch that leaves the form's fields as they were, after adding a checklist item say,
+  // moves the base along so a save afterwards is not taken for a conflict
+  useEffect(() => {
+    const base = baseTask.current;
+    if (!task || !base || base.id !== task.id) return;
+    const isUnchanged = FORM_FIELDS.every(
+      (field) =>
+        comparableValue(field, task[field]) ===
+        comparableValue(field, base[field]),
+    );
+    if (isUnchanged) baseTask.current = task;
+  }, [task]);
+
+  const canUpdate = access?.permissions.includes("task:update") ?? false;
+  const canDelete = access?.permissions.includes("task:delete") ?? false;
+
+  const handleSave = async () => {
+    const base = baseTask.current ?? task;
+    if (!base || !title) return;
+    // The rule is only sent when it changed; the server applies it from this occurrence on
+    const recurrenceChanged =
+      JSON.stringify(recurrence) !== JSON.stringify(toRecurrence(base.series));
+    const isMoving = Number(projectId) !== base.projectId;
+    const fields: TaskUpdate = {
+      title,
+      description,
+      priority: priority || undefined,
+      tags,
+      startDate: toIsoDate(startDate),
+      dueDate: toIsoDate(dueDate),
+      points: points ? Number(points) : null,
+      estimateMinutes: estimateHours
+        ? Math.round(Number(estimateHours) * 60)
+        : null,
+      assignedUserId: assignedUserId ? Number(assignedUserId) : null,
+      projectId: isMoving ? Number(projectId) : undefined,
+      // A moved task leaves its sprint, since sprints belong to the project
+      sprintId: isMoving ? undefined : sprintId ? Number(sprintId) : null,
+    };
+    // Only the fields edited here are sent, so saving does not undo what others changed meanwhile
+    const edited = Object.fromEntries(
+      Object.entries(fields).filter(
+        ([field, value]) =>
+          value !== undefined &&
+          comparableValue(field, value) !==
+            comparableValue(field, base[field as keyof Task]),
+      ),
+    );
+    // Values belong to the current project's fields and do not follow a moved task
+    const customFieldsChanged =
+      !isMoving &&
+      JSON.stringify(customFields) !== JSON.stringify(base.customFields ?? {});
+    await updateTask({
+      taskId: base.id,
+      version: base.updatedAt,
+      scope: scope || undefined,
+      recurrence: recurrenceChanged ? recurrence : undefined,
+      ...edited,
+      customFields: customFieldsChanged ? customFields : undefined,
+    })
+      .unwrap()
+      .then(onClose)
+      .catch((error) => {
+        // Someone else saved the task meanwhile; the conflict dialog takes over the save
+        if (error?.status === 409) {
+          onClose();
+          return;
+        }
+        window.alert(error?.data?.message ?? "Could not save the task");
+      });
+  };
+
+  // Ticking a subtask moves it to the first done status, unticking to the first to-do one
+  const checkboxStatus = (checked: boolean) => {
+    const category = checked ? "done" : "todo";
+    return (
+      statuses?.find((status) => status.category === category)?.name ??
+      statuses?.[0]?.name ??
+      ""
+    );
+  };
+
+  const handleAddSubtask = async () => {
+    if (!task || !subtaskTitle.trim()) return;
+    await createTask({
+      title: subtaskTitle,
+      projectId: task.projectId,
+      parentTaskId: task.id,
+    });
+    setSubtaskTitle("");
+  };
+
+  const handleDelete = async () => {
+    if (
+      !task ||
+      !window.confirm(
+        `Move "${task.title}" to the trash? It can be restored from the Trash page.`,
+      )
+    )
+      return;
+    await deleteTask(task.id);
+    onClose();
+  };
+
+  const handleToggleArchived = () => {
+    if (!task) return;
+    const request = task.archivedAt
+      ? unarchiveTask(task.id)
+      : archiveTask(task.id);
+    request
+      .unwrap()
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not archive the task"),
+      );
+  };
+
+  const selectStyles =
+    "mb-4 block w-full rounded border border-gray-300 px-3 py-2 dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white dark:focus:outline-none";
+
+  const inputStyles =
+    "w-full rounded border border-gray-300 p-2 shadow-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white dark:focus:outline-none";
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} name="Task Details">
+      {isTaskLoading || !task ? (
+        <div className="dark:text-white">Loading...</div>
+      ) : (
+        <>
+          {task.archivedAt && (
+            <div className="mt-4 rounded bg-gray-100 px-3 py-2 text-sm text-gray-600 dark:bg-dark-tertiary dark:text-neutral-300">
+              Archived on {format(new Date(task.archivedAt), "PP")}
+            </div>
+          )}
+          <form
+            className="mt-4 space-y-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <fieldset className="space-y-6" disabled={!canUpdate}>
+              <input
+                type="text"
+                className={inputStyles}
+                placeholder="Title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+              <textarea
+                className={inputStyles}
+                placeholder="Description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+              <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 sm:gap-2">
+                <select
+                  className={selectStyles}
+                  value={priority}
+                  onChange={(e) => setPriority(e.target.value as Priority)}
+                >
+                  <option value="">Select Priority</option>
+                  {Object.values(Priority).map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    className={inputStyles}
+                    placeholder="Points"
+                    value={points}
+                    onChange={(e) => setPoints(e.target.value)}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.25}
+                    className={inputStyles}
+                    placeholder="Estimate (hours)"
+                    value={estimateHours}
+                    onChange={(e) => setEstimateHours(e.target.value)}
+                  />
+                </div>
+              </div>
+              <TagInput
+                projectId={task.projectId}
+                value={tags}
+                onChange={setTags}
+              />
+              <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 sm:gap-2">
+                <input
+                  type="date"
+                  className={inputStyles}
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+                <input
+                  type="date"
+                  className={inputStyles}
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                />
+                <select
+                  className={selectStyles}
+                  value={assignedUserId}
+                  onChange={(e) => setAssignedUserId(e.target.value)}
+                >
+                  <option value="">No primary assignee</option>
+                  {users?.map((user) => (
+                    <option key={user.userId} value={user.userId}>
+                      {user.username}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className={selectStyles}
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                >
+                  {projects?.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {Number(projectId) === task.projectId && (
+                <select
+                  className={selectStyles}
+                  value={sprintId}
+                  onChange={(e) => setSprintId(e.target.value)}
+                >
+                  <option value="">Backlog (no sprint)</option>
+                  {sprints
+                    ?.filter(
+                      (sprint) =>
+                        sprint.state !== "completed" ||
+                        sprint.id === task.sprintId,
+                    )
+                    .map((sprint) => (
+                      <option
+                        key={sprint.id}
+                        value={sprint.id}
+                        disabled={sprint.state === "completed"}
+                      >
+                        {sprint.name}
+                        {sprint.state === "active" ? " (active)" : ""}
+                      </option>
+                    ))}
+                </select>
+              )}
+              {Number(projectId) === task.projectId && (
+                <CustomFieldInputs
+                  projectId={task.projectId}
+                  value={customFields}
+                  onChange={setCustomFields}
+                />
+              )}
+              <div>
+                <div className="mb-2 text-sm font-semibold dark:text-white">
+                  Assignees
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {task.taskAssignments?.map((assignment) => (
+                    <span
+                      key={assignment.id}
+                      className="flex items-center gap-1 rounded-full bg-blue-100 px-2 py-1 text-xs"
+                    >
+                      {assignment.user?.username ?? assignment.userId}
+                      <button
+                        type="button"
+                        className="text-gray-500 hover:text-red-600"
+                        onClick={() =>
+                          removeAssignee({
+                            taskId: task.id,
+                            userId: assignment.userId,
+                          })
+                        }
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  <select
+                    className="rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white"
+                    value=""
+                    onChange={(e) =>
+                      addAssignee({
+                        taskId: task.id,
+                        userId: Number(e.target.value),
+                      })
+                    }
+                  >
+                    <option value="">Add assignee...</option>
+                    {users
+                      ?.filter(
+                        (user) =>
+                          !task.taskAssignments?.some(
+                            (assignment) => assignment.userId === user.userId,
+                          ),
+                      )
+                      .map((user) => (
+                        <option key={user.userId} value={user.userId}>
+                          {user.username}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <div className="mb-2 text-sm font-semibold dark:text-white">
+                  Repeat
+                  {task.seriesId && task.occurrence && (
+                    <span className="ml-2 font-normal text-gray-500 dark:text-neutral-400">
+                      Occurrence {task.occurrence}
+                    </span>
+                  )}
+                </div>
+                <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+                {task.seriesId && (
+                  <select
+                    className={`mt-2 ${selectStyles}`}
+                    value={scope}
+                    onChange={(e) =>
+                      setScope(e.target.value as "" | "following")
+                    }
+                  >
+                    <option value="">Save changes to this task only</option>
+                    <option value="following">
+                      Save changes to this and following tasks
+                    </option>
+                  </select>
+                )}
+              </div>
+            </fieldset>
+            <div className="flex gap-2">
+              {canUpdate && (
+                <button
+                  type="submit"
+                  className={`focus-offset-2 flex flex-1 justify-center rounded-md border border-transparent bg-blue-primary px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-600 ${
+                    !title || isSaving ? "cursor-not-allowed opacity-50" : ""
+                  }`}
+                  disabled={!title || isSaving}
+                >
+                  {isSaving ? "Saving..." : "Save Changes"}
+                </button>
+              )}
+              {canUpdate && (
+                <button
+                  type="button"
+                  className={`flex justify-center rounded-md border border-gray-300 px-4 py-2 text-base font-medium text-gray-700 shadow-sm hover:bg-gray-100 dark:border-dark-tertiary dark:text-white dark:hover:bg-dark-tertiary ${
+                    isArchiving || isUnarchiving
+                      ? "cursor-not-allowed opacity-50"
+                      : ""
+                  }`}
+                  disabled={isArchiving || isUnarchiving}
+                  onClick={handleToggleArchived}
+                >
+                  {task.archivedAt ? "Unarchive" : "Archive"}
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  type="button"
+                  className={`flex justify-center rounded-md border border-transparent bg-red-500 px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-red-600 ${
+                    isDeleting ? "cursor-not-allowed opacity-50" : ""
+                  }`}
+                  disabled={isDeleting}
+                  onClick={handleDelete}
+                >
+                  {isDeleting ? "Deleting..." : "Delete"}
+                </button>
+              )}
+            </div>
+          </form>
+          {task.progress && task.progress.total > 0 && (
+            <div className="mt-4 text-sm text-gray-500 dark:text-neutral-400">
+              {task.progress.percent}% complete
+              {task.progress.rollupPoints !== null &&
+                ` · ${task.progress.rollupPoints} pts including subtasks`}
+            </div>
+          )}
+          {!task.parentTaskId && (
+            <div className="mt-6 border-t border-gray-200 pt-4 dark:border-stroke-dark">
+              <h3 className="text-md mb-2 font-semibold dark:text-white">
+                Subtasks
+              </h3>
+              <ul className="space-y-1">
+                {task.subtasks?.map((subtask) => (
+                  <li
+                    key={subtask.id}
+                    className="flex items-center gap-2 text-sm dark:text-neutral-200"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isDoneStatus(statuses, subtask.status)}
+                      disabled={!canUpdate || !statuses}
+                      onChange={(e) =>
+                        updateTaskStatus({
+                          taskId: subtask.id,
+                          version: subtask.updatedAt,
+                          status: checkboxStatus(e.target.checked),
+                        })
+                          .unwrap()
+                          .catch((error) =>
+                            window.alert(
+                              error?.data?.message ??
+                                "Could not update subtask",
+                            ),
+                          )
+                      }
+                    />
+                    <span className="flex-1">{subtask.title}</span>
+                    <span className="text-xs text-gray-500 dark:text-neutral-400">
+                      {subtask.status}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {access?.permissions.includes("task:create") && (
+                <form
+                  className="mt-2 flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleAddSubtask();
+                  }}
+                >
+                  <input
+                    type="text"
+                    className={`flex-1 ${inputStyles}`}
+                    placeholder="Add a subtask"
+                    value={subtaskTitle}
+                    onChange={(e) => setSubtaskTitle(e.target.value)}
+                  />
+                  <button
+                    type="submit"
+                    className={`rounded bg-blue-primary px-3 py-2 text-sm text-white hover:bg-blue-600 ${
+                      !subtaskTitle.trim() || isAddingSubtask
+                        ? "cursor-not-allowed opacity-50"
+                        : ""
+                    }`}
+                    disabled={!subtaskTitle.trim() || isAddingSubtask}
+                  >
+                    Add
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+          <TaskDependencies task={task} canEdit={canUpdate} />
+          <TaskChecklist
+            taskId={task.id}
+            items={task.checklistItems ?? []}
+            canEdit={canUpdate}
+          />
+          <TaskTimeTracking
+            task={task}
+            canLog={canUpdate}
+            canManage={access?.permissions.includes("project:update") ?? false}
+          />
+          <TaskWatchers taskId={task.id} />
+          <TaskActivity taskId={task.id} users={users} />
+          <TaskComments
+            taskId={task.id}
+            canComment={access?.permissions.includes("comment:create") ?? false}
+            canModerate={
+              access?.permissions.includes("comment:moderate") ?? false
+            }
+          />
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default ModalTaskDetails;
@@ -0,0 +1,109 @@
+import {
+  Notification,
+  useGetNotificationsQuery,
+  useMarkAllNotificationsReadMutation,
+  useMarkNotificationReadMutation,
+} from "@/state/api";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { useRouter } from "next/navigation";
+import React, { useEffect, useRef, useState } from "react";
+
+// New notifications show up without a reload
+const POLLING_INTERVAL_MS = 60 * 1000;
+
+const NotificationBell = () => {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { data } = useGetNotificationsQuery(undefined, {
+    pollingInterval: POLLING_INTERVAL_MS,
+  });
+  const [markRead] = useMarkNotificationReadMutation();
+  const [markAllRead] = useMarkAllNotificationsReadMutation();
+  const unreadCount = data?.unreadCount ?? 0;
+
+  // Clicking anywhere else closes the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) markRead(notification.id);
+    setIsOpen(false);
+    if (notification.task) {
+      router.push(`/projects/${notification.task.projectId}`);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        className="relative h-min w-min rounded p-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Notifications"
+      >
+        <Bell className="h-6 w-6 cursor-pointer dark:text-white" />
+        {unreadCount > 0 && (
+          <span className="absolute right-0 top-0 flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-red-500 px-1 text-xs text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 rounded-md bg-white shadow-lg dark:bg-dark-secondary">
+          <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2 dark:border-stroke-dark">
+            <span className="font-semibold dark:text-white">Notifications</span>
+            <button
+              className="text-xs text-blue-primary hover:underline disabled:text-gray-400 disabled:no-underline"
+              disabled={unreadCount === 0}
+              onClick={() => markAllRead()}
+            >
+              Mark all read
+            </button>
+          </div>
+          <ul className="max-h-96 overflow-y-auto">
+            {data?.notifications.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-gray-500 dark:text-neutral-400">
+                You are all caught up
+              </li>
+            )}
+            {data?.notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  className={`flex w-full items-start gap-2 px-4 py-2 text-left text-sm hover:bg-gray-100 dark:text-white dark:hover:bg-dark-tertiary ${
+                    notification.readAt ? "opacity-60" : ""
+                  }`}
+                  onClick={() => handleOpen(notification)}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${
+                      notification.readAt ? "bg-transparent" : "bg-blue-primary"
+                    }`}
+                  />
+                  <span className="flex-1">
+                    {notification.message}
+                    <span className="block text-xs text-gray-500 dark:text-neutral-400">
+                      {formatDistanceToNow(new Date(notification.createdAt), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -8,6 +8,7 @@ import { Auth } from 'aws-amplify';
 import { useRouter } from 'next/navigation';
 import { useGetAuthUserQuery } from '@/state/api';
 import { useAuth } from '@/context/AuthContext';
+import NotificationBell from './NotificationBell';
 
 const Navbar = () => {
   const router = useRouter();
@@ -64,6 +65,8 @@ const Navbar = () => {
           {isDarkMode ? <Sun className='h-6 w-6 cursor-pointer dark:text-white' /> : <Moon className='h-6 w-6 cursor-pointer dark:text-white' />}
         </button>
 
+        <NotificationBell />
+
         <Link 
           href='/settings' 
           className={isDarkMode ? `h-min w-min rounded p-2 dark:hover:bg-gray-700` : `h-min w-min rounded p-2 hover:bg-gray-100`}
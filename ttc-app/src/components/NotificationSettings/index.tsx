@@ -0,0 +1,59 @@
+"use client";
+
+import {
+  NotificationCategory,
+  useGetNotificationPreferencesQuery,
+  useUpdateNotificationPreferencesMutation,
+} from "@/state/api";
+import React from "react";
+
+const CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  assigned: "I am assigned to a task",
+  status: "A task I watch changes status",
+  comment: "Someone comments on a task I watch",
+  mention: "Someone mentions me in a comment",
+  due: "A task of mine is due soon or overdue",
+};
+
+// Categories are on unless muted; every change saves straight away
+const NotificationSettings = () => {
+  const { data: preferences, isLoading } = useGetNotificationPreferencesQuery();
+  const [updatePreferences, { isLoading: isSaving }] =
+    useUpdateNotificationPreferencesMutation();
+
+  if (isLoading || !preferences) return <div>Loading...</div>;
+
+  const toggle = (category: NotificationCategory) =>
+    updatePreferences({
+      muted: preferences.muted.includes(category)
+        ? preferences.muted.filter((value) => value !== category)
+        : [...preferences.muted, category],
+    })
+      .unwrap()
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not save the preferences"),
+      );
+
+  return (
+    <fieldset className="space-y-2" disabled={isSaving}>
+      <div className="text-sm font-medium dark:text-white">Notify me when</div>
+      {(Object.keys(CATEGORY_LABELS) as NotificationCategory[]).map(
+        (category) => (
+          <label
+            key={category}
+            className="flex items-center gap-2 text-sm dark:text-white"
+          >
+            <input
+              type="checkbox"
+              checked={!preferences.muted.includes(category)}
+              onChange={() => toggle(category)}
+            />
+            {CATEGORY_LABELS[category]}
+          </label>
+        ),
+      )}
+    </fieldset>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,115 @@
+import { Recurrence, RecurrenceFrequency } from "@/state/api";
+import { format, formatISO } from "date-fns";
+import React from "react";
+
+type Props = {
+  value: Recurrence | null;
+  onChange: (value: Recurrence | null) => void;
+};
+
+type EndType = "never" | "until" | "count";
+
+const inputStyles =
+  "w-full rounded border border-gray-300 p-2 shadow-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white dark:focus:outline-none";
+
+const RecurrenceFields = ({ value, onChange }: Props) => {
+  const endType: EndType = value?.until
+    ? "until"
+    : value?.count
+      ? "count"
+      : "never";
+
+  const update = (patch: Partial<Recurrence>) =>
+    value && onChange({ ...value, ...patch });
+
+  const handleEndTypeChange = (type: EndType) =>
+    update({
+      until:
+        type === "until"
+          ? formatISO(new Date(), { representation: "complete" })
+          : null,
+      count: type === "count" ? 5 : null,
+    });
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        <select
+          className={inputStyles}
+          value={value?.frequency ?? ""}
+          onChange={(e) =>
+            onChange(
+              e.target.value
+                ? {
+                    interval: 1,
+                    ...value,
+                    frequency: e.target.value as RecurrenceFrequency,
+                  }
+                : null,
+            )
+          }
+        >
+          <option value="">Does not repeat</option>
+          <option value="daily">Repeats daily</option>
+          <option value="weekly">Repeats weekly</option>
+          <option value="monthly">Repeats monthly</option>
+        </select>
+        {value && (
+          <input
+            type="number"
+            min={1}
+            className={inputStyles}
+            placeholder="Every"
+            value={value.interval}
+            onChange={(e) =>
+              update({ interval: Math.max(1, Number(e.target.value)) })
+            }
+          />
+        )}
+      </div>
+      {value && (
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          <select
+            className={inputStyles}
+            value={endType}
+            onChange={(e) => handleEndTypeChange(e.target.value as EndType)}
+          >
+            <option value="never">Never ends</option>
+            <option value="until">Ends on date</option>
+            <option value="count">Ends after occurrences</option>
+          </select>
+          {endType === "until" && (
+            <input
+              type="date"
+              className={inputStyles}
+              value={
+                value.until ? format(new Date(value.until), "yyyy-MM-dd") : ""
+              }
+              onChange={(e) =>
+                e.target.value &&
+                update({
+                  until: formatISO(new Date(e.target.value), {
+                    representation: "complete",
+                  }),
+                })
+              }
+            />
+          )}
+          {endType === "count" && (
+            <input
+              type="number"
+              min={1}
+              className={inputStyles}
+              value={value.count ?? ""}
+              onChange={(e) =>
+                update({ count: Math.max(1, Number(e.target.value)) })
+              }
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,121 @@
+"use client";
+
+import {
+  ReminderChannel,
+  useGetReminderPreferencesQuery,
+  useUpdateReminderPreferencesMutation,
+} from "@/state/api";
+import React, { useState } from "react";
+
+const DAY_OPTIONS = [14, 7, 3, 1];
+
+const CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  inApp: "In the app",
+  email: "By email",
+};
+
+// Which due-date reminders the signed-in user gets and how; every change saves straight away
+const ReminderSettings = () => {
+  const { data: preferences, isLoading } = useGetReminderPreferencesQuery();
+  const [updatePreferences, { isLoading: isSaving }] =
+    useUpdateReminderPreferencesMutation();
+  const [customDays, setCustomDays] = useState("");
+
+  if (isLoading || !preferences) return <div>Loading...</div>;
+
+  const save = (patch: Parameters<typeof updatePreferences>[0]) =>
+    updatePreferences(patch)
+      .unwrap()
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not save the preferences"),
+      );
+
+  const toggleDays = (days: number) =>
+    save({
+      reminderDaysBefore: preferences.reminderDaysBefore.includes(days)
+        ? preferences.reminderDaysBefore.filter((value) => value !== days)
+        : [...preferences.reminderDaysBefore, days],
+    });
+
+  const toggleChannel = (channel: ReminderChannel) =>
+    save({
+      reminderChannels: preferences.reminderChannels.includes(channel)
+        ? preferences.reminderChannels.filter((value) => value !== channel)
+        : [...preferences.reminderChannels, channel],
+    });
+
+  const dayOptions = Array.from(
+    new Set([...DAY_OPTIONS, ...preferences.reminderDaysBefore]),
+  ).sort((a, b) => b - a);
+
+  const checkboxLabelStyles = "flex items-center gap-2 text-sm dark:text-white";
+
+  return (
+    <fieldset className="space-y-3" disabled={isSaving}>
+      <div>
+        <div className="mb-1 text-sm font-medium dark:text-white">
+          Remind me before a task is due
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          {dayOptions.map((days) => (
+            <label key={days} className={checkboxLabelStyles}>
+              <input
+                type="checkbox"
+                checked={preferences.reminderDaysBefore.includes(days)}
+                onChange={() => toggleDays(days)}
+              />
+              {days === 1 ? "1 day" : `${days} days`}
+            </label>
+          ))}
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!Number(customDays)) return;
+              toggleDays(Number(customDays));
+              setCustomDays("");
+            }}
+          >
+            <input
+              type="number"
+              min={1}
+              max={30}
+              className="w-20 rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white"
+              placeholder="Days"
+              value={customDays}
+              onChange={(e) => setCustomDays(e.target.value)}
+            />
+            <button
+              type="submit"
+              className="rounded bg-gray-200 px-2 py-1 text-sm hover:bg-gray-300 dark:bg-dark-tertiary dark:text-white"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+      </div>
+      <label className={checkboxLabelStyles}>
+        <input
+          type="checkbox"
+          checked={preferences.remindOverdue}
+          onChange={() => save({ remindOverdue: !preferences.remindOverdue })}
+        />
+        Remind me when a task is overdue
+      </label>
+      <div className="flex flex-wrap gap-4">
+        {(Object.keys(CHANNEL_LABELS) as ReminderChannel[]).map((channel) => (
+          <label key={channel} className={checkboxLabelStyles}>
+            <input
+              type="checkbox"
+              checked={preferences.reminderChannels.includes(channel)}
+              onChange={() => toggleChannel(channel)}
+            />
+            {CHANNEL_LABELS[channel]}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
+
+export default ReminderSettings;
@@ -0,0 +1,146 @@
+import { countTaskFilters } from "@/lib/utils";
+import {
+  SavedView,
+  TaskFilters,
+  useCreateSavedViewMutation,
+  useDeleteSavedViewMutation,
+  useGetAuthUserQuery,
+  useGetSavedViewsQuery,
+  useUpdateSavedViewMutation,
+} from "@/state/api";
+import { RefreshCw, Save, Trash2 } from "lucide-react";
+import React from "react";
+
+type Props = {
+  projectId: number;
+  filters: TaskFilters;
+  activeViewId: number | null;
+  // Sharing with the project, and managing shared views, is for people who can update the project
+  canShare: boolean;
+  onSelect: (view: SavedView | null) => void;
+};
+
+// Picks, saves, updates and deletes the named filter sets of a project
+const SavedViews = ({
+  projectId,
+  filters,
+  activeViewId,
+  canShare,
+  onSelect,
+}: Props) => {
+  const { data: views } = useGetSavedViewsQuery(projectId);
+  const { data: authData } = useGetAuthUserQuery();
+  const [createView] = useCreateSavedViewMutation();
+  const [updateView] = useUpdateSavedViewMutation();
+  const [deleteView] = useDeleteSavedViewMutation();
+
+  const currentUserId = authData?.userDetails?.userId;
+  const activeView = views?.find((view) => view.id === activeViewId);
+  const canManage =
+    !!activeView &&
+    (activeView.userId === currentUserId || (activeView.shared && canShare));
+  const myViews = views?.filter((view) => view.userId === currentUserId) ?? [];
+  const sharedViews =
+    views?.filter((view) => view.userId !== currentUserId) ?? [];
+
+  const handleSave = () => {
+    const name = window.prompt("View name");
+    if (!name?.trim()) return;
+    const shared =
+      canShare &&
+      window.confirm("Share this view with everyone on the project?");
+    createView({ projectId, name: name.trim(), filters, shared })
+      .unwrap()
+      .then(onSelect)
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not save the view"),
+      );
+  };
+
+  const handleUpdate = () => {
+    if (!activeView) return;
+    updateView({ projectId, viewId: activeView.id, filters })
+      .unwrap()
+      .then(onSelect)
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not update the view"),
+      );
+  };
+
+  const handleDelete = () => {
+    if (!activeView) return;
+    if (!window.confirm(`Delete the view "${activeView.name}"?`)) return;
+    deleteView({ projectId, viewId: activeView.id })
+      .unwrap()
+      .then(() => onSelect(null))
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not delete the view"),
+      );
+  };
+
+  const buttonStyles =
+    "text-gray-500 hover:text-gray-600 disabled:opacity-40 dark:text-neutral-500 dark:hover:text-gray-300";
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        className="rounded-md border py-1 pl-2 pr-6 text-sm dark:border-dark-secondary dark:bg-dark-secondary dark:text-white"
+        value={activeViewId ?? ""}
+        onChange={(e) =>
+          onSelect(
+            views?.find((view) => view.id === Number(e.target.value)) ?? null,
+          )
+        }
+      >
+        <option value="">All tasks</option>
+        {myViews.length > 0 && (
+          <optgroup label="My views">
+            {myViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.name}
+                {view.shared ? " (shared)" : ""}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {sharedViews.length > 0 && (
+          <optgroup label="Shared with the project">
+            {sharedViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.name} · {view.user?.username}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <button
+        className={buttonStyles}
+        onClick={handleSave}
+        disabled={countTaskFilters(filters) === 0}
+        title="Save the filters as a new view"
+      >
+        <Save className="h-5 w-5" />
+      </button>
+      {canManage && (
+        <>
+          <button
+            className={buttonStyles}
+            onClick={handleUpdate}
+            title={`Save the filters to "${activeView?.name}"`}
+          >
+            <RefreshCw className="h-5 w-5" />
+          </button>
+          <button
+            className={buttonStyles}
+            onClick={handleDelete}
+            title={`Delete "${activeView?.name}"`}
+          >
+            <Trash2 className="h-5 w-5" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SavedViews;
@@ -0,0 +1,27 @@
+import { findStatus } from "@/lib/utils";
+import { useGetProjectStatusesQuery } from "@/state/api";
+import React from "react";
+
+type Props = {
+  projectId: number;
+  name?: string;
+};
+
+// Looks the colour up in the project's workflow; the query is shared by every chip of the project
+const StatusChip = ({ projectId, name }: Props) => {
+  const { data: statuses } = useGetProjectStatusesQuery(projectId);
+  if (!name) return null;
+  const status = findStatus(statuses, name);
+
+  return (
+    <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 text-xs font-semibold leading-5 text-gray-800">
+      <span
+        className="h-2 w-2 rounded-full"
+        style={{ backgroundColor: status?.color ?? "#6B7280" }}
+      />
+      {name}
+    </span>
+  );
+};
+
+export default StatusChip;
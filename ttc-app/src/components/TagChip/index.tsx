@@ -0,0 +1,27 @@
+import { Tag } from "@/state/api";
+import React from "react";
+
+type Props = {
+  tag: Pick<Tag, "name" | "color">;
+  onRemove?: () => void;
+};
+
+const TagChip = ({ tag, onRemove }: Props) => (
+  <span
+    className="flex items-center gap-1 rounded-full px-2 py-1 text-xs text-gray-800"
+    style={{ backgroundColor: tag.color }}
+  >
+    {tag.name}
+    {onRemove && (
+      <button
+        type="button"
+        className="text-gray-600 hover:text-red-600"
+        onClick={onRemove}
+      >
+        ×
+      </button>
+    )}
+  </span>
+);
+
+export default TagChip;
@@ -0,0 +1,88 @@
+import TagChip from "@/components/TagChip";
+import { useGetTagsQuery } from "@/state/api";
+import React, { useState } from "react";
+
+type Props = {
+  projectId?: number;
+  value: string[];
+  onChange: (names: string[]) => void;
+};
+
+const DEFAULT_TAG_COLOR = "#dbeafe";
+
+// Suggests the project's tags and reuses their spelling, so "design" becomes the existing "Design"
+const TagInput = ({ projectId, value, onChange }: Props) => {
+  const { data: tags } = useGetTagsQuery(projectId ?? 0, {
+    skip: !projectId,
+  });
+  const [text, setText] = useState("");
+
+  const findTag = (name: string) =>
+    tags?.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+
+  const addTag = (raw: string) => {
+    const name = raw.trim();
+    setText("");
+    if (!name) return;
+    if (
+      value.some((existing) => existing.toLowerCase() === name.toLowerCase())
+    ) {
+      return;
+    }
+    onChange([...value, findTag(name)?.name ?? name]);
+  };
+
+  const suggestions =
+    tags?.filter(
+      (tag) =>
+        !value.some((name) => name.toLowerCase() === tag.name.toLowerCase()),
+    ) ?? [];
+  const listId = `tag-suggestions-${projectId ?? "none"}`;
+
+  return (
+    <div className="flex w-full flex-wrap items-center gap-2 rounded border border-gray-300 p-2 shadow-sm dark:border-dark-tertiary dark:bg-dark-tertiary">
+      {value.map((name) => (
+        <TagChip
+          key={name}
+          tag={{ name, color: findTag(name)?.color ?? DEFAULT_TAG_COLOR }}
+          onRemove={() => onChange(value.filter((other) => other !== name))}
+        />
+      ))}
+      <input
+        type="text"
+        list={listId}
+        className="min-w-[8rem] flex-1 bg-transparent focus:outline-none dark:text-white"
+        placeholder={value.length === 0 ? "Tags" : ""}
+        value={text}
+        onChange={(e) => {
+          // Picking a suggestion (an input event without typed text) or typing a comma completes the tag
+          const { inputType } = e.nativeEvent as InputEvent;
+          const isPicked = !inputType || inputType === "insertReplacementText";
+          if (e.target.value.endsWith(",")) {
+            addTag(e.target.value.slice(0, -1));
+          } else if (isPicked && findTag(e.target.value)) {
+            addTag(e.target.value);
+          } else {
+            setText(e.target.value);
+          }
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            addTag(text);
+          } else if (e.key === "Backspace" && !text && value.length > 0) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+        onBlur={() => addTag(text)}
+      />
+      <datalist id={listId}>
+        {suggestions.map((tag) => (
+          <option key={tag.id} value={tag.name} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,139 @@
+import {
+  TaskActivity as Activity,
+  useGetTaskActivityQuery,
+  User,
+} from "@/state/api";
+import { format } from "date-fns";
+import React from "react";
+
+type Props = {
+  taskId: number;
+  users?: User[];
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  assignedUserId: "primary assignee",
+  startDate: "start date",
+  dueDate: "due date",
+  projectId: "project",
+  sprintId: "sprint",
+  isDone: "done",
+  blockedBy: "blocked by",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  created: "created the task",
+  assignee_added: "added assignee",
+  assignee_removed: "removed assignee",
+  checklist_added: "added checklist item",
+  checklist_removed: "removed checklist item",
+  checklist_reordered: "reordered the checklist",
+  dependency_added: "linked",
+  dependency_removed: "unlinked",
+  comment_added: "commented",
+  comment_deleted: "deleted a comment",
+  archived: "archived the task",
+  unarchived: "unarchived the task",
+  deleted: "moved the task to the trash",
+  restored: "restored the task from the trash",
+};
+
+const TaskActivity = ({ taskId, users }: Props) => {
+  const { data: activity, isLoading } = useGetTaskActivityQuery(taskId);
+
+  // Dates come back as ISO strings and user ids as numbers; show both the way the form does
+  const formatValue = (
+    field: string | null | undefined,
+    value?: string | null,
+  ) => {
+    if (value === null || value === undefined || value === "") return "none";
+    if (field === "assignedUserId") {
+      return (
+        users?.find((user) => String(user.userId) === value)?.username ?? value
+      );
+    }
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) return format(new Date(value), "P");
+    return value;
+  };
+
+  const describe = (entry: Activity) => {
+    const field = entry.field ? (FIELD_LABELS[entry.field] ?? entry.field) : "";
+    switch (entry.action) {
+      case "updated":
+      case "checklist_updated":
+        return (
+          <>
+            changed {entry.action === "checklist_updated" && "checklist item "}
+            {field} from{" "}
+            <span className="font-medium">
+              {formatValue(entry.field, entry.oldValue)}
+            </span>{" "}
+            to{" "}
+            <span className="font-medium">
+              {formatValue(entry.field, entry.newValue)}
+            </span>
+          </>
+        );
+      case "dependency_added":
+      case "dependency_removed":
+        return (
+          <>
+            {ACTION_LABELS[entry.action]} {field}{" "}
+            <span className="font-medium">
+              {entry.newValue ?? entry.oldValue}
+            </span>
+          </>
+        );
+      case "comment_added":
+      case "comment_deleted":
+      case "created":
+      case "checklist_reordered":
+      case "archived":
+      case "unarchived":
+      case "deleted":
+      case "restored":
+        return ACTION_LABELS[entry.action];
+      default:
+        return (
+          <>
+            {ACTION_LABELS[entry.action] ?? entry.action}{" "}
+            <span className="font-medium">
+              {entry.newValue ?? entry.oldValue}
+            </span>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4 dark:border-stroke-dark">
+      <h3 className="text-md mb-2 font-semibold dark:text-white">Activity</h3>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading activity...</p>
+      ) : !activity?.length ? (
+        <p className="text-sm text-gray-500 dark:text-neutral-400">
+          No activity yet
+        </p>
+      ) : (
+        <ol className="max-h-64 space-y-2 overflow-y-auto">
+          {activity.map((entry) => (
+            <li
+              key={entry.id}
+              className="border-l-2 border-gray-200 pl-3 text-sm dark:border-stroke-dark dark:text-neutral-200"
+            >
+              <span className="font-semibold">
+                {entry.actor?.username ?? "System"}
+              </span>{" "}
+              {describe(entry)}
+              <div className="text-xs text-gray-500 dark:text-neutral-400">
+                {format(new Date(entry.createdAt), "PPp")}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TaskActivity;
@@ -1,15 +1,34 @@
 import { Task } from "@/state/api";
 import { format } from "date-fns";
 import Image from "next/image";
-import React from 'react'
+import React, { useState } from 'react'
+import { Pencil } from "lucide-react";
+import ModalTaskDetails from "@/components/ModalTaskDetails";
+import AvatarStack from "@/components/AvatarStack";
+import TagChip from "@/components/TagChip";
+import { formatMinutes, getTaskAssignees } from "@/lib/utils";
 
 type Props = {
     task: Task
 }
 
 const TaskCard = ({ task }: Props) => {
+  const [ isDetailsOpen, setIsDetailsOpen ] = useState(false);
+
   return (
-    <div className="mb-3 rounde bg-white p-4 shadow dark:bg-dark-secondary dark:text-white">
+    <div className="relative mb-3 rounde bg-white p-4 shadow dark:bg-dark-secondary dark:text-white">
+        <ModalTaskDetails
+            isOpen = { isDetailsOpen }
+            onClose = {() => setIsDetailsOpen( false )}
+            taskId = { task.id }
+        />
+        <button
+            className="absolute right-3 top-3 text-gray-500 hover:text-gray-700 dark:text-neutral-400 dark:hover:text-white"
+            onClick = {() => setIsDetailsOpen( true )}
+            aria-label = "Edit task"
+        >
+            <Pencil size = { 16 } />
+        </button>
         { task.attachments && task.attachments.length > 0 && (
             <div>
                 <strong> Attachments:</strong>
@@ -44,8 +63,15 @@ const TaskCard = ({ task }: Props) => {
             <strong> Priority:</strong> { task.priority }
         </p>
         <p>
-            <strong> Tags:</strong> { task.tags }
+            <strong> Points:</strong> { task.points ?? "None" }
+            { " · " }
+            <strong> Logged:</strong> { formatMinutes( task.loggedMinutes ?? 0 ) }
+            { task.estimateMinutes ? ` of ${ formatMinutes( task.estimateMinutes ) }` : "" }
         </p>
+        <div className="flex flex-wrap items-center gap-2">
+            <strong> Tags:</strong>
+            { task.tags?.map(( tag ) => <TagChip key = { tag.id } tag = { tag } /> )}
+        </div>
         <p>
             <strong> Start Date:</strong> { " " }
             { task.startDate ? format( new Date( task.startDate ), "P" ) : "Net set" }
@@ -59,11 +85,17 @@ const TaskCard = ({ task }: Props) => {
             <strong> Author:</strong> { " " }
             { task.author ? task.author.username : "Unknown" }
         </p>
-        <p>
-            <strong> Assignee:</strong> { " " }
-            { task.assignee ? task.assignee.username : "Unassignd" }
-
-        </p>
+        <div className="flex items-center gap-2">
+            <strong> Assignees:</strong>
+            { getTaskAssignees( task ).length > 0 ? (
+                <>
+                    <AvatarStack users = { getTaskAssignees( task ) } />
+                    <span>{ getTaskAssignees( task ).map(( user ) => user.username ).join( ", " ) }</span>
+                </>
+            ) : (
+                "Unassignd"
+            )}
+        </div>
     </div>
   );
 };
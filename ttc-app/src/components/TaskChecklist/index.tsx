@@ -0,0 +1,133 @@
+import {
+  ChecklistItem,
+  useAddChecklistItemMutation,
+  useDeleteChecklistItemMutation,
+  useReorderChecklistMutation,
+  useUpdateChecklistItemMutation,
+} from "@/state/api";
+import { ChevronDown, ChevronUp, X } from "lucide-react";
+import React, { useState } from "react";
+
+type Props = {
+  taskId: number;
+  items: ChecklistItem[];
+  canEdit: boolean;
+};
+
+const TaskChecklist = ({ taskId, items, canEdit }: Props) => {
+  const [addItem, { isLoading: isAdding }] = useAddChecklistItemMutation();
+  const [updateItem] = useUpdateChecklistItemMutation();
+  const [deleteItem] = useDeleteChecklistItemMutation();
+  const [reorderChecklist] = useReorderChecklistMutation();
+
+  const [text, setText] = useState("");
+
+  const doneCount = items.filter((item) => item.isDone).length;
+
+  const handleAdd = async () => {
+    if (!text.trim()) return;
+    await addItem({ taskId, text });
+    setText("");
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const itemIds = items.map((item) => item.id);
+    [itemIds[index], itemIds[target]] = [itemIds[target], itemIds[index]];
+    reorderChecklist({ taskId, itemIds });
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4 dark:border-stroke-dark">
+      <h3 className="text-md mb-2 font-semibold dark:text-white">
+        Checklist{" "}
+        {items.length > 0 && (
+          <span className="text-sm font-normal text-gray-500 dark:text-neutral-400">
+            ({doneCount}/{items.length})
+          </span>
+        )}
+      </h3>
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={item.id} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={item.isDone}
+              disabled={!canEdit}
+              onChange={(e) =>
+                updateItem({
+                  taskId,
+                  itemId: item.id,
+                  isDone: e.target.checked,
+                })
+              }
+            />
+            <span
+              className={`flex-1 dark:text-neutral-200 ${
+                item.isDone ? "text-gray-400 line-through" : ""
+              }`}
+            >
+              {item.text}
+            </span>
+            {canEdit && (
+              <div className="flex items-center text-gray-500 dark:text-neutral-400">
+                <button
+                  type="button"
+                  className="disabled:opacity-30"
+                  disabled={index === 0}
+                  onClick={() => moveItem(index, -1)}
+                >
+                  <ChevronUp size={16} />
+                </button>
+                <button
+                  type="button"
+                  className="disabled:opacity-30"
+                  disabled={index === items.length - 1}
+                  onClick={() => moveItem(index, 1)}
+                >
+                  <ChevronDown size={16} />
+                </button>
+                <button
+                  type="button"
+                  className="hover:text-red-600"
+                  onClick={() => deleteItem({ taskId, itemId: item.id })}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {canEdit && (
+        <form
+          className="mt-2 flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+        >
+          <input
+            type="text"
+            className="flex-1 rounded border border-gray-300 p-2 text-sm shadow-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white dark:focus:outline-none"
+            placeholder="Add an item"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <button
+            type="submit"
+            className={`rounded bg-blue-primary px-3 py-2 text-sm text-white hover:bg-blue-600 ${
+              !text.trim() || isAdding ? "cursor-not-allowed opacity-50" : ""
+            }`}
+            disabled={!text.trim() || isAdding}
+          >
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TaskChecklist;
@@ -0,0 +1,212 @@
+import {
+  Comment,
+  useCreateCommentMutation,
+  useDeleteCommentMutation,
+  useGetAuthUserQuery,
+  useGetCommentsQuery,
+  useUpdateCommentMutation,
+} from "@/state/api";
+import { format } from "date-fns";
+import React, { useState } from "react";
+
+type Props = {
+  taskId: number;
+  canComment: boolean;
+  canModerate: boolean;
+};
+
+// Highlights "@username" tokens that the server resolved to real users
+const renderWithMentions = (comment: Comment) => {
+  const mentioned = new Set(
+    comment.mentions?.map((mention) => mention.user?.username) ?? [],
+  );
+  return comment.text.split(/(@[A-Za-z0-9_.-]+)/g).map((part, index) =>
+    part.startsWith("@") && mentioned.has(part.slice(1).replace(/\.+$/, "")) ? (
+      <span
+        key={index}
+        className="font-semibold text-blue-600 dark:text-blue-400"
+      >
+        {part}
+      </span>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    ),
+  );
+};
+
+const TaskComments = ({ taskId, canComment, canModerate }: Props) => {
+  const { data: comments, isLoading } = useGetCommentsQuery(taskId);
+  const { data: authData } = useGetAuthUserQuery();
+  const [createComment, { isLoading: isPosting }] = useCreateCommentMutation();
+  const [updateComment] = useUpdateCommentMutation();
+  const [deleteComment] = useDeleteCommentMutation();
+
+  const [text, setText] = useState("");
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editText, setEditText] = useState("");
+
+  const currentUserId = authData?.userDetails?.userId;
+
+  const handlePost = async () => {
+    if (!text.trim()) return;
+    await createComment({ taskId, text, parentId: replyTo?.id });
+    setText("");
+    setReplyTo(null);
+  };
+
+  const handleSaveEdit = async (commentId: number) => {
+    if (!editText.trim()) return;
+    await updateComment({ taskId, commentId, text: editText });
+    setEditingId(null);
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!window.confirm("Delete this comment and its replies?")) return;
+    await deleteComment({ taskId, commentId: comment.id });
+  };
+
+  const inputStyles =
+    "w-full rounded border border-gray-300 p-2 shadow-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white dark:focus:outline-none";
+
+  const renderComment = (comment: Comment, depth: number): React.ReactNode => {
+    const replies =
+      comments?.filter((reply) => reply.parentId === comment.id) ?? [];
+    const isAuthor = comment.userId === currentUserId;
+
+    return (
+      <div
+        key={comment.id}
+        className={
+          depth > 0
+            ? "ml-6 border-l border-gray-200 pl-3 dark:border-stroke-dark"
+            : ""
+        }
+      >
+        <div className="py-2">
+          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-neutral-400">
+            <span className="font-semibold text-gray-800 dark:text-white">
+              {comment.user?.username ?? "Unknown"}
+            </span>
+            <span>{format(new Date(comment.createdAt), "PPp")}</span>
+            {comment.editedAt && <span>(edited)</span>}
+          </div>
+          {editingId === comment.id ? (
+            <div className="mt-1 space-y-2">
+              <textarea
+                className={inputStyles}
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+              />
+              <div className="flex gap-3 text-xs">
+                <button
+                  className="text-blue-600"
+                  onClick={() => handleSaveEdit(comment.id)}
+                >
+                  Save
+                </button>
+                <button
+                  className="text-gray-500"
+                  onClick={() => setEditingId(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap text-sm dark:text-neutral-200">
+              {renderWithMentions(comment)}
+            </p>
+          )}
+          <div className="mt-1 flex gap-3 text-xs text-gray-500 dark:text-neutral-400">
+            {canComment && (
+              <button
+                className="hover:text-blue-600"
+                onClick={() => setReplyTo(comment)}
+              >
+                Reply
+              </button>
+            )}
+            {isAuthor && editingId !== comment.id && (
+              <button
+                className="hover:text-blue-600"
+                onClick={() => {
+                  setEditingId(comment.id);
+                  setEditText(comment.text);
+                }}
+              >
+                Edit
+              </button>
+            )}
+            {(isAuthor || canModerate) && (
+              <button
+                className="hover:text-red-600"
+                onClick={() => handleDelete(comment)}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+        {replies.map((reply) => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4 dark:border-stroke-dark">
+      <h3 className="text-md mb-2 font-semibold dark:text-white">Comments</h3>
+      {isLoading ? (
+        <div className="text-sm dark:text-white">Loading comments...</div>
+      ) : comments && comments.length > 0 ? (
+        comments
+          .filter((comment) => !comment.parentId)
+          .map((comment) => renderComment(comment, 0))
+      ) : (
+        <div className="text-sm text-gray-500 dark:text-neutral-400">
+          No comments yet
+        </div>
+      )}
+
+      {canComment && (
+        <form
+          className="mt-4 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handlePost();
+          }}
+        >
+          {replyTo && (
+            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-neutral-400">
+              Replying to {replyTo.user?.username ?? "comment"}
+              <button
+                type="button"
+                className="text-blue-600"
+                onClick={() => setReplyTo(null)}
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+          <textarea
+            className={inputStyles}
+            placeholder="Add a comment... use @username to mention someone"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <button
+            type="submit"
+            className={`rounded bg-blue-primary px-3 py-2 text-sm text-white hover:bg-blue-600 ${
+              !text.trim() || isPosting ? "cursor-not-allowed opacity-50" : ""
+            }`}
+            disabled={!text.trim() || isPosting}
+          >
+            {isPosting ? "Posting..." : replyTo ? "Reply" : "Comment"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TaskComments;
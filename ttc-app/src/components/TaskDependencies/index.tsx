@@ -0,0 +1,145 @@
+import { isDoneStatus } from "@/lib/utils";
+import {
+  Task,
+  TaskDependency,
+  useAddDependencyMutation,
+  useGetProjectStatusesQuery,
+  useGetTasksQuery,
+  useRemoveDependencyMutation,
+} from "@/state/api";
+import { X } from "lucide-react";
+import React from "react";
+
+type Props = {
+  task: Task;
+  canEdit: boolean;
+};
+
+const TaskDependencies = ({ task, canEdit }: Props) => {
+  // Only titles and statuses are needed to pick the other task
+  const { data: projectTasks } = useGetTasksQuery({
+    projectId: task.projectId,
+    fields: [],
+  });
+  const { data: statuses } = useGetProjectStatusesQuery(task.projectId);
+  const [addDependency] = useAddDependencyMutation();
+  const [removeDependency] = useRemoveDependencyMutation();
+
+  const blockedBy = task.blockedBy ?? [];
+  const blocking = task.blocking ?? [];
+
+  const linkedIds = new Set([
+    task.id,
+    ...blockedBy.map((dependency) => dependency.blockingTaskId),
+    ...blocking.map((dependency) => dependency.blockedTaskId),
+  ]);
+  const candidates =
+    projectTasks?.filter((projectTask) => !linkedIds.has(projectTask.id)) ?? [];
+
+  // Cycles and cross-project links are rejected by the server
+  const handleAdd = (link: {
+    blockingTaskId?: number;
+    blockedTaskId?: number;
+  }) =>
+    addDependency({ taskId: task.id, ...link })
+      .unwrap()
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not add dependency"),
+      );
+
+  const renderLink = (
+    dependency: TaskDependency,
+    other: TaskDependency["blockingTask"],
+  ) => (
+    <li key={dependency.id} className="flex items-center gap-2 text-sm">
+      <span
+        className={`flex-1 dark:text-neutral-200 ${
+          isDoneStatus(statuses, other?.status) ? "text-gray-400 line-through" : ""
+        }`}
+      >
+        {other?.title}
+      </span>
+      <span className="text-xs text-gray-500 dark:text-neutral-400">
+        {other?.status}
+      </span>
+      {canEdit && (
+        <button
+          type="button"
+          className="text-gray-500 hover:text-red-600"
+          onClick={() =>
+            removeDependency({ taskId: task.id, dependencyId: dependency.id })
+          }
+        >
+          <X size={16} />
+        </button>
+      )}
+    </li>
+  );
+
+  const selectStyles =
+    "mt-2 block w-full rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white";
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4 dark:border-stroke-dark">
+      <h3 className="text-md mb-2 font-semibold dark:text-white">
+        Dependencies
+      </h3>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <div className="mb-1 text-sm text-gray-500 dark:text-neutral-400">
+            Blocked by
+          </div>
+          <ul className="space-y-1">
+            {blockedBy.map((dependency) =>
+              renderLink(dependency, dependency.blockingTask),
+            )}
+          </ul>
+          {canEdit && (
+            <select
+              className={selectStyles}
+              value=""
+              onChange={(e) =>
+                handleAdd({ blockingTaskId: Number(e.target.value) })
+              }
+            >
+              <option value="">Add blocker...</option>
+              {candidates.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.title}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div>
+          <div className="mb-1 text-sm text-gray-500 dark:text-neutral-400">
+            Blocks
+          </div>
+          <ul className="space-y-1">
+            {blocking.map((dependency) =>
+              renderLink(dependency, dependency.blockedTask),
+            )}
+          </ul>
+          {canEdit && (
+            <select
+              className={selectStyles}
+              value=""
+              onChange={(e) =>
+                handleAdd({ blockedTaskId: Number(e.target.value) })
+              }
+            >
+              <option value="">Add blocked task...</option>
+              {candidates.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.title}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskDependencies;
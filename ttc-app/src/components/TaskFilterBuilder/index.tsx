@@ -0,0 +1,254 @@
+import {
+  CustomField,
+  Priority,
+  TaskFilters,
+  useGetCustomFieldsQuery,
+  useGetProjectStatusesQuery,
+  useGetTagsQuery,
+  useGetUsersQuery,
+} from "@/state/api";
+import React from "react";
+
+type Props = {
+  projectId: number;
+  filters: TaskFilters;
+  onChange: (filters: TaskFilters) => void;
+};
+
+type RangeKey = "dueFrom" | "dueTo" | "startFrom" | "startTo";
+
+const RANGE_FIELD_TYPES = ["number", "currency", "date"];
+
+// Adds the value to the list, or takes it out when it is already there
+const toggle = <T,>(list: T[] | undefined, value: T): T[] | undefined => {
+  const next = list?.includes(value)
+    ? list.filter((item) => item !== value)
+    : [...(list ?? []), value];
+  return next.length > 0 ? next : undefined;
+};
+
+// Every filter the task list supports, applied as soon as it changes; list filters match any of
+// the chosen values and different filters must all match
+const TaskFilterBuilder = ({ projectId, filters, onChange }: Props) => {
+  const { data: statuses } = useGetProjectStatusesQuery(projectId);
+  const { data: tags } = useGetTagsQuery(projectId);
+  const { data: users } = useGetUsersQuery();
+  const { data: customFields } = useGetCustomFieldsQuery(projectId);
+
+  const update = (patch: Partial<TaskFilters>) =>
+    onChange({ ...filters, ...patch });
+
+  const setCustomFilter = (
+    fieldId: number,
+    value: string | { from?: string; to?: string },
+  ) => {
+    const customFields = { ...filters.customFields };
+    const isEmpty =
+      typeof value === "string" ? !value : !value.from && !value.to;
+    if (isEmpty) delete customFields[fieldId];
+    else customFields[fieldId] = value;
+    update({
+      customFields:
+        Object.keys(customFields).length > 0 ? customFields : undefined,
+    });
+  };
+
+  const chipStyles = (isActive: boolean) =>
+    `rounded-full border px-2 py-0.5 text-xs ${
+      isActive
+        ? "border-blue-primary bg-blue-primary text-white"
+        : "border-gray-300 text-gray-700 hover:bg-gray-100 dark:border-dark-tertiary dark:text-neutral-300 dark:hover:bg-dark-tertiary"
+    }`;
+  const inputStyles =
+    "rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white";
+  const labelStyles =
+    "mb-1 text-xs font-medium uppercase text-gray-500 dark:text-neutral-400";
+
+  const renderChips = <T extends string | number>(
+    label: string,
+    options: { value: T; label: string }[],
+    selected: T[] | undefined,
+    onToggle: (value: T) => void,
+  ) => (
+    <div>
+      <div className={labelStyles}>{label}</div>
+      <div className="flex flex-wrap gap-1">
+        {options.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={chipStyles(selected?.includes(option.value) ?? false)}
+            onClick={() => onToggle(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderRange = (label: string, from: RangeKey, to: RangeKey) => (
+    <div>
+      <div className={labelStyles}>{label}</div>
+      <div className="flex items-center gap-1">
+        <input
+          type="date"
+          className={inputStyles}
+          value={filters[from] ?? ""}
+          onChange={(e) => update({ [from]: e.target.value || undefined })}
+        />
+        <span className="text-gray-500">–</span>
+        <input
+          type="date"
+          className={inputStyles}
+          value={filters[to] ?? ""}
+          onChange={(e) => update({ [to]: e.target.value || undefined })}
+        />
+      </div>
+    </div>
+  );
+
+  const renderCustomFilter = (field: CustomField) => {
+    const value = filters.customFields?.[field.id];
+    if (RANGE_FIELD_TYPES.includes(field.type)) {
+      const range = typeof value === "object" ? value : {};
+      const type = field.type === "date" ? "date" : "number";
+      return (
+        <div className="flex items-center gap-1">
+          <input
+            type={type}
+            className={`w-32 ${inputStyles}`}
+            placeholder="From"
+            value={range.from ?? ""}
+            onChange={(e) =>
+              setCustomFilter(field.id, { ...range, from: e.target.value })
+            }
+          />
+          <span className="text-gray-500">–</span>
+          <input
+            type={type}
+            className={`w-32 ${inputStyles}`}
+            placeholder="To"
+            value={range.to ?? ""}
+            onChange={(e) =>
+              setCustomFilter(field.id, { ...range, to: e.target.value })
+            }
+          />
+        </div>
+      );
+    }
+    const text = typeof value === "string" ? value : "";
+    if (field.type === "select" || field.type === "multiSelect") {
+      return (
+        <select
+          className={inputStyles}
+          value={text}
+          onChange={(e) => setCustomFilter(field.id, e.target.value)}
+        >
+          <option value="">Any</option>
+          {field.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    if (field.type === "checkbox") {
+      return (
+        <select
+          className={inputStyles}
+          value={text}
+          onChange={(e) => setCustomFilter(field.id, e.target.value)}
+        >
+          <option value="">Any</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    }
+    return (
+      <input
+        type="text"
+        className={inputStyles}
+        placeholder="Contains"
+        value={text}
+        onChange={(e) => setCustomFilter(field.id, e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 bg-white p-4 dark:border-stroke-dark dark:bg-dark-secondary">
+      {renderChips(
+        "Status",
+        (statuses ?? []).map((status) => ({
+          value: status.name,
+          label: status.name,
+        })),
+        filters.status,
+        (value) => update({ status: toggle(filters.status, value) }),
+      )}
+      {renderChips(
+        "Priority",
+        Object.values(Priority).map((priority) => ({
+          value: priority as string,
+          label: priority,
+        })),
+        filters.priority,
+        (value) => update({ priority: toggle(filters.priority, value) }),
+      )}
+      {renderChips(
+        "Assignee",
+        (users ?? []).flatMap((user) =>
+          user.userId !== undefined
+            ? [{ value: user.userId, label: user.username }]
+            : [],
+        ),
+        filters.assignee,
+        (value) => update({ assignee: toggle(filters.assignee, value) }),
+      )}
+      {tags &&
+        tags.length > 0 &&
+        renderChips(
+          "Tag",
+          tags.map((tag) => ({ value: tag.name, label: tag.name })),
+          filters.tag,
+          (value) => update({ tag: toggle(filters.tag, value) }),
+        )}
+      <div className="flex flex-wrap gap-6">
+        {renderRange("Due between", "dueFrom", "dueTo")}
+        {renderRange("Starts between", "startFrom", "startTo")}
+      </div>
+      {customFields && customFields.length > 0 && (
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {customFields.map((field) => (
+            <div key={field.id}>
+              <div className={labelStyles}>{field.name}</div>
+              {renderCustomFilter(field)}
+            </div>
+          ))}
+        </div>
+      )}
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-neutral-300">
+        <input
+          type="checkbox"
+          checked={filters.archived === "true"}
+          onChange={(e) =>
+            update({ archived: e.target.checked ? "true" : undefined })
+          }
+        />
+        Show archived tasks instead of active ones
+      </label>
+      <button
+        type="button"
+        className="text-sm text-blue-primary hover:underline"
+        onClick={() => onChange({})}
+      >
+        Clear all filters
+      </button>
+    </div>
+  );
+};
+
+export default TaskFilterBuilder;
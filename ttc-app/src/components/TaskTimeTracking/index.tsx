@@ -0,0 +1,202 @@
+import { formatMinutes } from "@/lib/utils";
+import {
+  Task,
+  useCreateTimeEntryMutation,
+  useDeleteTimeEntryMutation,
+  useGetAuthUserQuery,
+  useGetCurrentTimerQuery,
+  useGetTimeEntriesQuery,
+  useStartTimerMutation,
+  useStopTimerMutation,
+} from "@/state/api";
+import { format, formatISO } from "date-fns";
+import { Play, Square, X } from "lucide-react";
+import React, { useEffect, useState } from "react";
+
+type Props = {
+  task: Task;
+  canLog: boolean;
+  canManage: boolean;
+};
+
+const elapsedMinutes = (startedAt: string, now: number) =>
+  Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 60000));
+
+// Timer, manual entries and the logged total against the estimate
+const TaskTimeTracking = ({ task, canLog, canManage }: Props) => {
+  const { data: entries } = useGetTimeEntriesQuery(task.id);
+  const { data: timer } = useGetCurrentTimerQuery();
+  const { data: authData } = useGetAuthUserQuery();
+  const [startTimer, { isLoading: isStarting }] = useStartTimerMutation();
+  const [stopTimer, { isLoading: isStopping }] = useStopTimerMutation();
+  const [createEntry, { isLoading: isLogging }] = useCreateTimeEntryMutation();
+  const [deleteEntry] = useDeleteTimeEntryMutation();
+
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [minutes, setMinutes] = useState("");
+  const [note, setNote] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  const currentUserId = authData?.userDetails?.userId;
+  const runningHere = timer?.taskId === task.id ? timer : null;
+
+  // Only tick while this task's timer is on screen
+  useEffect(() => {
+    if (!runningHere) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningHere]);
+
+  const showError =
+    (fallback: string) => (error: { data?: { message?: string } }) =>
+      window.alert(error?.data?.message ?? fallback);
+
+  const handleStart = () => {
+    if (
+      timer &&
+      !window.confirm(`Stop the timer running on "${timer.task?.title}"?`)
+    ) {
+      return;
+    }
+    startTimer({ taskId: task.id })
+      .unwrap()
+      .catch(showError("Could not start the timer"));
+  };
+
+  const handleLog = () => {
+    if (!Number(minutes)) return;
+    createEntry({
+      taskId: task.id,
+      startedAt: formatISO(new Date(date)),
+      minutes: Number(minutes),
+      note: note || undefined,
+    })
+      .unwrap()
+      .then(() => {
+        setMinutes("");
+        setNote("");
+      })
+      .catch(showError("Could not log the time"));
+  };
+
+  const inputStyles =
+    "rounded border border-gray-300 px-2 py-1 text-sm dark:border-dark-tertiary dark:bg-dark-tertiary dark:text-white";
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4 dark:border-stroke-dark">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-md font-semibold dark:text-white">
+          Time{" "}
+          <span className="text-sm font-normal text-gray-500 dark:text-neutral-400">
+            {formatMinutes(task.loggedMinutes ?? 0)} logged
+            {task.estimateMinutes
+              ? ` of ${formatMinutes(task.estimateMinutes)} estimated`
+              : ""}
+          </span>
+        </h3>
+        {canLog &&
+          (runningHere ? (
+            <button
+              type="button"
+              className="flex items-center gap-1 rounded bg-red-500 px-2 py-1 text-sm text-white hover:bg-red-600 disabled:opacity-50"
+              disabled={isStopping}
+              onClick={() =>
+                stopTimer({ taskId: task.id })
+                  .unwrap()
+                  .catch(showError("Could not stop the timer"))
+              }
+            >
+              <Square size={14} />
+              Stop {formatMinutes(elapsedMinutes(runningHere.startedAt, now))}
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="flex items-center gap-1 rounded bg-blue-primary px-2 py-1 text-sm text-white hover:bg-blue-600 disabled:opacity-50"
+              disabled={isStarting}
+              onClick={handleStart}
+            >
+              <Play size={14} />
+              Start timer
+            </button>
+          ))}
+      </div>
+      {canLog && (
+        <form
+          className="mb-3 flex flex-wrap gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleLog();
+          }}
+        >
+          <input
+            type="date"
+            className={inputStyles}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+          <input
+            type="number"
+            min={1}
+            className={`${inputStyles} w-24`}
+            placeholder="Minutes"
+            value={minutes}
+            onChange={(e) => setMinutes(e.target.value)}
+          />
+          <input
+            type="text"
+            className={`${inputStyles} flex-1`}
+            placeholder="Note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="rounded bg-gray-200 px-2 py-1 text-sm hover:bg-gray-300 disabled:opacity-50 dark:bg-dark-tertiary dark:text-white"
+            disabled={!Number(minutes) || isLogging}
+          >
+            Log
+          </button>
+        </form>
+      )}
+      <ul className="max-h-48 space-y-1 overflow-y-auto">
+        {entries?.map((entry) => (
+          <li
+            key={entry.id}
+            className="flex items-center gap-2 text-sm dark:text-neutral-200"
+          >
+            <span className="w-20 text-gray-500 dark:text-neutral-400">
+              {format(new Date(entry.startedAt), "P")}
+            </span>
+            <span className="w-16 font-medium">
+              {entry.minutes === null
+                ? "running"
+                : formatMinutes(entry.minutes)}
+            </span>
+            <span>{entry.user?.username}</span>
+            <span className="flex-1 truncate text-gray-500 dark:text-neutral-400">
+              {entry.note}
+            </span>
+            {entry.minutes !== null &&
+              (entry.userId === currentUserId || canManage) && (
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete entry"
+                  onClick={() =>
+                    deleteEntry({ taskId: task.id, entryId: entry.id })
+                      .unwrap()
+                      .catch(showError("Could not delete the entry"))
+                  }
+                >
+                  <X size={14} />
+                </button>
+              )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TaskTimeTracking;
@@ -0,0 +1,62 @@
+import {
+  useGetAuthUserQuery,
+  useGetTaskWatchersQuery,
+  useUnwatchTaskMutation,
+  useWatchTaskMutation,
+} from "@/state/api";
+import { Eye, EyeOff } from "lucide-react";
+import React from "react";
+
+type Props = {
+  taskId: number;
+};
+
+// Anyone who can see the task can follow it; authors, assignees and commenters already do
+const TaskWatchers = ({ taskId }: Props) => {
+  const { data: watchers } = useGetTaskWatchersQuery(taskId);
+  const { data: authData } = useGetAuthUserQuery();
+  const [watchTask, { isLoading: isWatching }] = useWatchTaskMutation();
+  const [unwatchTask, { isLoading: isUnwatching }] = useUnwatchTaskMutation();
+
+  const currentUserId = authData?.userDetails?.userId;
+  const isWatcher =
+    watchers?.some((watcher) => watcher.userId === currentUserId) ?? false;
+
+  const handleToggle = () =>
+    (isWatcher ? unwatchTask(taskId) : watchTask(taskId))
+      .unwrap()
+      .catch((error) =>
+        window.alert(error?.data?.message ?? "Could not update watching"),
+      );
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4 dark:border-stroke-dark">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-md font-semibold dark:text-white">
+          Watchers ({watchers?.length ?? 0})
+        </h3>
+        <button
+          type="button"
+          className="flex items-center gap-1 rounded bg-gray-200 px-2 py-1 text-sm hover:bg-gray-300 disabled:opacity-50 dark:bg-dark-tertiary dark:text-white"
+          disabled={!watchers || isWatching || isUnwatching}
+          onClick={handleToggle}
+        >
+          {isWatcher ? <EyeOff size={16} /> : <Eye size={16} />}
+          {isWatcher ? "Stop watching" : "Watch"}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {watchers?.map((watcher) => (
+          <span
+            key={watcher.id}
+            className="rounded-full bg-gray-100 px-2 py-1 text-xs dark:bg-dark-tertiary dark:text-white"
+          >
+            {watcher.user?.username ?? watcher.userId}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TaskWatchers;
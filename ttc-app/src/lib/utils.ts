@@ -1,3 +1,13 @@
+import {
+    CustomField,
+    CustomFieldValue,
+    ProjectStatus,
+    Task,
+    TaskFilters,
+    UserSummary,
+} from "@/state/api";
+import { format } from "date-fns";
+
 export const dataGridClassName =  
 "border border-gray-200 bg-white shadow dark:border-stroke-dark dark:bg-dark-secondary dark:text-gray-200"
 
@@ -29,4 +39,149 @@ export const dataGridSxStyles = (isDarkMode: boolean) =>{
             borderColor: `${isDarkMode ? '#2d3135' : '#e5e7eb'}`,
         },
     };
-};
\ No newline at end of file
+};
+
+// Every assignee of a task, falling back to the single assignee for tasks without assignment rows
+export const getTaskAssignees = (task: Task): UserSummary[] => {
+    const assignees = (task.taskAssignments ?? [])
+        .map((assignment) => assignment.user)
+        .filter((user): user is UserSummary => !!user);
+    if (assignees.length > 0) return assignees;
+    return task.assignee ? [task.assignee] : [];
+};
+
+// Splits "Design, essay" into names, dropping blanks and case-insensitive repeats
+export const splitTagNames = (text: string): string[] => {
+    const seen = new Set<string>();
+    return text
+        .split(",")
+        .map((name) => name.trim())
+        .filter((name) => {
+            const key = name.toLowerCase();
+            if (!name || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+};
+
+export const getTagLabel = (task: Task): string =>
+    (task.tags ?? []).map((tag) => tag.name).join(", ");
+
+// Board order read column by column, statuses in the board's left-to-right order
+export const sortByBoardOrder = (
+    tasks: Task[],
+    statuses: ProjectStatus[],
+): Task[] => {
+    const names = statuses.map((status) => status.name);
+    const column = (task: Task) => {
+        const index = names.indexOf(task.status ?? "");
+        return index === -1 ? names.length : index;
+    };
+    // sort is stable, so the server's ranking survives within each status
+    return [...tasks].sort((a, b) => column(a) - column(b));
+};
+
+export const findStatus = (
+    statuses: ProjectStatus[] | undefined,
+    name: string | undefined,
+): ProjectStatus | undefined =>
+    statuses?.find((status) => status.name === name);
+
+export const isDoneStatus = (
+    statuses: ProjectStatus[] | undefined,
+    name: string | undefined,
+): boolean => findStatus(statuses, name)?.category === "done";
+
+// How a custom field value reads in tables and cards
+export const formatCustomFieldValue = (
+    field: CustomField,
+    value: CustomFieldValue | null | undefined,
+): string => {
+    if (value === null || value === undefined) return "";
+    switch (field.type) {
+        case "currency":
+            return new Intl.NumberFormat(undefined, {
+                style: "currency",
+                currency: field.currency ?? "USD",
+            }).format(Number(value));
+        case "date":
+            return format(new Date(String(value)), "P");
+        case "checkbox":
+            return value ? "Yes" : "No";
+        case "multiSelect":
+            return Array.isArray(value) ? value.join(", ") : String(value);
+        default:
+            return String(value);
+    }
+};
+
+// 95 -> "1h 35m", 40 -> "40m"
+export const formatMinutes = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    if (hours === 0) return `${rest}m`;
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+// Reads the filters written by toTaskSearchParams back out of a query string, ignoring other keys
+export const readTaskFilters = (params: URLSearchParams): TaskFilters => {
+    const filters: TaskFilters = {};
+    const list = (key: string) => params.get(key)?.split(",").filter(Boolean);
+    const status = list("status");
+    if (status) filters.status = status;
+    const priority = list("priority");
+    if (priority) filters.priority = priority;
+    const tag = list("tag");
+    if (tag) filters.tag = tag;
+    const assignee = list("assignee")?.map(Number).filter(Number.isInteger);
+    if (assignee?.length) filters.assignee = assignee;
+    (["dueFrom", "dueTo", "startFrom", "startTo", "q"] as const).forEach((key) => {
+        const value = params.get(key);
+        if (value) filters[key] = value;
+    });
+    if (params.get("archived") === "true") filters.archived = "true";
+    params.forEach((value, key) => {
+        const match = key.match(/^cf\[(\d+)\](?:\[(from|to)\])?$/);
+        if (!match || !value) return;
+        const fieldId = Number(match[1]);
+        const customFields = (filters.customFields ??= {});
+        if (!match[2]) {
+            customFields[fieldId] = value;
+            return;
+        }
+        const range = customFields[fieldId];
+        customFields[fieldId] = {
+            ...(typeof range === "object" ? range : {}),
+            [match[2]]: value,
+        };
+    });
+    return filters;
+};
+
+// How many filters are set, for the badge on the Filter button
+export const countTaskFilters = (filters: TaskFilters): number =>
+    Object.entries(filters).reduce((count, [key, value]) => {
+        if (key === "customFields") {
+            return count + Object.keys(value ?? {}).length;
+        }
+        const isSet = Array.isArray(value) ? value.length > 0 : !!value;
+        return count + (isSet ? 1 : 0);
+    }, 0);
+
+const DATE_FIELDS = ["startDate", "dueDate", "endDate"];
+
+// A task or project field as its edit forms see it, so values that only differ in shape compare
+// equal: dates by day, tags by name in any order, and null, undefined and "" all as empty
+export const comparableValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === "") return "";
+    if (DATE_FIELDS.includes(field)) {
+        return format(new Date(value as string), "yyyy-MM-dd");
+    }
+    if (field === "tags" && Array.isArray(value)) {
+        return value
+            .map((tag) => (typeof tag === "string" ? tag : tag.name))
+            .sort()
+            .join(",");
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
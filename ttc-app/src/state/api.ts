@@ -12,8 +12,15 @@ export interface Project {
     startDate?: string;
     endDate?: string;
     school: string;
+    wipEnforcement?: WipEnforcement;
+    archivedAt?: string | null;
+    deletedAt?: string | null;
+    updatedAt?: string;
 }
 
+// Whether a column over its WIP limit only warns or refuses further tasks
+export type WipEnforcement = "warn" | "enforce";
+
 export enum Priority{
     Urgent = "Urgent",
     High = "High",
@@ -22,13 +29,25 @@ export enum Priority{
     Backlog = "Backlog",
 }
 
-export enum Status {
-    ToDo = "To Do",
-    WorkInProgress = "Work In Progress",
-    UnderReview = "Under Review",
-    Completed = "Completed"
+// Statuses belong to a project; the category is what the rest of the app reasons about
+export type StatusCategory = "todo" | "inProgress" | "done";
+
+export interface ProjectStatus {
+    id: number;
+    projectId: number;
+    name: string;
+    color: string;
+    category: StatusCategory;
+    position: number;
+    wipLimit: number | null;
+    // Statuses a task in this one may move to; when no status lists any, every move is allowed
+    transitionsTo: number[];
 }
 
+export type ProjectStatusUpdate = Partial<
+    Pick<ProjectStatus, "name" | "color" | "category" | "wipLimit" | "transitionsTo">
+>;
+
 export  interface User {
     userId?: number;
     username: string;
@@ -36,6 +55,7 @@ export  interface User {
     profilePictureUrl?: string;
     cognitoId?: string;
     teamId?: number;
+    isAdmin?: boolean;
 }
 
 export interface Attachment {
@@ -45,24 +65,411 @@ export interface Attachment {
     taskId: number;
     uploadById: number;
 }
+export type UserSummary = Pick<User, "userId" | "username" | "profilePictureUrl">;
+
+export interface TaskAssignment {
+    id: number;
+    userId: number;
+    taskId: number;
+    user?: UserSummary;
+}
+
+export interface TaskWatcher {
+    id: number;
+    taskId: number;
+    userId: number;
+    createdAt: string;
+    user?: UserSummary;
+}
+
+export interface CommentMention {
+    id: number;
+    commentId: number;
+    userId: number;
+    user?: Pick<User, "userId" | "username">;
+}
+
+export interface Comment {
+    id: number;
+    text: string;
+    taskId: number;
+    userId: number;
+    parentId?: number | null;
+    createdAt: string;
+    editedAt?: string | null;
+    user?: UserSummary;
+    mentions?: CommentMention[];
+}
+
+export interface ChecklistItem {
+    id: number;
+    text: string;
+    isDone: boolean;
+    position: number;
+    taskId: number;
+}
+
+// Checklist items and subtasks each count as one step towards completing a task
+export interface TaskProgress {
+    checklistDone: number;
+    checklistTotal: number;
+    subtasksDone: number;
+    subtasksTotal: number;
+    completed: number;
+    total: number;
+    percent: number;
+    rollupPoints: number | null;
+}
+
+export type SubtaskSummary = Pick<
+    Task,
+    "id" | "title" | "status" | "priority" | "points" | "assignedUserId" | "updatedAt"
+>;
+
+export type DependencyTaskSummary = Pick<Task, "id" | "title" | "status">;
+
+// blockingTask must be completed before blockedTask can be
+export interface TaskDependency {
+    id: number;
+    blockingTaskId: number;
+    blockedTaskId: number;
+    blockingTask?: DependencyTaskSummary;
+    blockedTask?: DependencyTaskSummary;
+}
+
+// Tags belong to a project; names are unique per project regardless of case
+export interface Tag {
+    id: number;
+    name: string;
+    color: string;
+    projectId: number;
+    _count?: { taskTags: number };
+}
+
+export type CustomFieldType =
+    | "text"
+    | "number"
+    | "currency"
+    | "date"
+    | "select"
+    | "multiSelect"
+    | "url"
+    | "checkbox";
+
+// Project-defined task attributes; options are the choices of select fields
+export interface CustomField {
+    id: number;
+    projectId: number;
+    name: string;
+    type: CustomFieldType;
+    options: string[];
+    currency: string | null;
+    position: number;
+}
+
+// Dates travel as ISO strings, multi selects as arrays and checkboxes as booleans
+export type CustomFieldValue = string | number | boolean | string[];
+
+// Template task dates are day offsets from the new project's start date, or its end date when anchor is "end"
+export interface TemplateTask {
+    id: number;
+    parentId: number | null;
+    title: string;
+    description?: string | null;
+    priority?: Priority | null;
+    points?: number | null;
+    tags: string[];
+    anchor: "start" | "end";
+    startOffsetDays: number | null;
+    dueOffsetDays: number | null;
+    position: number;
+}
+
+export interface ProjectTemplate {
+    id: number;
+    name: string;
+    description?: string | null;
+    createdById: number | null;
+    tasks: TemplateTask[];
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+// Repeats every interval days/weeks/months until the until date or for count occurrences
+export interface Recurrence {
+    frequency: RecurrenceFrequency;
+    interval: number;
+    until?: string | null;
+    count?: number | null;
+}
+
+export interface TaskSeries extends Recurrence {
+    id: number;
+}
+
+// One entry per changed field; values are stored as text, dates as ISO strings
+export interface TaskActivity {
+    id: number;
+    taskId: number;
+    actorUserId?: number | null;
+    action: string;
+    field?: string | null;
+    oldValue?: string | null;
+    newValue?: string | null;
+    createdAt: string;
+    actor?: UserSummary | null;
+}
+
 export interface Task {
     id: number; 
     title: string; 
     description?: string; 
-    status?: Status; 
+    status?: string; 
     priority?: Priority; 
-    tags?: string; 
+    tags?: Tag[]; 
     startDate?: string; 
     dueDate?: string; 
     points?: number; 
+    estimateMinutes?: number | null;
     projectId: number; 
+    sprintId?: number | null;
     authorUserId?: number; 
     assignedUserId?: number;
+    parentTaskId?: number | null;
+    seriesId?: number | null;
+    occurrence?: number | null;
+    rank?: string;
     
     author?: User;
     assignee?: User;
+    taskAssignments?: TaskAssignment[];
     comments?: Comment[];
     attachments?: Attachment[];
+    subtasks?: SubtaskSummary[];
+    checklistItems?: ChecklistItem[];
+    progress?: TaskProgress;
+    blockedBy?: TaskDependency[];
+    blocking?: TaskDependency[];
+    isBlocked?: boolean;
+    series?: TaskSeries | null;
+    // Keyed by custom field id; fields without a value are left out
+    customFields?: Record<number, CustomFieldValue>;
+    // Sum of the task's finished time entries
+    loggedMinutes?: number;
+    createdAt?: string;
+    updatedAt?: string;
+    archivedAt?: string | null;
+    deletedAt?: string | null;
+    // Set on status changes that took a column past its WIP limit without being refused
+    warning?: string;
+}
+
+// Clearable fields accept null so an edit can unset them; tags are sent as names
+export type TaskUpdate = Partial<
+    Omit<
+        Task,
+        "assignedUserId" | "startDate" | "dueDate" | "points" | "tags" | "customFields"
+    >
+> & {
+    tags?: string[];
+    // Only the listed fields change; null clears one
+    customFields?: Record<number, CustomFieldValue | null>;
+    assignedUserId?: number | null;
+    startDate?: string | null;
+    dueDate?: string | null;
+    points?: number | null;
+    recurrence?: Recurrence | null;
+};
+
+// Relation groups GET /tasks can include; leaving fields out sends all of them
+export type TaskField =
+    | "author"
+    | "assignee"
+    | "assignees"
+    | "comments"
+    | "attachments"
+    | "progress"
+    | "dependencies"
+    | "tags"
+    | "series"
+    | "customFields"
+    | "time";
+
+// Filters combine with AND; each list matches any of its values except tag, which needs all.
+// sort takes keys such as "-dueDate,title"; cursor comes from the previous page
+export interface TaskQuery {
+    projectId?: number;
+    status?: string[];
+    priority?: string[];
+    assignee?: number[];
+    involving?: number;
+    tag?: string[];
+    // A sprint id, or "none" for the backlog
+    sprint?: number | "none";
+    dueFrom?: string;
+    dueTo?: string;
+    startFrom?: string;
+    startTo?: string;
+    q?: string;
+    // Lists the archived tasks instead of the active ones
+    archived?: "true";
+    sort?: string;
+    fields?: TaskField[];
+    limit?: number;
+    cursor?: string;
+    // Keyed by custom field id: a value to match, or a range for numbers, amounts and dates
+    customFields?: Record<number, string | { from?: string; to?: string }>;
+}
+
+export interface TaskPage {
+    tasks: Task[];
+    nextCursor: string | null;
+}
+
+// What the filter builder sets and a saved view stores; the same keys travel in the page URL
+export type TaskFilters = Pick<
+    TaskQuery,
+    "status" | "priority" | "assignee" | "tag" | "dueFrom" | "dueTo" | "startFrom" | "startTo" | "q" | "archived" | "customFields"
+>;
+
+export interface SavedView {
+    id: number;
+    projectId: number;
+    userId: number;
+    name: string;
+    filters: TaskFilters;
+    // Shared views are listed for everyone on the project
+    shared: boolean;
+    user?: Pick<User, "userId" | "username">;
+}
+
+// Items in the trash carry the date the purge job removes them for good
+export type TrashedTask = Task & { deletedAt: string; purgeAt: string; project: Pick<Project, "id" | "name"> };
+export type TrashedProject = Project & { deletedAt: string; purgeAt: string };
+
+export interface Trash {
+    tasks: TrashedTask[];
+    projects: TrashedProject[];
+}
+
+// Edits carry the updatedAt of the version they were made against. The server refuses them with a
+// 409 and its own version when someone else saved in between
+export type Versioned = { version?: string };
+
+const ifMatch = (version?: string) =>
+    version ? { "If-Match": `"${version}"` } : undefined;
+
+// The body of a 409 answer to a versioned edit
+export interface VersionConflict<T> {
+    message: string;
+    current: T;
+}
+
+export const toTaskSearchParams = (query: TaskQuery) => {
+    const params = new URLSearchParams();
+    const { customFields = {}, ...rest } = query;
+    Object.entries(rest).forEach(([key, value]) => {
+        if (value === undefined || value === "") return;
+        // An empty field list still matters: it asks for the bare task rows
+        params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+    });
+    // Sent as cf[12]=value or cf[12][from]=..&cf[12][to]=..
+    Object.entries(customFields).forEach(([fieldId, filter]) => {
+        if (typeof filter === "string") {
+            if (filter) params.set(`cf[${fieldId}]`, filter);
+            return;
+        }
+        if (filter.from) params.set(`cf[${fieldId}][from]`, filter.from);
+        if (filter.to) params.set(`cf[${fieldId}][to]`, filter.to);
+    });
+    return params.toString();
+};
+
+// One patch applied to every selected task; delete cannot be combined with the other changes
+export interface BulkTaskPatch {
+    status?: string;
+    priority?: Priority;
+    assignedUserId?: number | null;
+    dueDateShiftDays?: number;
+    addTags?: string[];
+    removeTags?: string[];
+    projectId?: number;
+    sprintId?: number | null;
+    delete?: boolean;
+}
+
+export interface BulkTaskResult {
+    id: number;
+    status: "updated" | "deleted" | "failed";
+    message?: string;
+}
+
+// A running timer has no endedAt and no minutes until it is stopped
+export interface TimeEntry {
+    id: number;
+    taskId: number;
+    userId: number;
+    startedAt: string;
+    endedAt: string | null;
+    minutes: number | null;
+    note?: string | null;
+    user?: { userId: number; username: string };
+    task?: { id: number; title: string; projectId: number; project: { name: string } };
+}
+
+export interface TimeTotals {
+    estimateMinutes: number;
+    loggedMinutes: number;
+    byUser: { userId: number; username: string | null; minutes: number }[];
+}
+
+export type SprintState = "planned" | "active" | "completed";
+
+export interface Sprint {
+    id: number;
+    projectId: number;
+    name: string;
+    goal?: string | null;
+    startDate: string;
+    endDate: string;
+    state: SprintState;
+    startedAt?: string | null;
+    completedAt?: string | null;
+    taskCount: number;
+    points: number;
+    completedPoints: number;
+}
+
+// Points at the end of each sprint day; days still ahead only carry the ideal line
+export interface BurndownDay {
+    date: string;
+    scopePoints: number | null;
+    completedPoints: number | null;
+    remainingPoints: number | null;
+    idealPoints: number;
+}
+
+export type ReminderChannel = "inApp" | "email";
+
+export interface ReminderPreferences {
+    reminderDaysBefore: number[];
+    remindOverdue: boolean;
+    reminderChannels: ReminderChannel[];
+}
+
+export type NotificationCategory = "assigned" | "status" | "comment" | "mention" | "due";
+
+export interface Notification {
+    id: number;
+    userId: number;
+    category: NotificationCategory;
+    message: string;
+    taskId: number | null;
+    actorUserId: number | null;
+    readAt: string | null;
+    createdAt: string;
+    task?: { id: number; title: string; projectId: number } | null;
+    actor?: UserSummary | null;
 }
 
 export interface Team {
@@ -71,6 +478,26 @@ export interface Team {
     productOwnerUserId?: number;
     projectManagerUserId?: number;
 }
+export type Role = "admin" | "owner" | "projectManager" | "member" | "viewer";
+
+export type PermissionAction =
+    | "project:view"
+    | "project:create"
+    | "project:update"
+    | "project:delete"
+    | "task:view"
+    | "task:create"
+    | "task:update"
+    | "task:delete"
+    | "comment:create"
+    | "comment:moderate"
+    | "team:view";
+
+export interface Permissions {
+    role: Role | null;
+    permissions: PermissionAction[];
+}
+
 export interface SearchReults {
     tasks?: Task[];
     projects?: Project[];
@@ -104,7 +531,7 @@ export const api = createApi({
         
     }),
     reducerPath: 'api',
-    tagTypes: [ "Projects", "Tasks", "Users", "Teams", "Payment"],
+    tagTypes: [ "Projects", "Tasks", "Users", "Teams", "Payment", "Permissions", "Comments", "Tags", "Statuses", "CustomFields", "Templates", "Time", "Sprints", "Reminders", "Notifications", "Watchers", "SavedViews", "Trash"],
     endpoints: (build) => ({
 
         getAuthUser: build.query<{
@@ -142,20 +569,111 @@ export const api = createApi({
             query: () => "projects",
             providesTags: ["Projects"],
         }),
-        createProject: build.mutation<Project, Partial<Project>>({
+        getArchivedProjects: build.query<Project[], void>({
+            query: () => "projects?archived=true",
+            providesTags: ["Projects"],
+        }),
+        createProject: build.mutation<Project, Partial<Project> & { templateId?: number }>({
             query: (project) => ({
                 url: "projects",
                 method: "POST",
                 body: project,
             }),
-            invalidatesTags: ["Projects"]
+            invalidatesTags: ["Projects", "Permissions"]
+        }),
+        updateProject: build.mutation<Project, Partial<Project> & { id: number } & Versioned>({
+            query: ({ id, version, ...patch }) => ({
+                url: `projects/${id}`,
+                method: "PATCH",
+                headers: ifMatch(version),
+                body: patch,
+            }),
+            invalidatesTags: ["Projects"],
+        }),
+        archiveProject: build.mutation<Project, number>({
+            query: (projectId) => ({
+                url: `projects/${projectId}/archive`,
+                method: "POST",
+            }),
+            invalidatesTags: ["Projects", "Tasks"],
+        }),
+        unarchiveProject: build.mutation<Project, number>({
+            query: (projectId) => ({
+                url: `projects/${projectId}/unarchive`,
+                method: "POST",
+            }),
+            invalidatesTags: ["Projects", "Tasks"],
+        }),
+        deleteProject: build.mutation<{ message: string }, number>({
+            query: (projectId) => ({
+                url: `projects/${projectId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: ["Projects", "Tasks", "Sprints", "Trash"],
         }),
-        getTasks: build.query<Task[], { projectId: number }>({
-            query: ({ projectId }) => `tasks?projectId=${projectId}`,
+        getTemplates: build.query<ProjectTemplate[], void>({
+            query: () => "templates",
+            providesTags: ["Templates"],
+        }),
+        // Saves the project's current tasks as a new template
+        createTemplate: build.mutation<
+            ProjectTemplate,
+            { projectId: number; name: string; description?: string }
+        >({
+            query: (template) => ({
+                url: "templates",
+                method: "POST",
+                body: template,
+            }),
+            invalidatesTags: ["Templates"],
+        }),
+        deleteTemplate: build.mutation<{ message: string }, number>({
+            query: (templateId) => ({
+                url: `templates/${templateId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: ["Templates"],
+        }),
+        getTasks: build.query<Task[], TaskQuery>({
+            query: (query) => `tasks?${toTaskSearchParams(query)}`,
             providesTags: (result) => 
                 result 
-                    ? result.map(({ id }) => ({ type: "Tasks" as const, id })) 
-                    : [{ type: "Tasks" as const }],
+                    ? [
+                        ...result.map(({ id }) => ({ type: "Tasks" as const, id })),
+                        { type: "Tasks" as const, id: "LIST" },
+                    ]
+                    : [{ type: "Tasks" as const, id: "LIST" }],
+        }),
+        // Pages of one query share a cache entry: a cursor appends, the first page starts over
+        getTaskPage: build.query<TaskPage, TaskQuery>({
+            query: (query) => `tasks?${toTaskSearchParams(query)}`,
+            transformResponse: (tasks: Task[], meta) => ({
+                tasks,
+                nextCursor: meta?.response?.headers.get("X-Next-Cursor") ?? null,
+            }),
+            serializeQueryArgs: ({ endpointName, queryArgs }) =>
+                `${endpointName}(${toTaskSearchParams({ ...queryArgs, cursor: undefined })})`,
+            merge: (cache, page, { arg }) => {
+                if (!arg.cursor) return page;
+                const seen = new Set(cache.tasks.map(({ id }) => id));
+                return {
+                    tasks: [...cache.tasks, ...page.tasks.filter(({ id }) => !seen.has(id))],
+                    nextCursor: page.nextCursor,
+                };
+            },
+            forceRefetch: ({ currentArg, previousArg }) =>
+                currentArg?.cursor !== previousArg?.cursor,
+            providesTags: (result) =>
+                result
+                    ? [
+                        ...result.tasks.map(({ id }) => ({ type: "Tasks" as const, id })),
+                        { type: "Tasks" as const, id: "LIST" },
+                    ]
+                    : [{ type: "Tasks" as const, id: "LIST" }],
+        }),
+        getTask: build.query<Task, number>({
+            query: (taskId) => `tasks/${taskId}`,
+            providesTags: (result, error, taskId) => [{ type: "Tasks", id: taskId }],
         }),
         getTasksByUser: build.query<Task[], number>({
             query: (userId ) => `tasks/user/${userId}`,
@@ -164,22 +682,634 @@ export const api = createApi({
                     ? result.map(({ id }) =>({ type: "Tasks", id}))
                     :[{ type: "Tasks", id: userId }],
         }),
-        createTask: build.mutation<Task, Partial<Task>>({
+        createTask: build.mutation<
+            Task,
+            Partial<Omit<Task, "tags" | "customFields">> &
+                Pick<TaskUpdate, "customFields"> & { tags?: string[]; recurrence?: Recurrence }
+        >({
             query: (task) => ({
                 url: "tasks",
                 method: "POST",
                 body: task,
             }),
-            invalidatesTags: ["Tasks"],
+            // Unknown tag names are created on the fly
+            invalidatesTags: ["Tasks", "Tags", "Sprints"],
         }), 
-        updateTaskStatus: build.mutation<Task, { taskId: number; status: string }>({
-            query: ({ taskId, status }) => ({
+        updateTaskStatus: build.mutation<Task, { taskId: number; status: string } & Versioned>({
+            query: ({ taskId, status, version }) => ({
                 url: `tasks/${taskId}/status`,
                 method: "PATCH",
+                headers: ifMatch(version),
                 body: { status },
             }),
+            // A subtask's status feeds its parent's progress, and a sprint task's its burndown
+            invalidatesTags: (result, error, {taskId}) => [
+                { type: "Tasks", id: taskId },
+                ...(result?.parentTaskId
+                    ? [{ type: "Tasks" as const, id: result.parentTaskId }]
+                    : []),
+                ...(result?.sprintId ? ["Sprints" as const] : []),
+            ],
+        }),
+        // Drops the task into a status column directly below afterTaskId, or at its top when null
+        moveTask: build.mutation<Task, { taskId: number; status: string; afterTaskId: number | null } & Versioned>({
+            query: ({ taskId, version, ...move }) => ({
+                url: `tasks/${taskId}/move`,
+                method: "PATCH",
+                headers: ifMatch(version),
+                body: move,
+            }),
             invalidatesTags: (result, error, {taskId}) => [
                 { type: "Tasks", id: taskId },
+                ...(result?.parentTaskId
+                    ? [{ type: "Tasks" as const, id: result.parentTaskId }]
+                    : []),
+            ],
+        }),
+        // Tasks that fail are reported per id; the others are changed together. versions holds the
+        // updatedAt of every task, and a 409 lists those someone else changed in the meantime
+        bulkUpdateTasks: build.mutation<
+            { results: BulkTaskResult[] },
+            { taskIds: number[]; versions: Record<number, string>; patch: BulkTaskPatch }
+        >({
+            query: (body) => ({
+                url: "tasks/bulk",
+                method: "POST",
+                body,
+            }),
+            invalidatesTags: (result, error, { taskIds }) => [
+                ...taskIds.map((id) => ({ type: "Tasks" as const, id })),
+                { type: "Tasks", id: "LIST" },
+                "Sprints",
+            ],
+        }),
+        // scope "following" also applies the edit to later occurrences of a repeating task
+        updateTask: build.mutation<Task, { taskId: number; scope?: "following" } & TaskUpdate & Versioned>({
+            query: ({ taskId, scope, version, ...patch }) => ({
+                url: scope ? `tasks/${taskId}?scope=${scope}` : `tasks/${taskId}`,
+                method: "PATCH",
+                headers: ifMatch(version),
+                body: patch,
+            }),
+            // Moving a task to another project or sprint, or editing a whole series, changes other lists too
+            invalidatesTags: (result, error, { taskId, projectId, scope, tags, sprintId, assignedUserId }) => [
+                { type: "Tasks", id: taskId },
+                ...(assignedUserId !== undefined ? [{ type: "Watchers" as const, id: taskId }] : []),
+                ...(projectId !== undefined || scope !== undefined || sprintId !== undefined
+                    ? [{ type: "Tasks" as const, id: "LIST" }]
+                    : []),
+                ...(tags !== undefined || projectId !== undefined ? ["Tags" as const] : []),
+                ...(sprintId !== undefined || result?.sprintId ? ["Sprints" as const] : []),
+            ],
+        }),
+        deleteTask: build.mutation<{ message: string }, number>({
+            query: (taskId) => ({
+                url: `tasks/${taskId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, taskId) => [
+                { type: "Tasks", id: taskId },
+                "Sprints",
+                "Trash",
+            ],
+        }),
+        // Archiving moves the task between the active and the archived lists
+        archiveTask: build.mutation<Task, number>({
+            query: (taskId) => ({
+                url: `tasks/${taskId}/archive`,
+                method: "POST",
+            }),
+            invalidatesTags: (result, error, taskId) => [
+                { type: "Tasks", id: taskId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        unarchiveTask: build.mutation<Task, number>({
+            query: (taskId) => ({
+                url: `tasks/${taskId}/unarchive`,
+                method: "POST",
+            }),
+            invalidatesTags: (result, error, taskId) => [
+                { type: "Tasks", id: taskId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        getTrash: build.query<Trash, void>({
+            query: () => "trash",
+            providesTags: ["Trash"],
+        }),
+        restoreTask: build.mutation<{ message: string }, number>({
+            query: (taskId) => ({
+                url: `trash/tasks/${taskId}/restore`,
+                method: "POST",
+            }),
+            invalidatesTags: ["Trash", "Tasks", "Sprints"],
+        }),
+        purgeTask: build.mutation<{ message: string }, number>({
+            query: (taskId) => ({
+                url: `trash/tasks/${taskId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: ["Trash"],
+        }),
+        restoreProject: build.mutation<Project, number>({
+            query: (projectId) => ({
+                url: `trash/projects/${projectId}/restore`,
+                method: "POST",
+            }),
+            invalidatesTags: ["Trash", "Projects", "Tasks", "Sprints"],
+        }),
+        purgeProject: build.mutation<{ message: string }, number>({
+            query: (projectId) => ({
+                url: `trash/projects/${projectId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: ["Trash", "Permissions"],
+        }),
+        addAssignee: build.mutation<TaskAssignment[], { taskId: number; userId: number }>({
+            query: ({ taskId, userId }) => ({
+                url: `tasks/${taskId}/assignees`,
+                method: "POST",
+                body: { userId },
+            }),
+            // New assignees start watching the task
+            invalidatesTags: (result, error, { taskId }) => [
+                { type: "Tasks", id: taskId },
+                { type: "Watchers", id: taskId },
+            ],
+        }),
+        removeAssignee: build.mutation<TaskAssignment[], { taskId: number; userId: number }>({
+            query: ({ taskId, userId }) => ({
+                url: `tasks/${taskId}/assignees/${userId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { taskId }) => [{ type: "Tasks", id: taskId }],
+        }),
+        getTaskWatchers: build.query<TaskWatcher[], number>({
+            query: (taskId) => `tasks/${taskId}/watchers`,
+            providesTags: (result, error, taskId) => [{ type: "Watchers", id: taskId }],
+        }),
+        watchTask: build.mutation<TaskWatcher[], number>({
+            query: (taskId) => ({
+                url: `tasks/${taskId}/watch`,
+                method: "POST",
+            }),
+            invalidatesTags: (result, error, taskId) => [{ type: "Watchers", id: taskId }],
+        }),
+        unwatchTask: build.mutation<TaskWatcher[], number>({
+            query: (taskId) => ({
+                url: `tasks/${taskId}/watch`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, taskId) => [{ type: "Watchers", id: taskId }],
+        }),
+        addChecklistItem: build.mutation<ChecklistItem, { taskId: number; text: string }>({
+            query: ({ taskId, text }) => ({
+                url: `tasks/${taskId}/checklist`,
+                method: "POST",
+                body: { text },
+            }),
+            invalidatesTags: (result, error, { taskId }) => [{ type: "Tasks", id: taskId }],
+        }),
+        updateChecklistItem: build.mutation<
+            ChecklistItem,
+            { taskId: number; itemId: number; text?: string; isDone?: boolean }
+        >({
+            query: ({ taskId, itemId, ...patch }) => ({
+                url: `tasks/${taskId}/checklist/${itemId}`,
+                method: "PATCH",
+                body: patch,
+            }),
+            invalidatesTags: (result, error, { taskId }) => [{ type: "Tasks", id: taskId }],
+        }),
+        deleteChecklistItem: build.mutation<{ message: string }, { taskId: number; itemId: number }>({
+            query: ({ taskId, itemId }) => ({
+                url: `tasks/${taskId}/checklist/${itemId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { taskId }) => [{ type: "Tasks", id: taskId }],
+        }),
+        reorderChecklist: build.mutation<ChecklistItem[], { taskId: number; itemIds: number[] }>({
+            query: ({ taskId, itemIds }) => ({
+                url: `tasks/${taskId}/checklist/order`,
+                method: "PATCH",
+                body: { itemIds },
+            }),
+            invalidatesTags: (result, error, { taskId }) => [{ type: "Tasks", id: taskId }],
+        }),
+        // Either task of the link changes, so every list containing them is refreshed
+        addDependency: build.mutation<
+            { blockedBy: TaskDependency[]; blocking: TaskDependency[] },
+            { taskId: number; blockingTaskId?: number; blockedTaskId?: number }
+        >({
+            query: ({ taskId, ...link }) => ({
+                url: `tasks/${taskId}/dependencies`,
+                method: "POST",
+                body: link,
+            }),
+            invalidatesTags: (result, error, { taskId }) => [
+                { type: "Tasks", id: taskId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        removeDependency: build.mutation<
+            { blockedBy: TaskDependency[]; blocking: TaskDependency[] },
+            { taskId: number; dependencyId: number }
+        >({
+            query: ({ taskId, dependencyId }) => ({
+                url: `tasks/${taskId}/dependencies/${dependencyId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { taskId }) => [
+                { type: "Tasks", id: taskId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        getTags: build.query<Tag[], number>({
+            query: (projectId) => `projects/${projectId}/tags`,
+            providesTags: (result, error, projectId) => [{ type: "Tags", id: projectId }],
+        }),
+        createTag: build.mutation<Tag, { projectId: number; name: string; color?: string }>({
+            query: ({ projectId, ...tag }) => ({
+                url: `projects/${projectId}/tags`,
+                method: "POST",
+                body: tag,
+            }),
+            invalidatesTags: (result, error, { projectId }) => [{ type: "Tags", id: projectId }],
+        }),
+        // Renames and colours show up on every task carrying the tag
+        updateTag: build.mutation<
+            Tag,
+            { projectId: number; tagId: number; name?: string; color?: string }
+        >({
+            query: ({ projectId, tagId, ...patch }) => ({
+                url: `projects/${projectId}/tags/${tagId}`,
+                method: "PATCH",
+                body: patch,
+            }),
+            invalidatesTags: (result, error, { projectId }) => [
+                { type: "Tags", id: projectId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        deleteTag: build.mutation<{ message: string }, { projectId: number; tagId: number }>({
+            query: ({ projectId, tagId }) => ({
+                url: `projects/${projectId}/tags/${tagId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { projectId }) => [
+                { type: "Tags", id: projectId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        getProjectStatuses: build.query<ProjectStatus[], number>({
+            query: (projectId) => `projects/${projectId}/statuses`,
+            providesTags: (result, error, projectId) => [{ type: "Statuses", id: projectId }],
+        }),
+        createProjectStatus: build.mutation<
+            ProjectStatus[],
+            { projectId: number; name: string; color?: string; category: StatusCategory }
+        >({
+            query: ({ projectId, ...status }) => ({
+                url: `projects/${projectId}/statuses`,
+                method: "POST",
+                body: status,
+            }),
+            invalidatesTags: (result, error, { projectId }) => [{ type: "Statuses", id: projectId }],
+        }),
+        // Renames carry over to the tasks in the status, so the task lists refresh too
+        updateProjectStatus: build.mutation<
+            ProjectStatus[],
+            { projectId: number; statusId: number } & ProjectStatusUpdate
+        >({
+            query: ({ projectId, statusId, ...patch }) => ({
+                url: `projects/${projectId}/statuses/${statusId}`,
+                method: "PATCH",
+                body: patch,
+            }),
+            invalidatesTags: (result, error, { projectId }) => [
+                { type: "Statuses", id: projectId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        reorderProjectStatuses: build.mutation<
+            ProjectStatus[],
+            { projectId: number; statusIds: number[] }
+        >({
+            query: ({ projectId, statusIds }) => ({
+                url: `projects/${projectId}/statuses/order`,
+                method: "PATCH",
+                body: { statusIds },
+            }),
+            invalidatesTags: (result, error, { projectId }) => [{ type: "Statuses", id: projectId }],
+        }),
+        // Tasks still in the status move to moveTasksTo before it is removed
+        deleteProjectStatus: build.mutation<
+            ProjectStatus[],
+            { projectId: number; statusId: number; moveTasksTo?: number }
+        >({
+            query: ({ projectId, statusId, moveTasksTo }) => ({
+                url: `projects/${projectId}/statuses/${statusId}${
+                    moveTasksTo !== undefined ? `?moveTasksTo=${moveTasksTo}` : ""
+                }`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { projectId }) => [
+                { type: "Statuses", id: projectId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        getSavedViews: build.query<SavedView[], number>({
+            query: (projectId) => `projects/${projectId}/views`,
+            providesTags: (result, error, projectId) => [{ type: "SavedViews", id: projectId }],
+        }),
+        createSavedView: build.mutation<
+            SavedView,
+            { projectId: number; name: string; filters: TaskFilters; shared?: boolean }
+        >({
+            query: ({ projectId, ...view }) => ({
+                url: `projects/${projectId}/views`,
+                method: "POST",
+                body: view,
+            }),
+            invalidatesTags: (result, error, { projectId }) => [{ type: "SavedViews", id: projectId }],
+        }),
+        updateSavedView: build.mutation<
+            SavedView,
+            { projectId: number; viewId: number } & Partial<Pick<SavedView, "name" | "filters" | "shared">>
+        >({
+            query: ({ projectId, viewId, ...patch }) => ({
+                url: `projects/${projectId}/views/${viewId}`,
+                method: "PATCH",
+                body: patch,
+            }),
+            invalidatesTags: (result, error, { projectId }) => [{ type: "SavedViews", id: projectId }],
+        }),
+        deleteSavedView: build.mutation<{ message: string }, { projectId: number; viewId: number }>({
+            query: ({ projectId, viewId }) => ({
+                url: `projects/${projectId}/views/${viewId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { projectId }) => [{ type: "SavedViews", id: projectId }],
+        }),
+        getCustomFields: build.query<CustomField[], number>({
+            query: (projectId) => `projects/${projectId}/fields`,
+            providesTags: (result, error, projectId) => [{ type: "CustomFields", id: projectId }],
+        }),
+        createCustomField: build.mutation<
+            CustomField,
+            Pick<CustomField, "projectId" | "name" | "type"> &
+                Partial<Pick<CustomField, "options" | "currency">>
+        >({
+            query: ({ projectId, ...field }) => ({
+                url: `projects/${projectId}/fields`,
+                method: "POST",
+                body: field,
+            }),
+            invalidatesTags: (result, error, { projectId }) => [
+                { type: "CustomFields", id: projectId },
+            ],
+        }),
+        updateCustomField: build.mutation<
+            CustomField,
+            { projectId: number; fieldId: number } & Partial<
+                Pick<CustomField, "name" | "options" | "currency">
+            >
+        >({
+            query: ({ projectId, fieldId, ...patch }) => ({
+                url: `projects/${projectId}/fields/${fieldId}`,
+                method: "PATCH",
+                body: patch,
+            }),
+            invalidatesTags: (result, error, { projectId }) => [
+                { type: "CustomFields", id: projectId },
+            ],
+        }),
+        // Every task's value for the field goes with it
+        deleteCustomField: build.mutation<{ message: string }, { projectId: number; fieldId: number }>({
+            query: ({ projectId, fieldId }) => ({
+                url: `projects/${projectId}/fields/${fieldId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { projectId }) => [
+                { type: "CustomFields", id: projectId },
+                { type: "Tasks", id: "LIST" },
+            ],
+        }),
+        getTimeEntries: build.query<TimeEntry[], number>({
+            query: (taskId) => `tasks/${taskId}/time`,
+            providesTags: ["Time"],
+        }),
+        // Logged time shows on the task and in every time total, so changes refresh all of them
+        createTimeEntry: build.mutation<
+            TimeEntry,
+            { taskId: number; startedAt: string; endedAt?: string; minutes?: number; note?: string }
+        >({
+            query: ({ taskId, ...entry }) => ({
+                url: `tasks/${taskId}/time`,
+                method: "POST",
+                body: entry,
+            }),
+            invalidatesTags: (result, error, { taskId }) => ["Time", { type: "Tasks", id: taskId }],
+        }),
+        updateTimeEntry: build.mutation<
+            TimeEntry,
+            { taskId: number; entryId: number; startedAt?: string; endedAt?: string; minutes?: number; note?: string }
+        >({
+            query: ({ taskId, entryId, ...patch }) => ({
+                url: `tasks/${taskId}/time/${entryId}`,
+                method: "PATCH",
+                body: patch,
+            }),
+            invalidatesTags: (result, error, { taskId }) => ["Time", { type: "Tasks", id: taskId }],
+        }),
+        deleteTimeEntry: build.mutation<{ message: string }, { taskId: number; entryId: number }>({
+            query: ({ taskId, entryId }) => ({
+                url: `tasks/${taskId}/time/${entryId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { taskId }) => ["Time", { type: "Tasks", id: taskId }],
+        }),
+        getCurrentTimer: build.query<TimeEntry | null, void>({
+            query: () => "time/timer",
+            providesTags: ["Time"],
+        }),
+        // Starting stops the caller's running timer, which may be on another task
+        startTimer: build.mutation<
+            { timer: TimeEntry; stopped: TimeEntry | null },
+            { taskId: number; note?: string }
+        >({
+            query: ({ taskId, ...body }) => ({
+                url: `tasks/${taskId}/timer/start`,
+                method: "POST",
+                body,
+            }),
+            invalidatesTags: (result, error, { taskId }) => [
+                "Time",
+                { type: "Tasks", id: taskId },
+                ...(result?.stopped ? [{ type: "Tasks" as const, id: result.stopped.taskId }] : []),
+            ],
+        }),
+        stopTimer: build.mutation<TimeEntry, { taskId: number; note?: string }>({
+            query: ({ taskId, ...body }) => ({
+                url: `tasks/${taskId}/timer/stop`,
+                method: "POST",
+                body,
+            }),
+            invalidatesTags: (result, error, { taskId }) => ["Time", { type: "Tasks", id: taskId }],
+        }),
+        getTimesheet: build.query<TimeEntry[], { from: string; to: string; userId?: number }>({
+            query: ({ from, to, userId }) => ({
+                url: "time/entries",
+                params: userId ? { from, to, userId } : { from, to },
+            }),
+            providesTags: ["Time"],
+        }),
+        getProjectTime: build.query<TimeTotals, number>({
+            query: (projectId) => `projects/${projectId}/time`,
+            providesTags: ["Time"],
+        }),
+        getSprints: build.query<Sprint[], number>({
+            query: (projectId) => `projects/${projectId}/sprints`,
+            providesTags: ["Sprints"],
+        }),
+        createSprint: build.mutation<
+            Sprint,
+            { projectId: number; name: string; goal?: string; startDate: string; endDate: string }
+        >({
+            query: ({ projectId, ...sprint }) => ({
+                url: `projects/${projectId}/sprints`,
+                method: "POST",
+                body: sprint,
+            }),
+            invalidatesTags: ["Sprints"],
+        }),
+        updateSprint: build.mutation<
+            Sprint,
+            { projectId: number; sprintId: number; name?: string; goal?: string | null; startDate?: string; endDate?: string }
+        >({
+            query: ({ projectId, sprintId, ...patch }) => ({
+                url: `projects/${projectId}/sprints/${sprintId}`,
+                method: "PATCH",
+                body: patch,
+            }),
+            invalidatesTags: ["Sprints"],
+        }),
+        // The sprint's tasks go back to the backlog
+        deleteSprint: build.mutation<{ message: string }, { projectId: number; sprintId: number }>({
+            query: ({ projectId, sprintId }) => ({
+                url: `projects/${projectId}/sprints/${sprintId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: ["Sprints", "Tasks"],
+        }),
+        startSprint: build.mutation<Sprint, { projectId: number; sprintId: number }>({
+            query: ({ projectId, sprintId }) => ({
+                url: `projects/${projectId}/sprints/${sprintId}/start`,
+                method: "POST",
+            }),
+            invalidatesTags: ["Sprints"],
+        }),
+        // Unfinished tasks move to carryOverTo, or to the backlog when it is null
+        completeSprint: build.mutation<
+            { sprint: Sprint; carriedOver: number[] },
+            { projectId: number; sprintId: number; carryOverTo: number | null }
+        >({
+            query: ({ projectId, sprintId, carryOverTo }) => ({
+                url: `projects/${projectId}/sprints/${sprintId}/complete`,
+                method: "POST",
+                body: { carryOverTo },
+            }),
+            invalidatesTags: ["Sprints", "Tasks"],
+        }),
+        // Rebuilt from task history; task mutations that touch a sprint invalidate "Sprints"
+        getSprintBurndown: build.query<BurndownDay[], { projectId: number; sprintId: number }>({
+            query: ({ projectId, sprintId }) => `projects/${projectId}/sprints/${sprintId}/burndown`,
+            providesTags: ["Sprints"],
+        }),
+        getReminderPreferences: build.query<ReminderPreferences, void>({
+            query: () => "reminders/preferences",
+            providesTags: ["Reminders"],
+        }),
+        updateReminderPreferences: build.mutation<ReminderPreferences, Partial<ReminderPreferences>>({
+            query: (preferences) => ({
+                url: "reminders/preferences",
+                method: "PATCH",
+                body: preferences,
+            }),
+            invalidatesTags: ["Reminders"],
+        }),
+        getNotifications: build.query<{ notifications: Notification[]; unreadCount: number }, void>({
+            query: () => "notifications",
+            providesTags: ["Notifications"],
+        }),
+        markNotificationRead: build.mutation<Notification, number>({
+            query: (notificationId) => ({
+                url: `notifications/${notificationId}/read`,
+                method: "PATCH",
+            }),
+            invalidatesTags: ["Notifications"],
+        }),
+        markAllNotificationsRead: build.mutation<{ count: number }, void>({
+            query: () => ({
+                url: "notifications/read-all",
+                method: "POST",
+            }),
+            invalidatesTags: ["Notifications"],
+        }),
+        getNotificationPreferences: build.query<{ muted: NotificationCategory[] }, void>({
+            query: () => "notifications/preferences",
+            providesTags: ["Notifications"],
+        }),
+        updateNotificationPreferences: build.mutation<{ muted: NotificationCategory[] }, { muted: NotificationCategory[] }>({
+            query: (preferences) => ({
+                url: "notifications/preferences",
+                method: "PATCH",
+                body: preferences,
+            }),
+            invalidatesTags: ["Notifications"],
+        }),
+        getComments: build.query<Comment[], number>({
+            query: (taskId) => `tasks/${taskId}/comments`,
+            providesTags: (result, error, taskId) => [{ type: "Comments", id: taskId }],
+        }),
+        createComment: build.mutation<Comment, { taskId: number; text: string; parentId?: number }>({
+            query: ({ taskId, ...comment }) => ({
+                url: `tasks/${taskId}/comments`,
+                method: "POST",
+                body: comment,
+            }),
+            // The task lists carry comments for the card counters, and commenting watches the task
+            invalidatesTags: (result, error, { taskId }) => [
+                { type: "Comments", id: taskId },
+                { type: "Tasks", id: taskId },
+                { type: "Watchers", id: taskId },
+            ],
+        }),
+        updateComment: build.mutation<Comment, { taskId: number; commentId: number; text: string }>({
+            query: ({ taskId, commentId, text }) => ({
+                url: `tasks/${taskId}/comments/${commentId}`,
+                method: "PATCH",
+                body: { text },
+            }),
+            invalidatesTags: (result, error, { taskId }) => [{ type: "Comments", id: taskId }],
+        }),
+        deleteComment: build.mutation<{ message: string }, { taskId: number; commentId: number }>({
+            query: ({ taskId, commentId }) => ({
+                url: `tasks/${taskId}/comments/${commentId}`,
+                method: "DELETE",
+            }),
+            invalidatesTags: (result, error, { taskId }) => [
+                { type: "Comments", id: taskId },
+                { type: "Tasks", id: taskId },
+            ],
+        }),
+        // Any change to the task (or its comments) may have added entries
+        getTaskActivity: build.query<TaskActivity[], number>({
+            query: (taskId) => `tasks/${taskId}/activity`,
+            providesTags: (result, error, taskId) => [
+                { type: "Tasks", id: taskId },
+                { type: "Comments", id: taskId },
             ],
         }),
         getUsers: build.query<User[], void>({
@@ -190,6 +1320,11 @@ export const api = createApi({
             query: () => "teams",
             providesTags: ["Teams"]
         }),
+        getPermissions: build.query<Permissions, { projectId?: number }>({
+            query: ({ projectId }) =>
+                projectId ? `permissions?projectId=${projectId}` : "permissions",
+            providesTags: ["Permissions"],
+        }),
         search: build.query<SearchReults, string>({
             query: (query) => `search?query=${query}`,
         }),
@@ -216,13 +1351,91 @@ export const api = createApi({
 
 export const { 
     useGetProjectsQuery, 
+    useGetArchivedProjectsQuery,
     useCreateProjectMutation, 
+    useUpdateProjectMutation,
+    useArchiveProjectMutation,
+    useUnarchiveProjectMutation,
+    useDeleteProjectMutation,
+    useGetTemplatesQuery,
+    useCreateTemplateMutation,
+    useDeleteTemplateMutation,
     useGetTasksQuery, 
+    useGetTaskQuery,
+    useGetTaskPageQuery,
     useCreateTaskMutation, 
     useUpdateTaskStatusMutation, 
+    useMoveTaskMutation,
+    useBulkUpdateTasksMutation,
+    useUpdateTaskMutation,
+    useDeleteTaskMutation,
+    useArchiveTaskMutation,
+    useUnarchiveTaskMutation,
+    useGetTrashQuery,
+    useRestoreTaskMutation,
+    usePurgeTaskMutation,
+    useRestoreProjectMutation,
+    usePurgeProjectMutation,
+    useAddAssigneeMutation,
+    useRemoveAssigneeMutation,
+    useGetTaskWatchersQuery,
+    useGetSavedViewsQuery,
+    useCreateSavedViewMutation,
+    useUpdateSavedViewMutation,
+    useDeleteSavedViewMutation,
+    useWatchTaskMutation,
+    useUnwatchTaskMutation,
+    useAddChecklistItemMutation,
+    useUpdateChecklistItemMutation,
+    useDeleteChecklistItemMutation,
+    useReorderChecklistMutation,
+    useAddDependencyMutation,
+    useRemoveDependencyMutation,
+    useGetTagsQuery,
+    useCreateTagMutation,
+    useUpdateTagMutation,
+    useDeleteTagMutation,
+    useGetProjectStatusesQuery,
+    useCreateProjectStatusMutation,
+    useUpdateProjectStatusMutation,
+    useReorderProjectStatusesMutation,
+    useDeleteProjectStatusMutation,
+    useGetCustomFieldsQuery,
+    useCreateCustomFieldMutation,
+    useUpdateCustomFieldMutation,
+    useDeleteCustomFieldMutation,
+    useGetTimeEntriesQuery,
+    useCreateTimeEntryMutation,
+    useUpdateTimeEntryMutation,
+    useDeleteTimeEntryMutation,
+    useGetCurrentTimerQuery,
+    useStartTimerMutation,
+    useStopTimerMutation,
+    useGetTimesheetQuery,
+    useGetProjectTimeQuery,
+    useGetSprintsQuery,
+    useCreateSprintMutation,
+    useUpdateSprintMutation,
+    useDeleteSprintMutation,
+    useStartSprintMutation,
+    useCompleteSprintMutation,
+    useGetSprintBurndownQuery,
+    useGetReminderPreferencesQuery,
+    useUpdateReminderPreferencesMutation,
+    useGetNotificationsQuery,
+    useMarkNotificationReadMutation,
+    useMarkAllNotificationsReadMutation,
+    useGetNotificationPreferencesQuery,
+    useUpdateNotificationPreferencesMutation,
+    useGetCommentsQuery,
+    useCreateCommentMutation,
+    useUpdateCommentMutation,
+    useDeleteCommentMutation,
+    useGetTaskActivityQuery,
     useSearchQuery, 
     useGetUsersQuery, 
     useGetTeamsQuery,
+    useGetPermissionsQuery,
     useGetTasksByUserQuery,
     useGetAuthUserQuery,
     useLogPaymentMutation,
@@ -0,0 +1,68 @@
+import { createSlice } from "@reduxjs/toolkit";
+import { api, Project, Task, VersionConflict } from "@/state/api";
+
+type ArgsOf<Endpoint extends keyof typeof api.endpoints> = Parameters<
+    (typeof api.endpoints)[Endpoint]["initiate"]
+>[0];
+
+// A versioned edit the server refused, with what it holds now; the conflict dialog resolves it
+export type EditConflict = { message: string } & (
+    | { endpoint: "updateTask"; args: ArgsOf<"updateTask">; current: Task }
+    | { endpoint: "updateTaskStatus"; args: ArgsOf<"updateTaskStatus">; current: Task }
+    | { endpoint: "moveTask"; args: ArgsOf<"moveTask">; current: Task }
+    | { endpoint: "updateProject"; args: ArgsOf<"updateProject">; current: Project }
+);
+
+export interface ConflictsState {
+    conflict: EditConflict | null;
+}
+
+const initialState: ConflictsState = {
+    conflict: null,
+};
+
+const readConflict = <T,>(payload: unknown): VersionConflict<T> | null => {
+    const error = payload as { status?: number; data?: VersionConflict<T> } | undefined;
+    return error?.status === 409 && error.data?.current ? error.data : null;
+};
+
+// Not persisted: a conflict only means something to the page that ran into it
+export const conflictsSlice = createSlice({
+    name: "conflicts",
+    initialState,
+    reducers: {
+        clearConflict: (state) => {
+            state.conflict = null;
+        },
+    },
+    extraReducers: (builder) => {
+        builder
+            .addMatcher(api.endpoints.updateTask.matchRejected, (state, action) => {
+                const conflict = readConflict<Task>(action.payload);
+                if (conflict) {
+                    state.conflict = { endpoint: "updateTask", args: action.meta.arg.originalArgs, ...conflict };
+                }
+            })
+            .addMatcher(api.endpoints.updateTaskStatus.matchRejected, (state, action) => {
+                const conflict = readConflict<Task>(action.payload);
+                if (conflict) {
+                    state.conflict = { endpoint: "updateTaskStatus", args: action.meta.arg.originalArgs, ...conflict };
+                }
+            })
+            .addMatcher(api.endpoints.moveTask.matchRejected, (state, action) => {
+                const conflict = readConflict<Task>(action.payload);
+                if (conflict) {
+                    state.conflict = { endpoint: "moveTask", args: action.meta.arg.originalArgs, ...conflict };
+                }
+            })
+            .addMatcher(api.endpoints.updateProject.matchRejected, (state, action) => {
+                const conflict = readConflict<Project>(action.payload);
+                if (conflict) {
+                    state.conflict = { endpoint: "updateProject", args: action.meta.arg.originalArgs, ...conflict };
+                }
+            });
+    },
+});
+
+export const { clearConflict } = conflictsSlice.actions;
+export default conflictsSlice.reducer;